@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileCacheStore, MemoryCacheStore } from '../../cache/cache-store.js';
+import type { CacheEntry } from '../../types/cache.js';
+
+function entry(value: unknown, ttl = 60_000, tags?: string[]): CacheEntry {
+  const expiresAt = Date.now() + ttl;
+  return { value, expiresAt, staleUntil: expiresAt, tags };
+}
+
+describe('MemoryCacheStore', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('drops the least recently used entry beyond maxEntries', async () => {
+    const store = new MemoryCacheStore({ maxEntries: 2 });
+    await store.set('a', entry(1));
+    await store.set('b', entry(2));
+    await store.get('a');
+    await store.set('c', entry(3));
+
+    expect(await store.get('a')).toBeDefined();
+    expect(await store.get('b')).toBeUndefined();
+    expect(store.size).toBe(2);
+  });
+
+  it('sweeps entries past staleUntil on write', async () => {
+    vi.useFakeTimers();
+    const store = new MemoryCacheStore();
+    await store.set('a', entry(1, 1000));
+    vi.advanceTimersByTime(2000);
+    await store.set('b', entry(2));
+
+    expect(store.size).toBe(1);
+  });
+
+  it('returns copies, so callers cannot change the cached value', async () => {
+    const store = new MemoryCacheStore();
+    await store.set('a', entry({ tags: ['x'] }));
+
+    const first = await store.get('a');
+    (first!.value as { tags: string[] }).tags.push('y');
+    expect((await store.get('a'))!.value).toEqual({ tags: ['x'] });
+  });
+
+  it('invalidates entries by tag', async () => {
+    const store = new MemoryCacheStore();
+    await store.set('a', entry(1, 60_000, ['customer/1']));
+    await store.set('b', entry(2, 60_000, ['customer/2']));
+    await store.invalidateTags(['customer/1']);
+
+    expect(await store.get('a')).toBeUndefined();
+    expect(await store.get('b')).toBeDefined();
+  });
+});
+
+describe('FileCacheStore', () => {
+  let directory: string | undefined;
+
+  afterEach(async () => {
+    if (directory) await rm(directory, { recursive: true, force: true });
+    directory = undefined;
+  });
+
+  async function createStore(): Promise<FileCacheStore> {
+    directory = await mkdtemp(join(tmpdir(), 'netsuite-cache-'));
+    return new FileCacheStore(join(directory, 'nested', 'cache.json'));
+  }
+
+  it('returns undefined before anything is written', async () => {
+    const store = await createStore();
+    expect(await store.get('a')).toBeUndefined();
+  });
+
+  it('keeps every entry written concurrently', async () => {
+    const store = await createStore();
+    await Promise.all([store.set('a', entry(1)), store.set('b', entry(2))]);
+
+    const reopened = new FileCacheStore(join(directory!, 'nested', 'cache.json'));
+    expect((await reopened.get('a'))?.value).toBe(1);
+    expect((await reopened.get('b'))?.value).toBe(2);
+  });
+
+  it('does not serve entries past staleUntil', async () => {
+    const store = await createStore();
+    await store.set('a', entry(1, -1));
+    expect(await store.get('a')).toBeUndefined();
+  });
+
+  it('invalidates entries by tag and clears', async () => {
+    const store = await createStore();
+    await store.set('a', entry(1, 60_000, ['customer']));
+    await store.set('b', entry(2));
+    await store.invalidateTags(['customer']);
+
+    expect(await store.get('a')).toBeUndefined();
+    expect(await store.get('b')).toBeDefined();
+
+    await store.clear();
+    expect(await store.get('b')).toBeUndefined();
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NetSuiteStandIn } from '../../testing/stand-in.js';
+import { NetSuiteClient } from '../../client.js';
+import { RequestCache, recordCacheTag } from '../../cache/request-cache.js';
+import { MemoryCacheStore } from '../../cache/cache-store.js';
+import type { NetSuiteConfig } from '../../types/config.js';
+
+describe('response caching', () => {
+  let standIn: NetSuiteStandIn;
+
+  beforeEach(() => {
+    standIn = new NetSuiteStandIn({
+      records: {
+        customer: [
+          { id: '1', companyName: 'Acme', externalId: 'A-1' },
+          { id: '2', companyName: 'Globex' },
+        ],
+      },
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function createClient(cache: NetSuiteConfig['cache']): NetSuiteClient {
+    return new NetSuiteClient({
+      auth: { authorize: async () => ({}) },
+      accountId: '1234567',
+      maxRetries: 0,
+      adapter: standIn.adapter(),
+      cache,
+    });
+  }
+
+  const gets = () => standIn.requests.filter((request) => request.method === 'GET').length;
+
+  it('serves repeated record reads from the cache', async () => {
+    const client = createClient({ record: { ttl: 60_000 } });
+
+    await client.records.get('customer', 1);
+    const { data } = await client.records.get('customer', 1);
+
+    expect(data).toMatchObject({ companyName: 'Acme' });
+    expect(gets()).toBe(1);
+  });
+
+  it('caches only the APIs with a policy', async () => {
+    const client = createClient({ suiteql: { ttl: 60_000 } });
+
+    await client.records.get('customer', 1);
+    await client.records.get('customer', 1);
+
+    expect(gets()).toBe(2);
+  });
+
+  it('expires entries after the ttl', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const client = createClient({ record: { ttl: 1000 } });
+
+    await client.records.get('customer', 1);
+    vi.setSystemTime(Date.now() + 1500);
+    await client.records.get('customer', 1);
+
+    expect(gets()).toBe(2);
+  });
+
+  it('serves stale entries while refreshing them in the background', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const client = createClient({ record: { ttl: 1000, staleWhileRevalidate: 60_000 } });
+
+    await client.records.get('customer', 1);
+    standIn.seed('customer', [{ id: '1', companyName: 'Acme Corp' }]);
+    vi.setSystemTime(Date.now() + 1500);
+
+    const stale = await client.records.get('customer', 1);
+    expect(stale.data).toMatchObject({ companyName: 'Acme' });
+
+    await vi.waitFor(async () => {
+      const fresh = await client.records.get('customer', 1);
+      expect(fresh.data).toMatchObject({ companyName: 'Acme Corp' });
+    });
+    expect(gets()).toBe(2);
+  });
+
+  it('invalidates a record and its type lists after an update', async () => {
+    const client = createClient({ record: { ttl: 60_000 } });
+
+    await client.records.get('customer', 1);
+    await client.records.get('customer', 2);
+    await client.records.list('customer');
+    await client.records.update('customer', 1, { companyName: 'Acme Corp' });
+
+    const { data } = await client.records.get('customer', 1);
+    await client.records.get('customer', 2);
+    await client.records.list('customer');
+
+    expect(data).toMatchObject({ companyName: 'Acme Corp' });
+    expect(gets()).toBe(5);
+  });
+
+  it('invalidates by the internal ID an upsert reports', async () => {
+    const client = createClient({ record: { ttl: 60_000 } });
+
+    await client.records.get('customer', 1);
+    await client.records.upsert('customer', 'externalId', 'A-1', { companyName: 'Acme Corp' });
+    const { data } = await client.records.get('customer', 1);
+
+    expect(data).toMatchObject({ companyName: 'Acme Corp' });
+  });
+
+  it('invalidates the target type a transform creates', async () => {
+    standIn.seed('salesorder', [{ id: '7', entity: { id: '1' } }]);
+    const client = createClient({ record: { ttl: 60_000 } });
+
+    await client.records.list('invoice');
+    await client.records.transform('salesorder', 7, 'invoice');
+    await client.records.list('invoice');
+
+    expect(gets()).toBe(2);
+  });
+
+  it('tags record types case-insensitively', () => {
+    expect(recordCacheTag('1234567', 'salesOrder', '7')).toBe(
+      recordCacheTag('1234567', 'salesorder', '7'),
+    );
+  });
+
+  it('invalidates after a delete', async () => {
+    const client = createClient({ record: { ttl: 60_000 } });
+
+    await client.records.get('customer', 2);
+    await client.records.delete('customer', 2);
+
+    await expect(client.records.get('customer', 2)).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('caches SuiteQL queries by SQL and paging options', async () => {
+    const client = createClient({ suiteql: { ttl: 60_000 } });
+    const sql = 'SELECT id FROM customer';
+
+    await client.suiteql.query(sql);
+    await client.suiteql.query(sql);
+    await client.suiteql.query(sql, { pageSize: 1 });
+
+    expect(standIn.requests.filter((request) => request.method === 'POST')).toHaveLength(3);
+  });
+
+  it('bypasses the cache per call', async () => {
+    const client = createClient({ record: { ttl: 60_000 } });
+
+    await client.records.get('customer', 1);
+    await client.records.get('customer', 1, { cache: false });
+
+    expect(gets()).toBe(2);
+  });
+
+  it('shares a RequestCache instance between clients', async () => {
+    const cache = new RequestCache({ record: { ttl: 60_000 } });
+
+    await createClient(cache).records.get('customer', 1);
+    await createClient(cache).records.get('customer', 1);
+
+    expect(gets()).toBe(1);
+  });
+
+  it('falls back to NetSuite when the store fails', async () => {
+    const store = new MemoryCacheStore();
+    vi.spyOn(store, 'get').mockRejectedValue(new Error('store down'));
+    const onError = vi.fn();
+    const client = createClient({ record: { ttl: 60_000 }, store, onError });
+
+    const { data } = await client.records.get('customer', 1);
+
+    expect(data).toMatchObject({ companyName: 'Acme' });
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'store down' }));
+  });
+});
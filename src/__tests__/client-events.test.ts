@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { NetSuiteClient } from '../client.js';
+import { NetSuiteStandIn } from '../testing/stand-in.js';
+import type { NetSuiteEvents } from '../types/events.js';
+
+describe('NetSuiteClient events', () => {
+  let standIn: NetSuiteStandIn;
+  let client: NetSuiteClient;
+  let events: Array<[keyof NetSuiteEvents, NetSuiteEvents[keyof NetSuiteEvents]]>;
+
+  beforeEach(() => {
+    standIn = new NetSuiteStandIn({
+      records: { customer: [{ id: '1' }, { id: '2' }, { id: '3' }] },
+    });
+    client = new NetSuiteClient({
+      auth: { authorize: async () => ({}) },
+      accountId: '1234567',
+      maxRetries: 2,
+      retryDelay: 1,
+      adapter: standIn.adapter(),
+    });
+    events = [];
+    const names: Array<keyof NetSuiteEvents> = [
+      'request:start',
+      'request:retry',
+      'request:success',
+      'request:error',
+      'suiteql:page',
+      'record:mutated',
+    ];
+    for (const name of names) {
+      client.on(name, (event) => void events.push([name, event]));
+    }
+  });
+
+  const named = <K extends keyof NetSuiteEvents>(name: K) =>
+    events.filter(([n]) => n === name).map(([, event]) => event as NetSuiteEvents[K]);
+
+  it('follows a request through retries with one correlation ID', async () => {
+    standIn.injectFault({ status: 503, times: 1 });
+
+    await client.records.get('customer', 1);
+
+    expect(events.map(([name]) => name)).toEqual([
+      'request:start',
+      'request:retry',
+      'request:success',
+    ]);
+    const ids = new Set(events.map(([, event]) => (event as { requestId: string }).requestId));
+    expect(ids.size).toBe(1);
+    expect(named('request:retry')[0]).toMatchObject({ attempt: 1, delay: expect.any(Number) });
+    expect(named('request:success')[0]).toMatchObject({ status: 200, attempts: 2 });
+  });
+
+  it('emits request:error with the final error', async () => {
+    await client.records.get('customer', 99).catch(() => undefined);
+
+    expect(named('request:error')[0]).toMatchObject({
+      attempts: 1,
+      error: expect.objectContaining({ code: 'NONEXISTENT_ID' }),
+    });
+  });
+
+  it('uses a caller-supplied request ID', async () => {
+    const url = 'https://1234567.suitetalk.api.netsuite.com/services/rest/record/v1/customer/1';
+    await client.get(url, { requestId: 'order-42' });
+
+    expect(named('request:start')[0].requestId).toBe('order-42');
+  });
+
+  it('emits suiteql:page for each page of a query', async () => {
+    await client.suiteql.query('SELECT id FROM customer', { pageSize: 2 });
+
+    const pages = named('suiteql:page');
+    expect(pages).toHaveLength(2);
+    expect(pages[0]).toMatchObject({ page: 1, offset: 0, rows: 2, totalResults: 3, hasMore: true });
+    expect(pages[1]).toMatchObject({ page: 2, offset: 2, rows: 1, hasMore: false });
+    expect(pages[1].queryId).toBe(pages[0].queryId);
+    expect(named('request:start').map((e) => e.requestId)).toEqual(
+      pages.map((page) => page.requestId),
+    );
+  });
+
+  it('emits record:mutated for record writes', async () => {
+    await client.records.create('customer', { companyName: 'Umbrella' });
+    await client.records.update('customer', 4, { email: 'u@umbrella.test' });
+    await client.records.upsert('customer', 'externalId', 'C-9', { companyName: 'Hooli' });
+    await client.records.delete('customer', 1);
+
+    expect(
+      named('record:mutated').map(({ operation, recordType, recordId }) => ({
+        operation,
+        recordType,
+        recordId,
+      })),
+    ).toEqual([
+      { operation: 'create', recordType: 'customer', recordId: '4' },
+      { operation: 'update', recordType: 'customer', recordId: '4' },
+      { operation: 'upsert', recordType: 'customer', recordId: '5' },
+      { operation: 'delete', recordType: 'customer', recordId: '1' },
+    ]);
+  });
+
+  it('reports the created record for transforms', async () => {
+    await client.records.create('invoice', {});
+    events = [];
+    await client.records.transform('customer', 3, 'invoice');
+
+    expect(named('record:mutated')).toEqual([
+      expect.objectContaining({ operation: 'transform', recordType: 'invoice', recordId: '2' }),
+    ]);
+  });
+
+  it('does not emit record:mutated for reads or failed writes', async () => {
+    await client.records.get('customer', 1);
+    await client.records.delete('customer', 99).catch(() => undefined);
+
+    expect(named('record:mutated')).toEqual([]);
+  });
+});
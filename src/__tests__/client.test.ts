@@ -14,6 +14,7 @@ vi.mock('../transport/http-transport.js', () => ({
       duration: 50,
     }),
     use: vi.fn(),
+    setAuth: vi.fn(),
   })),
 }));
 
@@ -72,4 +73,12 @@ describe('NetSuiteClient', () => {
     const result = client.use(async (ctx, next) => next());
     expect(result).toBe(client);
   });
+
+  it('setAuth() validates and returns this for chaining', () => {
+    const client = new NetSuiteClient(validConfig);
+    expect(client.setAuth({ ...validConfig.auth, tokenKey: 'rotated' })).toBe(client);
+    expect(() => client.setAuth({ ...validConfig.auth, tokenKey: '' })).toThrow(
+      'auth.tokenKey',
+    );
+  });
 });
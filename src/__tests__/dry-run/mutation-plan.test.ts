@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { NetSuiteStandIn } from '../../testing/stand-in.js';
+import { NetSuiteClient } from '../../client.js';
+import { MutationPlan } from '../../dry-run/mutation-plan.js';
+import type { NetSuiteConfig } from '../../types/config.js';
+
+describe('dry-run mode', () => {
+  let standIn: NetSuiteStandIn;
+
+  beforeEach(() => {
+    standIn = new NetSuiteStandIn({
+      records: {
+        customer: [{ id: '1', companyName: 'Acme' }],
+        contact: [{ id: '1', firstName: 'Ada', company: '1' }],
+      },
+    });
+  });
+
+  function createClient(overrides: Partial<NetSuiteConfig> = {}): NetSuiteClient {
+    return new NetSuiteClient({
+      auth: { authorize: async () => ({}) },
+      accountId: '1234567',
+      maxRetries: 0,
+      adapter: standIn.adapter(),
+      ...overrides,
+    });
+  }
+
+  /** Create a customer, then point the existing contact at it */
+  async function migrate(client: NetSuiteClient): Promise<void> {
+    const { id } = await client.records.create('customer', { companyName: 'Globex' });
+    await client.records.update('contact', 1, { company: id });
+  }
+
+  it('captures writes while reads and SuiteQL still reach NetSuite', async () => {
+    const client = createClient({ dryRun: true });
+
+    const { data } = await client.records.get('customer', 1);
+    await client.suiteql.query('SELECT id FROM customer');
+    await migrate(client);
+    await client.records.delete('customer', 1);
+
+    expect(data).toMatchObject({ companyName: 'Acme' });
+    expect(standIn.requests.map((request) => request.method)).toEqual(['GET', 'POST']);
+    expect(standIn.getRecords('customer')).toHaveLength(1);
+    expect(client.dryRun!.mutations).toMatchObject([
+      {
+        sequence: 1,
+        method: 'POST',
+        accountId: '1234567',
+        operation: 'create',
+        recordType: 'customer',
+        placeholderId: 'dryrun-1',
+        body: { companyName: 'Globex' },
+      },
+      {
+        sequence: 2,
+        method: 'PATCH',
+        operation: 'update',
+        recordType: 'contact',
+        recordId: '1',
+        body: { company: 'dryrun-1' },
+      },
+      { sequence: 3, method: 'DELETE', operation: 'delete', recordId: '1' },
+    ]);
+  });
+
+  it('returns a synthetic response with a placeholder Location for creates', async () => {
+    const client = createClient({ dryRun: true });
+
+    const response = await client.records.create('customer', { companyName: 'Globex' });
+
+    expect(response.status).toBe(204);
+    expect(response.headers.location).toBe(
+      'https://1234567.suitetalk.api.netsuite.com/services/rest/record/v1/customer/dryrun-1',
+    );
+  });
+
+  it('captures raw and RESTlet writes', async () => {
+    const client = createClient({ dryRun: true });
+
+    await client.restlets.call({ script: 7, deploy: 1 }, { method: 'POST', body: { run: true } });
+
+    expect(client.dryRun!.mutations).toEqual([
+      expect.objectContaining({ method: 'POST', body: { run: true } }),
+    ]);
+    expect(client.dryRun!.mutations[0].operation).toBeUndefined();
+  });
+
+  it('replays an exported plan, swapping placeholders for real IDs', async () => {
+    const dryClient = createClient({ dryRun: true });
+    await migrate(dryClient);
+
+    const plan = MutationPlan.fromJSON(JSON.stringify(dryClient.dryRun));
+    const result = await plan.replay(createClient());
+
+    expect(result.completed).toBe(true);
+    const newId = result.ids['dryrun-1'];
+    expect(newId).toBeDefined();
+    expect(standIn.getRecords('customer')).toContainEqual(
+      expect.objectContaining({ id: newId, companyName: 'Globex' }),
+    );
+    expect(standIn.getRecords('contact')[0]).toMatchObject({ company: newId });
+  });
+
+  it('sends the captured idempotency key on replay', async () => {
+    const dryClient = createClient({ dryRun: true });
+    await dryClient.records.create('customer', { companyName: 'Globex' });
+
+    await dryClient.dryRun!.replay(createClient());
+
+    const key = dryClient.dryRun!.mutations[0].idempotencyKey;
+    expect(key).toBeDefined();
+    expect(standIn.requests[0].headers['X-NetSuite-Idempotency-Key']).toBe(key);
+  });
+
+  it('stops at the first failed write unless told to continue', async () => {
+    const dryClient = createClient({ dryRun: true });
+    await dryClient.records.update('customer', 99, { companyName: 'Missing' });
+    await dryClient.records.update('customer', 1, { companyName: 'Acme Corp' });
+    const plan = dryClient.dryRun!;
+
+    const stopped = await plan.replay(createClient());
+    expect(stopped.completed).toBe(false);
+    expect(stopped.mutations.map((m) => m.ok)).toEqual([false]);
+
+    const continued = await plan.replay(createClient(), { continueOnError: true });
+    expect(continued.mutations.map((m) => m.ok)).toEqual([false, true]);
+  });
+
+  it('refuses to replay through a dry-run client or another account', async () => {
+    const dryClient = createClient({ dryRun: true });
+    await dryClient.records.delete('customer', 1);
+    const plan = dryClient.dryRun!;
+
+    await expect(plan.replay(dryClient)).rejects.toThrow(/dry-run mode/);
+    await expect(plan.replay(createClient({ accountId: '7654321' }))).rejects.toThrow(
+      /targets account 1234567/,
+    );
+  });
+
+  it('rejects JSON that is not a plan', () => {
+    expect(() => MutationPlan.fromJSON('{"mutations":[]}')).toThrow(/Not a serialized/);
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createPinoLogger, createWinstonLogger } from '../../logging/adapters.js';
+
+describe('createPinoLogger', () => {
+  it('passes meta as the merge object before the message', () => {
+    const pino = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const logger = createPinoLogger(pino);
+
+    logger.warn('Retry attempt 1/3', { event: 'request.retry', requestId: 'r1' });
+    logger.info('no meta');
+
+    expect(pino.warn).toHaveBeenCalledWith(
+      { event: 'request.retry', requestId: 'r1' },
+      'Retry attempt 1/3',
+    );
+    expect(pino.info).toHaveBeenCalledWith({}, 'no meta');
+  });
+});
+
+describe('createWinstonLogger', () => {
+  it('logs at the matching level with meta fields', () => {
+    const winston = { log: vi.fn() };
+    const logger = createWinstonLogger(winston);
+
+    logger.debug('GET /record', { event: 'request.start' });
+    logger.error('failed', 'not an object');
+
+    expect(winston.log).toHaveBeenCalledWith('debug', 'GET /record', { event: 'request.start' });
+    expect(winston.log).toHaveBeenCalledWith('error', 'failed', { meta: 'not an object' });
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Redactor, createRedactingLogger, REDACTED } from '../../logging/redaction.js';
+import { NetSuiteError } from '../../types/errors.js';
+
+const RESTLET_URL = 'https://1234567.restlets.api.netsuite.com/app/site/hosting/restlet.nl';
+const URL_WITH_QUERY = `${RESTLET_URL}?script=1&email=a%40b.test&oauth_token=abc`;
+
+describe('Redactor', () => {
+  it('strips query strings from URLs by default', () => {
+    expect(new Redactor().url(URL_WITH_QUERY)).toBe(RESTLET_URL);
+  });
+
+  it('keeps query strings on request but still redacts OAuth parameters', () => {
+    const url = new URL(new Redactor({ keepQueryStrings: true }).url(URL_WITH_QUERY));
+    expect(url.searchParams.get('script')).toBe('1');
+    expect(url.searchParams.get('oauth_token')).toBe(REDACTED);
+  });
+
+  it('redacts credentials, configured headers and PII fields at any depth', () => {
+    const redactor = new Redactor({ headers: ['X-Api-Key'], fields: ['email'] });
+
+    expect(
+      redactor.value({
+        headers: { Authorization: 'OAuth realm="1"', 'x-api-key': 'k', Accept: 'json' },
+        body: { customer: [{ email: 'a@b.test', name: 'Acme' }] },
+        tokens: { access_token: 'at', refresh_token: 'rt' },
+      }),
+    ).toEqual({
+      headers: { Authorization: REDACTED, 'x-api-key': REDACTED, Accept: 'json' },
+      body: { customer: [{ email: REDACTED, name: 'Acme' }] },
+      tokens: { access_token: REDACTED, refresh_token: REDACTED },
+    });
+  });
+
+  it('reduces errors to name, message, code and status', () => {
+    const error = new NetSuiteError(
+      'Invalid value',
+      400,
+      'INVALID_FLD_VALUE',
+      { detail: 'email a@b.test is invalid' },
+      URL_WITH_QUERY,
+      'GET',
+    );
+
+    expect(new Redactor().value({ error })).toEqual({
+      error: {
+        name: 'NetSuiteError',
+        message: 'Invalid value',
+        code: 'INVALID_FLD_VALUE',
+        status: 400,
+      },
+    });
+  });
+
+  it('handles circular references', () => {
+    const value: Record<string, unknown> = { a: 1 };
+    value.self = value;
+    expect(new Redactor().value(value)).toEqual({ a: 1, self: '[Circular]' });
+  });
+});
+
+describe('createRedactingLogger', () => {
+  it('redacts messages and meta before they reach the logger', () => {
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const redacting = createRedactingLogger(logger, { fields: ['phone'] });
+
+    redacting.info(`GET ${URL_WITH_QUERY} → 200`, { url: URL_WITH_QUERY, phone: '555' });
+    redacting.error('plain');
+
+    expect(logger.info).toHaveBeenCalledWith(`GET ${RESTLET_URL} → 200`, {
+      url: RESTLET_URL,
+      phone: REDACTED,
+    });
+    expect(logger.error).toHaveBeenCalledWith('plain');
+  });
+});
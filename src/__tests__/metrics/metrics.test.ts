@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { InMemoryMetricsSink } from '../../metrics/in-memory-sink.js';
+import { NETSUITE_METRICS, withMetricLabels } from '../../metrics/metrics.js';
+import { NetSuiteStandIn } from '../../testing/stand-in.js';
+import { NetSuiteClient } from '../../client.js';
+
+describe('client metrics', () => {
+  let metrics: InMemoryMetricsSink;
+  let standIn: NetSuiteStandIn;
+  let client: NetSuiteClient;
+
+  beforeEach(() => {
+    metrics = new InMemoryMetricsSink();
+    standIn = new NetSuiteStandIn({
+      records: {
+        customer: [{ id: '1' }, { id: '2' }, { id: '3' }],
+      },
+    });
+    client = new NetSuiteClient({
+      auth: { authorize: async () => ({}) },
+      accountId: '1234567',
+      maxRetries: 2,
+      retryDelay: 1,
+      adapter: standIn.adapter(),
+      metrics: withMetricLabels(metrics, { integration: 'order-sync' }),
+    });
+  });
+
+  it('counts attempts and latency by API family and record type', async () => {
+    await client.records.get('customer', 1);
+    await client.records.get('customer', 99).catch(() => undefined);
+
+    const labels = { integration: 'order-sync', api: 'record', record_type: 'customer' };
+    expect(metrics.getCounter(NETSUITE_METRICS.requests, labels)).toBe(2);
+    expect(metrics.getCounter(NETSUITE_METRICS.requests, { status_class: '2xx' })).toBe(1);
+    expect(metrics.getCounter(NETSUITE_METRICS.requests, { status: '404' })).toBe(1);
+    expect(metrics.getObservations(NETSUITE_METRICS.requestDuration, labels)).toHaveLength(2);
+  });
+
+  it('counts throttling, 5xx responses and retries', async () => {
+    standIn.injectFault({ status: 429, times: 1 });
+    standIn.injectFault({ status: 503, times: 1 });
+
+    await client.records.get('customer', 1);
+
+    expect(metrics.getCounter(NETSUITE_METRICS.throttled, { api: 'record' })).toBe(1);
+    expect(metrics.getCounter(NETSUITE_METRICS.requests, { status_class: '5xx' })).toBe(1);
+    expect(metrics.getCounter(NETSUITE_METRICS.retries, { method: 'GET' })).toBe(2);
+    expect(metrics.getCounter(NETSUITE_METRICS.requests)).toBe(3);
+  });
+
+  it('records SuiteQL rows and pages per query', async () => {
+    await client.suiteql.query('SELECT id FROM customer', { pageSize: 2 });
+    for await (const page of client.suiteql.queryPages('SELECT id FROM customer')) {
+      expect(page).toHaveLength(3);
+    }
+
+    expect(metrics.getCounter(NETSUITE_METRICS.suiteqlRows, { api: 'suiteql' })).toBe(6);
+    expect(metrics.getObservations(NETSUITE_METRICS.suiteqlPages)).toEqual([2, 1]);
+    expect(metrics.getCounter(NETSUITE_METRICS.requests, { api: 'suiteql' })).toBe(3);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { PrometheusMetricsSink } from '../../metrics/prometheus-sink.js';
+
+describe('PrometheusMetricsSink', () => {
+  it('renders counters with HELP, TYPE and escaped labels', () => {
+    const sink = new PrometheusMetricsSink();
+    sink.increment('netsuite_requests_total', { api: 'record', status: '200' });
+    sink.increment('netsuite_requests_total', { status: '200', api: 'record' }, 2);
+    sink.increment('custom_total', { note: 'say "hi"\\n' });
+
+    expect(sink.render()).toBe(
+      [
+        '# HELP netsuite_requests_total HTTP attempts sent to NetSuite',
+        '# TYPE netsuite_requests_total counter',
+        'netsuite_requests_total{api="record",status="200"} 3',
+        '# TYPE custom_total counter',
+        'custom_total{note="say \\"hi\\"\\\\n"} 1',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('renders cumulative histogram buckets with sum and count', () => {
+    const sink = new PrometheusMetricsSink();
+    sink.observe('netsuite_suiteql_pages', {}, 1);
+    sink.observe('netsuite_suiteql_pages', {}, 3);
+    sink.observe('netsuite_suiteql_pages', {}, 500);
+
+    const lines = sink.render().split('\n');
+
+    expect(lines).toContain('# TYPE netsuite_suiteql_pages histogram');
+    expect(lines).toContain('netsuite_suiteql_pages_bucket{le="1"} 1');
+    expect(lines).toContain('netsuite_suiteql_pages_bucket{le="5"} 2');
+    expect(lines).toContain('netsuite_suiteql_pages_bucket{le="100"} 2');
+    expect(lines).toContain('netsuite_suiteql_pages_bucket{le="+Inf"} 3');
+    expect(lines).toContain('netsuite_suiteql_pages_sum 504');
+    expect(lines).toContain('netsuite_suiteql_pages_count 3');
+  });
+
+  it('uses the configured buckets for unknown histograms', () => {
+    const sink = new PrometheusMetricsSink({ buckets: [10, 1] });
+    sink.observe('custom_seconds', { job: 'sync' }, 5);
+
+    expect(sink.render()).toContain('custom_seconds_bucket{job="sync",le="10"} 1');
+    expect(sink.render()).toContain('custom_seconds_bucket{job="sync",le="1"} 0');
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { NetSuiteClientPool } from '../../pool/client-pool.js';
+import { NetSuiteStandIn } from '../../testing/stand-in.js';
+import { InMemoryMetricsSink } from '../../metrics/in-memory-sink.js';
+import { NETSUITE_METRICS } from '../../metrics/metrics.js';
+import { CircuitBreaker } from '../../transport/circuit-breaker.js';
+import type { AuthProvider } from '../../types/auth.js';
+
+const auth: AuthProvider = { authorize: async () => ({}) };
+
+function createPool(standIn: NetSuiteStandIn, overrides = {}) {
+  const credentials = vi.fn(async (accountId: string) => {
+    if (accountId === 'MISSING') throw new Error(`No credentials for ${accountId}`);
+    return auth;
+  });
+  const pool = new NetSuiteClientPool({
+    credentials,
+    defaults: { adapter: standIn.adapter(), maxRetries: 0 },
+    ...overrides,
+  });
+  return { pool, credentials };
+}
+
+describe('NetSuiteClientPool', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('creates one client per account, resolving credentials once', async () => {
+    const { pool, credentials } = createPool(new NetSuiteStandIn());
+
+    const [a, b] = await Promise.all([pool.get('1234567_SB1'), pool.get('1234567-sb1')]);
+    const other = await pool.get('7654321');
+
+    expect(a).toBe(b);
+    expect(other).not.toBe(a);
+    expect(credentials).toHaveBeenCalledTimes(2);
+    expect(credentials).toHaveBeenCalledWith('1234567_SB1');
+    expect(pool.accountIds()).toEqual(['1234567_SB1', '7654321']);
+  });
+
+  it('evicts idle and least recently used clients', async () => {
+    vi.useFakeTimers();
+    const { pool, credentials } = createPool(new NetSuiteStandIn(), {
+      idleTimeout: 1000,
+      maxClients: 2,
+    });
+
+    await pool.get('A');
+    await pool.get('B');
+    await pool.get('A');
+    await pool.get('C'); // B is least recently used
+
+    expect(pool.accountIds()).toEqual(['A', 'C']);
+
+    vi.advanceTimersByTime(1000);
+    expect(pool.evictIdle()).toBe(2);
+    await pool.get('A');
+    expect(credentials).toHaveBeenCalledTimes(4);
+  });
+
+  it('closes evicted and cleared clients, detaching them from a shared breaker', async () => {
+    const breaker = new CircuitBreaker();
+    const standIn = new NetSuiteStandIn();
+    const { pool } = createPool(standIn, {
+      defaults: { adapter: standIn.adapter(), maxRetries: 0, circuitBreaker: breaker },
+      maxClients: 1,
+    });
+
+    const first = await pool.get('A');
+    const close = vi.spyOn(first, 'close');
+    expect(breaker.listenerCount()).toBe(1);
+
+    pool.evict('A');
+    await pool.get('A');
+    await pool.get('B'); // drops A, the least recently used
+    expect(close).toHaveBeenCalledTimes(1);
+    expect(breaker.listenerCount()).toBe(1);
+
+    pool.clear();
+    expect(breaker.listenerCount()).toBe(0);
+    expect(pool.size).toBe(0);
+  });
+
+  it('applies shared middleware and labels metrics by account', async () => {
+    const metrics = new InMemoryMetricsSink();
+    const seen: string[] = [];
+    const standIn = new NetSuiteStandIn({ records: { customer: [{ id: '1' }] } });
+    const { pool } = createPool(standIn, {
+      defaults: { adapter: standIn.adapter(), metrics },
+      middleware: [
+        {
+          name: 'audit',
+          middleware: async (ctx: { url: string }, next: () => Promise<unknown>) => {
+            seen.push(new URL(ctx.url).hostname.split('.')[0]);
+            return next();
+          },
+        },
+      ],
+    });
+
+    await pool.run(['1', '2'], (client) => client.suiteql.query('SELECT id FROM customer'));
+
+    expect(seen.sort()).toEqual(['1', '2']);
+    expect(
+      metrics.getCounter(NETSUITE_METRICS.requests, {
+        account_id: '2',
+        api: 'suiteql',
+        method: 'POST',
+        status: '200',
+        status_class: '2xx',
+      }),
+    ).toBe(1);
+  });
+
+  it('aggregates results and errors per account', async () => {
+    const standIn = new NetSuiteStandIn({
+      records: { customer: [{ id: '1', companyname: 'Acme' }] },
+    });
+    standIn.injectFault({
+      status: 503,
+      match: (request) => request.url.startsWith('https://7654321.'),
+    });
+    const { pool } = createPool(standIn);
+
+    const { accounts, results, errors } = await pool.suiteql<{ companyname: string }>(
+      ['1234567', '7654321', 'MISSING'],
+      'SELECT companyname FROM customer',
+      { concurrency: 2 },
+    );
+
+    expect(accounts.map((a) => [a.accountId, a.ok])).toEqual([
+      ['1234567', true],
+      ['7654321', false],
+      ['MISSING', false],
+    ]);
+    expect(results['1234567'].items.map((row) => row.companyname)).toEqual(['Acme']);
+    expect(errors['7654321']).toMatchObject({ status: 503 });
+    expect(errors.MISSING).toMatchObject({ message: 'No credentials for MISSING' });
+  });
+});
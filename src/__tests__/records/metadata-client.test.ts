@@ -0,0 +1,207 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { MetadataClient } from '../../records/metadata-client.js';
+import { describeRecordFields } from '../../records/record-schema.js';
+import { NetSuiteClient } from '../../client.js';
+import type { JsonSchema } from '../../types/metadata.js';
+
+const CATALOG =
+  'https://1234567.suitetalk.api.netsuite.com/services/rest/record/v1/metadata-catalog';
+
+const SALES_ORDER: JsonSchema = {
+  type: 'object',
+  required: ['entity'],
+  properties: {
+    links: { type: 'array' },
+    id: { type: 'string', title: 'Internal ID', readOnly: true },
+    tranDate: { type: 'string', format: 'date', title: 'Date' },
+    entity: { $ref: '/services/rest/record/v1/metadata-catalog/customer', title: 'Customer' },
+    orderStatus: {
+      type: 'object',
+      title: 'Status',
+      properties: { id: { type: 'string', enum: ['A', 'B'] }, refName: { type: 'string' } },
+    },
+    memo: { type: ['string', 'null'] },
+    custbody_region: { type: 'string', 'x-ns-custom-field': true },
+    item: {
+      type: 'object',
+      title: 'Items',
+      properties: {
+        items: { type: 'array', items: { $ref: '#/definitions/salesOrder-itemElement' } },
+      },
+    },
+  },
+  definitions: {
+    'salesOrder-itemElement': {
+      type: 'object',
+      required: ['item'],
+      properties: {
+        item: { $ref: '/services/rest/record/v1/metadata-catalog/inventoryitem' },
+        quantity: { type: 'number' },
+        custcol_note: { type: 'string' },
+      },
+    },
+  },
+};
+
+function createMockTransport() {
+  return {
+    request: vi.fn(async (url: string) => {
+      const data =
+        url === CATALOG
+          ? { items: [{ name: 'salesorder' }, { name: 'customrecord_project' }] }
+          : SALES_ORDER;
+      return { data, status: 200, headers: {}, duration: 10 };
+    }),
+    use: vi.fn(),
+  };
+}
+
+describe('describeRecordFields', () => {
+  const fields = Object.fromEntries(describeRecordFields(SALES_ORDER).map((f) => [f.name, f]));
+
+  it('skips links and keeps schema order', () => {
+    expect(Object.keys(fields)).toEqual([
+      'id',
+      'tranDate',
+      'entity',
+      'orderStatus',
+      'memo',
+      'custbody_region',
+      'item',
+    ]);
+  });
+
+  it('reads type, format, mandatory, read-only and nullable', () => {
+    expect(fields.id).toMatchObject({ type: 'string', label: 'Internal ID', readOnly: true });
+    expect(fields.tranDate).toMatchObject({ format: 'date', mandatory: false });
+    expect(fields.entity).toMatchObject({ mandatory: true, referenceType: 'customer' });
+    expect(fields.memo).toMatchObject({ type: 'string', nullable: true });
+  });
+
+  it('finds enum values on select fields and flags custom fields', () => {
+    expect(fields.orderStatus.enumValues).toEqual(['A', 'B']);
+    expect(fields.custbody_region.custom).toBe(true);
+    expect(fields.tranDate.custom).toBe(false);
+  });
+
+  it('describes sublist lines through local references', () => {
+    expect(fields.item.sublist).toBe(true);
+    expect(fields.item.referenceType).toBeUndefined();
+    expect(fields.item.fields).toEqual([
+      expect.objectContaining({ name: 'item', mandatory: true, referenceType: 'inventoryitem' }),
+      expect.objectContaining({ name: 'quantity', type: 'number', sublist: false }),
+      expect.objectContaining({ name: 'custcol_note', custom: true }),
+    ]);
+  });
+});
+
+describe('MetadataClient', () => {
+  let transport: ReturnType<typeof createMockTransport>;
+  let client: MetadataClient;
+
+  beforeEach(() => {
+    transport = createMockTransport();
+    client = new MetadataClient(transport as any, '1234567');
+  });
+
+  it('lists record types and marks custom ones', async () => {
+    expect(await client.listRecordTypes()).toEqual([
+      { name: 'salesorder', custom: false },
+      { name: 'customrecord_project', custom: true },
+    ]);
+    expect(transport.request).toHaveBeenCalledWith(CATALOG);
+  });
+
+  it('fetches a schema as JSON Schema and caches it', async () => {
+    await client.getSchema('salesorder');
+    await client.getFields('salesorder');
+
+    expect(transport.request).toHaveBeenCalledTimes(1);
+    expect(transport.request).toHaveBeenCalledWith(`${CATALOG}/salesorder`, {
+      headers: { Accept: 'application/schema+json' },
+    });
+  });
+
+  it('shares one request between concurrent callers', async () => {
+    await Promise.all([client.getSchema('salesorder'), client.getSchema('salesorder')]);
+    expect(transport.request).toHaveBeenCalledTimes(1);
+  });
+
+  it('refetches after the TTL or clearCache', async () => {
+    vi.useFakeTimers();
+    try {
+      const short = new MetadataClient(transport as any, '1234567', { ttl: 1000 });
+      await short.getSchema('salesorder');
+      vi.advanceTimersByTime(1001);
+      await short.getSchema('salesorder');
+      short.clearCache('salesorder');
+      await short.getSchema('salesorder');
+      expect(transport.request).toHaveBeenCalledTimes(3);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('does not keep failed loads', async () => {
+    transport.request.mockRejectedValueOnce(new Error('boom'));
+    await expect(client.getSchema('salesorder')).rejects.toThrow('boom');
+    await expect(client.getSchema('salesorder')).resolves.toEqual(SALES_ORDER);
+  });
+
+  it('gives every caller its own copy of a cached schema', async () => {
+    const first = await client.getSchema('salesorder');
+    first.properties!.memo.title = 'Changed';
+
+    const second = await client.getSchema('salesorder');
+    expect(second.properties!.memo.title).toBeUndefined();
+    expect(SALES_ORDER.properties!.memo.title).toBeUndefined();
+  });
+
+  it('takes its TTL from the client config', async () => {
+    vi.useFakeTimers();
+    try {
+      const netsuite = new NetSuiteClient({
+        auth: { authorize: async () => ({}) },
+        accountId: '1234567',
+        adapter: {
+          request: async (request) => {
+            transport.request(request.url);
+            return { status: 200, headers: {}, data: SALES_ORDER };
+          },
+        },
+        metadata: { ttl: 1000 },
+      });
+      await netsuite.metadata.getSchema('salesorder');
+      vi.advanceTimersByTime(500);
+      await netsuite.metadata.getSchema('salesorder');
+      vi.advanceTimersByTime(501);
+      await netsuite.metadata.getSchema('salesorder');
+      expect(transport.request).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('fetches several schemas keyed by type', async () => {
+    const schemas = await client.getSchemas(['salesorder', 'customer']);
+    expect(Object.keys(schemas)).toEqual(['salesorder', 'customer']);
+    expect(transport.request).toHaveBeenCalledTimes(2);
+  });
+
+  it('requests an OpenAPI document for selected types', async () => {
+    await client.getOpenApi(['salesorder', 'customer']);
+    expect(transport.request).toHaveBeenCalledWith(`${CATALOG}?select=customer%2Csalesorder`, {
+      headers: { Accept: 'application/swagger+json' },
+    });
+  });
+
+  it('looks up fields, including sublist fields by dotted path', async () => {
+    expect(await client.getField('salesorder', 'orderStatus')).toMatchObject({
+      enumValues: ['A', 'B'],
+    });
+    expect(await client.getField('salesorder', 'item.quantity')).toMatchObject({
+      type: 'number',
+    });
+    expect(await client.getField('salesorder', 'nope')).toBeUndefined();
+  });
+});
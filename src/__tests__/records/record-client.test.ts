@@ -1,6 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { RecordClient } from '../../records/record-client.js';
 
+const RECORD_BASE = 'https://1234567.suitetalk.api.netsuite.com/services/rest/record/v1';
+
 function createMockTransport() {
   return {
     request: vi.fn().mockResolvedValue({
@@ -93,6 +95,39 @@ describe('RecordClient', () => {
       expect(options.method).toBe('POST');
       expect(options.body).toEqual({ companyname: 'Test Corp' });
     });
+
+    it('returns the new ID and URL from Location', async () => {
+      const location = `${RECORD_BASE}/customer/4711`;
+      transport.request.mockResolvedValueOnce({
+        data: undefined,
+        status: 204,
+        headers: { location },
+        duration: 50,
+      });
+
+      const result = await client.create('customer', { companyname: 'Test Corp' });
+
+      expect(result).toMatchObject({ id: '4711', url: location, status: 204 });
+      expect(result.record).toBeUndefined();
+      expect(transport.request).toHaveBeenCalledTimes(1);
+    });
+
+    it('fetches the created record when asked', async () => {
+      const location = `${RECORD_BASE}/customer/4711`;
+      transport.request
+        .mockResolvedValueOnce({ data: undefined, status: 204, headers: { location } })
+        .mockResolvedValueOnce({ data: { id: '4711', entityid: 'C-1' }, status: 200, headers: {} });
+
+      const result = await client.create(
+        'customer',
+        { companyname: 'Test Corp' },
+        { fetch: { fields: ['entityid'] } },
+      );
+
+      expect(result.record).toEqual({ id: '4711', entityid: 'C-1' });
+      const [url] = transport.request.mock.calls[1];
+      expect(url).toBe(`${location}?fields=entityid`);
+    });
   });
 
   describe('update', () => {
@@ -138,4 +173,15 @@ describe('RecordClient', () => {
       expect(options.body).toEqual({ companyname: 'Upserted Corp' });
     });
   });
+
+  describe('transform', () => {
+    it('POSTs to the !transform path of the source record', async () => {
+      await client.transform('salesOrder', 42, 'invoice', { memo: 'Billed' });
+
+      const [url, options] = transport.request.mock.calls[0];
+      expect(url).toContain('/salesOrder/42/!transform/invoice');
+      expect(options.method).toBe('POST');
+      expect(options.body).toEqual({ memo: 'Billed' });
+    });
+  });
 });
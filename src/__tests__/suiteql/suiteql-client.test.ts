@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { SuiteQLClient } from '../../suiteql/suiteql-client.js';
+import { RequestCoalescer } from '../../utils/request-coalescer.js';
 
 function createMockTransport() {
   return {
@@ -52,6 +53,7 @@ describe('SuiteQLClient', () => {
       expect(options.method).toBe('POST');
       expect(options.body).toEqual({ q: 'SELECT id FROM customer' });
       expect(options.headers).toEqual({ Prefer: 'transient' });
+      expect(options.idempotent).toBe(true);
     });
 
     it('normalizes account ID with underscores to hyphens', async () => {
@@ -240,4 +242,90 @@ describe('SuiteQLClient', () => {
       expect(pages).toHaveLength(0);
     });
   });
+
+  describe('cancellation', () => {
+    it('forwards signal and deadline to every page request', async () => {
+      const controller = new AbortController();
+      const deadline = Date.now() + 60_000;
+      transport.request
+        .mockResolvedValueOnce(createPageResponse([{ id: '1' }], 2, 0, true))
+        .mockResolvedValueOnce(createPageResponse([{ id: '2' }], 2, 1, false));
+
+      await client.query('SELECT id FROM customer', {
+        pageSize: 1,
+        signal: controller.signal,
+        deadline,
+      });
+
+      expect(transport.request).toHaveBeenCalledTimes(2);
+      for (const [, options] of transport.request.mock.calls) {
+        expect(options.signal).toBe(controller.signal);
+        expect(options.deadline).toBe(deadline);
+      }
+    });
+
+    it('forwards signal and deadline from queryPages', async () => {
+      const controller = new AbortController();
+      transport.request.mockResolvedValue(createPageResponse([{ id: '1' }], 1, 0, false));
+
+      for await (const _page of client.queryPages('SELECT id FROM customer', {
+        signal: controller.signal,
+        deadline: 123,
+      })) {
+        // drain
+      }
+
+      const [, options] = transport.request.mock.calls[0];
+      expect(options.signal).toBe(controller.signal);
+      expect(options.deadline).toBe(123);
+    });
+  });
+
+  describe('coalescing', () => {
+    beforeEach(() => {
+      client = new SuiteQLClient(
+        transport as any,
+        '1234567',
+        undefined,
+        undefined,
+        new RequestCoalescer(),
+      );
+    });
+
+    it('runs identical concurrent queries once', async () => {
+      transport.request.mockResolvedValue(createPageResponse([{ id: '1' }], 1, 0, false));
+
+      const [a, b] = await Promise.all([
+        client.query('SELECT id FROM customer'),
+        client.query('SELECT id FROM customer'),
+      ]);
+
+      expect(transport.request).toHaveBeenCalledTimes(1);
+      expect(b.items).toEqual(a.items);
+    });
+
+    it('runs queries with different SQL or paging separately', async () => {
+      transport.request.mockResolvedValue(createPageResponse([{ id: '1' }], 1, 0, false));
+
+      await Promise.all([
+        client.query('SELECT id FROM customer'),
+        client.query('SELECT id FROM vendor'),
+        client.query('SELECT id FROM customer', { pageSize: 10 }),
+        client.query('SELECT id FROM customer', { coalesce: false }),
+      ]);
+
+      expect(transport.request).toHaveBeenCalledTimes(4);
+    });
+
+    it('shares a run between callers with different timeouts', async () => {
+      transport.request.mockResolvedValue(createPageResponse([{ id: '1' }], 1, 0, false));
+
+      await Promise.all([
+        client.query('SELECT id FROM customer', { timeout: 5000 }),
+        client.query('SELECT id FROM customer', { timeout: 10000 }),
+      ]);
+
+      expect(transport.request).toHaveBeenCalledTimes(1);
+    });
+  });
 });
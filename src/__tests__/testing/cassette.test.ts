@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Cassette, SCRUBBED, type CassetteMode } from '../../testing/cassette.js';
+import { NetSuiteClient } from '../../client.js';
+import type { AdapterRequest, HttpAdapter } from '../../types/adapter.js';
+
+const tba = {
+  consumerKey: 'ck',
+  consumerSecret: 'cs',
+  tokenKey: 'tk',
+  tokenSecret: 'ts',
+  realm: '1234567',
+};
+
+/** Fake NetSuite: paginated SuiteQL, a customer record, and a 404 */
+function createFakeNetSuite() {
+  const requests: AdapterRequest[] = [];
+  const adapter: HttpAdapter = {
+    request: async (request) => {
+      requests.push(request);
+      const url = new URL(request.url);
+      if (url.pathname.endsWith('/query/v1/suiteql')) {
+        const offset = Number(url.searchParams.get('offset'));
+        const items = offset === 0 ? [{ id: '1' }, { id: '2' }] : [{ id: '3' }];
+        return {
+          status: 200,
+          headers: { 'content-type': 'application/json' },
+          data: { items, hasMore: offset === 0, totalResults: 3, count: items.length, offset },
+        };
+      }
+      if (url.pathname.endsWith('/customer/1')) {
+        return {
+          status: 200,
+          headers: { 'set-cookie': 'session=secret' },
+          data: { id: '1', companyName: 'Acme', creditCard: '4111' },
+        };
+      }
+      return {
+        status: 404,
+        headers: {},
+        data: { title: 'Not Found', 'o:errorCode': 'NONEXISTENT_ID' },
+      };
+    },
+  };
+  return { adapter, requests };
+}
+
+const offline: HttpAdapter = {
+  request: async () => {
+    throw new Error('network used during replay');
+  },
+};
+
+describe('Cassette', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'cassette-'));
+    path = join(dir, 'nested', 'cassette.json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  function createClient(mode: CassetteMode, adapter: HttpAdapter, scrubFields?: string[]) {
+    const cassette = new Cassette({ path, mode, scrubFields });
+    const client = new NetSuiteClient({ auth: tba, accountId: '1234567', maxRetries: 0, adapter });
+    client.use(cassette.middleware());
+    return { client, cassette };
+  }
+
+  it('records a paginated query and replays it without network', async () => {
+    const fake = createFakeNetSuite();
+    const recording = createClient('record', fake.adapter);
+    const recorded = await recording.client.suiteql.query('SELECT id FROM customer', {
+      pageSize: 2,
+    });
+    expect(fake.requests).toHaveLength(2);
+
+    const replaying = createClient('replay', offline);
+    const replayed = await replaying.client.suiteql.query('SELECT id FROM customer', {
+      pageSize: 2,
+    });
+
+    expect(replayed.items).toEqual(recorded.items);
+    expect(replayed.items.map((row) => row.id)).toEqual(['1', '2', '3']);
+  });
+
+  it('ignores SuiteQL offsets and OAuth nonces when matching', async () => {
+    const fake = createFakeNetSuite();
+    await createClient('record', fake.adapter).client.suiteql.query('SELECT id FROM customer', {
+      pageSize: 2,
+    });
+
+    // Different starting offset; pages are served in recorded order
+    const { client } = createClient('replay', offline);
+    const result = await client.suiteql.query('SELECT id FROM customer', {
+      pageSize: 2,
+      offset: 10,
+    });
+    expect(result.items.map((row) => row.id)).toEqual(['1', '2', '3']);
+  });
+
+  it('scrubs auth headers, cookies and configured fields', async () => {
+    const fake = createFakeNetSuite();
+    const { client, cassette } = createClient('record', fake.adapter, ['creditCard']);
+    await client.records.get('customer', 1);
+
+    const saved = JSON.parse(await readFile(path, 'utf8'));
+    const [interaction] = saved.interactions;
+    expect(interaction.request.headers.Authorization).toBe(SCRUBBED);
+    expect(interaction.response.headers['set-cookie']).toBe(SCRUBBED);
+    expect(interaction.response.body).toEqual({ id: '1', companyName: 'Acme', creditCard: SCRUBBED });
+    expect(await cassette.getInteractions()).toEqual(saved.interactions);
+  });
+
+  it('replays error responses as the same NetSuiteError', async () => {
+    const fake = createFakeNetSuite();
+    const recording = createClient('record', fake.adapter);
+    await expect(recording.client.records.get('customer', 99)).rejects.toMatchObject({
+      status: 404,
+      code: 'NONEXISTENT_ID',
+    });
+
+    const { client } = createClient('replay', offline);
+    await expect(client.records.get('customer', 99)).rejects.toMatchObject({
+      status: 404,
+      code: 'NONEXISTENT_ID',
+      message: 'Not Found',
+    });
+  });
+
+  it('fails unmatched requests in replay mode', async () => {
+    const { client } = createClient('replay', offline);
+    await expect(client.records.get('customer', 1)).rejects.toMatchObject({
+      code: 'CASSETTE_MISS',
+      requestSent: false,
+    });
+  });
+
+  it('records only missing interactions in record-missing mode', async () => {
+    const fake = createFakeNetSuite();
+    await createClient('record', fake.adapter).client.records.get('customer', 1);
+    fake.requests.length = 0;
+
+    const { client, cassette } = createClient('record-missing', fake.adapter);
+    await client.records.get('customer', 1);
+    await expect(client.records.get('customer', 2)).rejects.toMatchObject({ status: 404 });
+
+    expect(fake.requests.map((r) => new URL(r.url).pathname)).toEqual([
+      '/services/rest/record/v1/customer/2',
+    ]);
+    expect(await cassette.getInteractions()).toHaveLength(2);
+  });
+});
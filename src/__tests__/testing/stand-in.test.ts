@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { NetSuiteStandIn } from '../../testing/stand-in.js';
+import { NetSuiteClient } from '../../client.js';
+import { suiteql } from '../../suiteql/query-builder.js';
+import { NetSuiteError } from '../../types/errors.js';
+
+describe('NetSuiteStandIn', () => {
+  let standIn: NetSuiteStandIn;
+  let client: NetSuiteClient;
+
+  beforeEach(() => {
+    standIn = new NetSuiteStandIn({
+      records: {
+        customer: [
+          { id: '1', companyName: 'Acme', isInactive: false },
+          { id: '2', companyName: 'Globex', isInactive: true },
+          { id: '3', companyName: 'Initech', isInactive: false },
+        ],
+      },
+    });
+    client = new NetSuiteClient({
+      auth: { authorize: async () => ({}) },
+      accountId: '1234567_SB1',
+      maxRetries: 2,
+      retryDelay: 1,
+      adapter: standIn.adapter(),
+    });
+  });
+
+  it('gets records and honors the fields parameter', async () => {
+    const { data } = await client.records.get('customer', 1, { fields: ['companyName'] });
+    expect(data).toMatchObject({ id: '1', companyName: 'Acme' });
+    expect(data).not.toHaveProperty('isInactive');
+  });
+
+  it('returns NetSuite error envelopes for missing records', async () => {
+    const error = await client.records.get('customer', 99).catch((e) => e);
+    expect(error).toBeInstanceOf(NetSuiteError);
+    expect(error).toMatchObject({ status: 404, code: 'NONEXISTENT_ID' });
+    expect(error.details['o:errorDetails'][0]['o:errorCode']).toBe('NONEXISTENT_ID');
+  });
+
+  it('lists records with pagination metadata', async () => {
+    const { data } = await client.records.list('customer', { limit: 2, offset: 0 });
+    expect(data).toMatchObject({ count: 2, hasMore: true, offset: 0, totalResults: 3 });
+    expect(data.items.map((item) => item.id)).toEqual(['1', '2']);
+  });
+
+  it('creates with 204 + Location, then updates, upserts and deletes', async () => {
+    const created = await client.records.create('customer', { companyName: 'Umbrella' });
+    expect(created.status).toBe(204);
+    expect(created.headers.location).toBe(
+      'https://1234567-sb1.suitetalk.api.netsuite.com/services/rest/record/v1/customer/4',
+    );
+
+    await client.records.update('customer', 4, { email: 'u@umbrella.test' });
+    expect(standIn.getRecords('customer')[3]).toMatchObject({
+      companyName: 'Umbrella',
+      email: 'u@umbrella.test',
+    });
+
+    const upserted = await client.records.upsert('customer', 'externalId', 'CUST-9', {
+      companyName: 'Hooli',
+    });
+    expect(upserted.headers.location).toMatch(/\/customer\/5$/);
+
+    await client.records.delete('customer', 1);
+    expect(standIn.getRecords('customer').map((r) => r.id)).toEqual(['2', '3', '4', '5']);
+  });
+
+  it('transforms a record into a new one and reads it back', async () => {
+    const { id, record } = await client.records.transform(
+      'customer',
+      1,
+      'salesOrder',
+      { memo: 'First order' },
+      { fetch: true },
+    );
+
+    expect(id).toBe('1');
+    expect(record).toMatchObject({ companyName: 'Acme', memo: 'First order', createdFrom: '1' });
+  });
+
+  it('runs builder queries through client.suiteql with string values', async () => {
+    const sql = suiteql()
+      .select('id', 'companyname')
+      .from('customer')
+      .whereEquals('isinactive', false)
+      .orderBy('companyname', 'DESC')
+      .build();
+
+    const result = await client.suiteql.query(sql, { pageSize: 1 });
+
+    expect(result.items).toEqual([
+      { links: [], id: '3', companyname: 'Initech' },
+      { links: [], id: '1', companyname: 'Acme' },
+    ]);
+    expect(result.pagesFetched).toBe(2);
+  });
+
+  it('rejects invalid SuiteQL with INVALID_PARAMETER', async () => {
+    await expect(client.suiteql.query('SELECT FROM')).rejects.toMatchObject({
+      status: 400,
+      code: 'INVALID_PARAMETER',
+    });
+  });
+
+  it('serves registered RESTlets', async () => {
+    standIn.restlet(42, 1, ({ method, params, body }) => ({ method, params, body }));
+    const { data } = await client.restlets.call(
+      { script: 42, deploy: 1, params: { mode: 'echo' } },
+      { method: 'POST', body: { hello: 'world' } },
+    );
+    expect(data).toEqual({ method: 'POST', params: { mode: 'echo' }, body: { hello: 'world' } });
+
+    await expect(client.restlets.call({ script: 1, deploy: 1 })).rejects.toMatchObject({
+      code: 'SSS_INVALID_SCRIPTLET_ID',
+    });
+  });
+
+  it('injects throttling faults that the client retries', async () => {
+    standIn.injectFault({ status: 429, times: 1 });
+
+    const { data } = await client.records.get('customer', 1);
+
+    expect(data).toMatchObject({ id: '1' });
+    expect(standIn.requests).toHaveLength(2);
+  });
+
+  it('injects 5xx faults for matching requests only', async () => {
+    standIn.injectFault({ status: 503, match: (r) => r.url.includes('/customer/2') });
+
+    await expect(client.records.get('customer', 2)).rejects.toMatchObject({
+      status: 503,
+      code: 'UNEXPECTED_ERROR',
+    });
+    await expect(client.records.get('customer', 1)).resolves.toBeDefined();
+  });
+
+  it('injects latency that trips the request timeout', async () => {
+    standIn.injectFault({ latency: 200 });
+    const url = 'https://1234567-sb1.suitetalk.api.netsuite.com/services/rest/record/v1/customer/1';
+
+    await expect(client.request(url, { timeout: 20, maxRetries: 0 })).rejects.toMatchObject({
+      code: 'TIMEOUT',
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateSuiteQL, SuiteQLSyntaxError } from '../../testing/suiteql-evaluator.js';
+import { suiteql } from '../../suiteql/query-builder.js';
+
+const tables: Record<string, Array<Record<string, unknown>>> = {
+  customer: [
+    { id: 1, companyName: 'Acme', email: 'a@acme.test', isInactive: false, subsidiary: { id: 1 } },
+    { id: 2, companyName: "O'Brien Ltd", email: null, isInactive: false, subsidiary: { id: 2 } },
+    { id: 3, companyName: 'Globex', email: 'g@globex.test', isInactive: true, subsidiary: { id: 1 } },
+  ],
+  transaction: [
+    { id: 10, entity: 1, total: 100, trandate: '2024-02-01' },
+    { id: 11, entity: 1, total: 50, trandate: '2024-03-01' },
+    { id: 12, entity: 3, total: 75, trandate: '2023-12-01' },
+  ],
+};
+
+const run = (sql: string) => evaluateSuiteQL(sql, (table) => tables[table.toLowerCase()]);
+
+describe('evaluateSuiteQL', () => {
+  it('filters and projects with lower-cased column names', () => {
+    expect(run("SELECT id, companyname FROM customer WHERE isinactive = 'F'")).toEqual([
+      { id: 1, companyname: 'Acme' },
+      { id: 2, companyname: "O'Brien Ltd" },
+    ]);
+  });
+
+  it('evaluates SuiteQLBuilder output end to end', () => {
+    const sql = suiteql()
+      .select('c.id', 'c.companyname', 'COUNT(t.id) AS order_count')
+      .from('customer', 'c')
+      .leftJoin('transaction t', 'c.id = t.entity')
+      .whereEquals('c.isinactive', false)
+      .whereIn('c.subsidiary', [1, 2])
+      .groupBy('c.id', 'c.companyname')
+      .orderBy('order_count', 'DESC')
+      .build();
+
+    expect(run(sql)).toEqual([
+      { id: 1, companyname: 'Acme', order_count: 2 },
+      { id: 2, companyname: "O'Brien Ltd", order_count: 0 },
+    ]);
+  });
+
+  it('evaluates builder output with negative numbers', () => {
+    const sql = suiteql()
+      .select('id')
+      .from('transaction')
+      .whereBetween('total', -100, 60)
+      .whereNotEquals('entity', -1)
+      .build();
+
+    expect(sql).toContain('BETWEEN -100 AND 60');
+    expect(run(sql)).toEqual([{ id: 11 }]);
+    expect(run('SELECT id FROM transaction WHERE total > -0.5 AND entity = 3')).toEqual([
+      { id: 12 },
+    ]);
+  });
+
+  it('supports escaped strings, LIKE, BETWEEN and NULL checks', () => {
+    expect(run("SELECT id FROM customer WHERE companyname = 'O''Brien Ltd'")).toEqual([{ id: 2 }]);
+    expect(run("SELECT id FROM customer WHERE companyname LIKE 'G%'")).toEqual([{ id: 3 }]);
+    expect(run('SELECT id FROM customer WHERE email IS NULL')).toEqual([{ id: 2 }]);
+    expect(
+      run("SELECT id FROM transaction WHERE trandate BETWEEN '2024-01-01' AND '2024-12-31'"),
+    ).toEqual([{ id: 10 }, { id: 11 }]);
+  });
+
+  it('supports OR, NOT and parentheses', () => {
+    expect(
+      run("SELECT id FROM customer WHERE NOT (id = 1 OR companyname = 'Globex') ORDER BY id"),
+    ).toEqual([{ id: 2 }]);
+  });
+
+  it('applies ROWNUM before ORDER BY, like Oracle', () => {
+    expect(run('SELECT id FROM customer WHERE ROWNUM <= 2 ORDER BY id DESC')).toEqual([
+      { id: 2 },
+      { id: 1 },
+    ]);
+  });
+
+  it('supports aggregates without GROUP BY, HAVING, DISTINCT and TOP', () => {
+    expect(run('SELECT COUNT(*) AS n, SUM(total) AS total FROM transaction')).toEqual([
+      { n: 3, total: 225 },
+    ]);
+    expect(
+      run('SELECT entity, SUM(total) AS total FROM transaction GROUP BY entity HAVING SUM(total) > 80'),
+    ).toEqual([{ entity: 1, total: 150 }]);
+    expect(run('SELECT DISTINCT entity FROM transaction ORDER BY entity')).toEqual([
+      { entity: 1 },
+      { entity: 3 },
+    ]);
+    expect(run('SELECT TOP 1 id FROM transaction ORDER BY total')).toEqual([{ id: 11 }]);
+  });
+
+  it('rejects unknown tables and unsupported syntax', () => {
+    expect(() => run('SELECT id FROM nothing')).toThrow(SuiteQLSyntaxError);
+    expect(() => run('SELECT id FROM customer WHERE id ~ 1')).toThrow(SuiteQLSyntaxError);
+    expect(() => run('SELECT id customer')).toThrow(/Expected FROM/);
+  });
+});
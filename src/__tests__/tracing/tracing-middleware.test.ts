@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { context, trace, SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+  type ReadableSpan,
+} from '@opentelemetry/sdk-trace-base';
+import { createTracingMiddleware } from '../../tracing/tracing-middleware.js';
+import { NetSuiteStandIn } from '../../testing/stand-in.js';
+import { NetSuiteClient } from '../../client.js';
+
+describe('createTracingMiddleware', () => {
+  const exporter = new InMemorySpanExporter();
+  const provider = new BasicTracerProvider({
+    spanProcessors: [new SimpleSpanProcessor(exporter)],
+  });
+  let standIn: NetSuiteStandIn;
+  let client: NetSuiteClient;
+
+  beforeAll(() => {
+    context.setGlobalContextManager(new AsyncLocalStorageContextManager().enable());
+  });
+
+  afterAll(() => {
+    context.disable();
+  });
+
+  beforeEach(() => {
+    exporter.reset();
+    standIn = new NetSuiteStandIn({
+      records: {
+        customer: [
+          { id: '1', companyName: 'Acme' },
+          { id: '2', companyName: 'Globex' },
+        ],
+      },
+    });
+    client = new NetSuiteClient({
+      auth: { authorize: async () => ({}) },
+      accountId: '1234567_SB1',
+      maxRetries: 2,
+      retryDelay: 1,
+      adapter: standIn.adapter(),
+    });
+    client.use(createTracingMiddleware({ tracerProvider: provider }));
+  });
+
+  const spans = () => exporter.getFinishedSpans();
+  const byKind = (kind: SpanKind) => spans().filter((span) => span.kind === kind);
+  const parentOf = (span: ReadableSpan) => span.parentSpanContext?.spanId;
+
+  it('creates a request span with an attempt span beneath it', async () => {
+    await client.records.get('customer', 1);
+
+    const [request] = byKind(SpanKind.INTERNAL);
+    const [attempt] = byKind(SpanKind.CLIENT);
+    expect(spans()).toHaveLength(2);
+    expect(request.name).toBe('GET customer');
+    expect(parentOf(attempt)).toBe(request.spanContext().spanId);
+    expect(request.attributes).toMatchObject({
+      'netsuite.account_id': '1234567_SB1',
+      'netsuite.record.type': 'customer',
+      'netsuite.record.id': '1',
+      'http.request.method': 'GET',
+      'http.response.status_code': 200,
+      'netsuite.attempts': 1,
+    });
+    expect(attempt.attributes['http.response.status_code']).toBe(200);
+  });
+
+  it('records each retry as a sibling attempt span', async () => {
+    standIn.injectFault({ status: 429, times: 1 });
+
+    await client.records.get('customer', 1);
+
+    const [request] = byKind(SpanKind.INTERNAL);
+    const [first, second] = byKind(SpanKind.CLIENT);
+    expect(parentOf(first)).toBe(request.spanContext().spanId);
+    expect(parentOf(second)).toBe(request.spanContext().spanId);
+    expect(first.status.code).toBe(SpanStatusCode.ERROR);
+    expect(first.attributes).toMatchObject({
+      'http.response.status_code': 429,
+      'netsuite.error_code': 'CONCURRENCY_LIMIT_EXCEEDED',
+    });
+    expect(second.attributes['http.request.resend_count']).toBe(1);
+    expect(request.status.code).toBe(SpanStatusCode.UNSET);
+    expect(request.attributes['netsuite.attempts']).toBe(2);
+  });
+
+  it('marks failed requests with the NetSuite error code', async () => {
+    await expect(client.records.get('customer', 99)).rejects.toThrow();
+
+    const [request] = byKind(SpanKind.INTERNAL);
+    expect(request.status.code).toBe(SpanStatusCode.ERROR);
+    expect(request.attributes).toMatchObject({
+      'http.response.status_code': 404,
+      'netsuite.error_code': 'NONEXISTENT_ID',
+    });
+    expect(request.events.map((event) => event.name)).toContain('exception');
+  });
+
+  it('traces each SuiteQL page with its offset', async () => {
+    await client.suiteql.query('SELECT id FROM customer', { pageSize: 1 });
+
+    const pages = byKind(SpanKind.INTERNAL).filter((span) => span.name === 'POST suiteql');
+    expect(pages).toHaveLength(2);
+    expect(pages.map((span) => span.attributes['netsuite.suiteql.offset'])).toEqual([0, 1]);
+    expect(pages[0].attributes).not.toHaveProperty('db.query.text');
+  });
+
+  it('groups SuiteQL pages under one query span', async () => {
+    await client.suiteql.query('SELECT id FROM customer', { pageSize: 1 });
+
+    const query = spans().find((span) => span.name === 'suiteql query')!;
+    const pages = byKind(SpanKind.INTERNAL).filter((span) => span.name === 'POST suiteql');
+    expect(pages.map(parentOf)).toEqual([query.spanContext().spanId, query.spanContext().spanId]);
+    expect(query.attributes).toMatchObject({
+      'netsuite.account_id': '1234567_SB1',
+      'netsuite.suiteql.pages': 2,
+    });
+  });
+
+  it('leaves SuiteQL untraced without the tracing middleware', async () => {
+    trace.setGlobalTracerProvider(provider);
+    try {
+      const untraced = new NetSuiteClient({
+        auth: { authorize: async () => ({}) },
+        accountId: '1234567_SB1',
+        adapter: standIn.adapter(),
+      });
+      await untraced.suiteql.query('SELECT id FROM customer', { pageSize: 1 });
+    } finally {
+      trace.disable();
+    }
+
+    expect(spans()).toEqual([]);
+  });
+
+  it('records a failed page of a streamed query on the query span', async () => {
+    standIn.injectFault({ status: 500, match: (request) => request.url.includes('offset=1') });
+
+    const stream = client.suiteql.queryPages('SELECT id FROM customer', { pageSize: 1 });
+    await expect(async () => {
+      for await (const _page of stream);
+    }).rejects.toThrow();
+
+    const query = spans().find((span) => span.name === 'suiteql query')!;
+    const pages = byKind(SpanKind.INTERNAL).filter((span) => span.name === 'POST suiteql');
+    expect(pages.map(parentOf)).toEqual([query.spanContext().spanId, query.spanContext().spanId]);
+    expect(query.status.code).toBe(SpanStatusCode.ERROR);
+    expect(query.attributes['netsuite.error_code']).toBe('UNEXPECTED_ERROR');
+  });
+
+  it('nests under the caller span and propagates context to later middleware', async () => {
+    const tracer = provider.getTracer('test');
+    const seen: Array<string | undefined> = [];
+    client.use(async (ctx, next) => {
+      seen.push(trace.getActiveSpan()?.spanContext().spanId);
+      return next();
+    });
+
+    await tracer.startActiveSpan('caller', async (caller) => {
+      await client.records.get('customer', 1);
+      caller.end();
+    });
+
+    const callerSpan = spans().find((span) => span.name === 'caller')!;
+    const [request] = byKind(SpanKind.INTERNAL).filter((span) => span.name !== 'caller');
+    const [attempt] = byKind(SpanKind.CLIENT);
+    expect(parentOf(request)).toBe(callerSpan.spanContext().spanId);
+    expect(seen).toEqual([attempt.spanContext().spanId]);
+  });
+});
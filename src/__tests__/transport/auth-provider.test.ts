@@ -0,0 +1,86 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  TbaAuthProvider,
+  OAuth2ClientCredentialsProvider,
+  createAuthProvider,
+  isAuthProvider,
+} from '../../transport/auth-provider.js';
+import { NetSuiteError } from '../../types/errors.js';
+
+const tbaConfig = {
+  consumerKey: 'ck',
+  consumerSecret: 'cs',
+  tokenKey: 'tk',
+  tokenSecret: 'ts',
+  realm: 'REALM',
+};
+
+const authError = new NetSuiteError('Invalid login attempt.', 401, 'INVALID_LOGIN');
+
+describe('TbaAuthProvider', () => {
+  it('signs requests with OAuth 1.0a headers', async () => {
+    const provider = new TbaAuthProvider(tbaConfig);
+    const headers = await provider.authorize('https://example.com', 'GET');
+    expect(headers.Authorization).toContain('oauth_token="tk"');
+  });
+
+  it('rotates credentials with update()', async () => {
+    const provider = new TbaAuthProvider(tbaConfig);
+    provider.update({ ...tbaConfig, tokenKey: 'rotated' });
+
+    const headers = await provider.authorize('https://example.com', 'GET');
+    expect(headers.Authorization).toContain('oauth_token="rotated"');
+  });
+
+  it('declines auth failures without a refresh hook', async () => {
+    const provider = new TbaAuthProvider(tbaConfig);
+    await expect(provider.onAuthFailure(authError)).resolves.toBe(false);
+  });
+
+  it('rotates to refreshed credentials on auth failure', async () => {
+    const refresh = vi.fn().mockResolvedValue({ ...tbaConfig, tokenKey: 'fresh' });
+    const provider = new TbaAuthProvider(tbaConfig, { refresh });
+
+    await expect(provider.onAuthFailure(authError)).resolves.toBe(true);
+    expect(refresh).toHaveBeenCalledWith(authError);
+    const headers = await provider.authorize('https://example.com', 'GET');
+    expect(headers.Authorization).toContain('oauth_token="fresh"');
+  });
+
+  it('gives up when the refresh hook returns null', async () => {
+    const provider = new TbaAuthProvider(tbaConfig, { refresh: async () => null });
+    await expect(provider.onAuthFailure(authError)).resolves.toBe(false);
+  });
+});
+
+describe('createAuthProvider', () => {
+  it('returns custom providers unchanged', () => {
+    const custom = { authorize: async () => ({ Authorization: 'Custom' }) };
+    expect(createAuthProvider(custom, '1234567')).toBe(custom);
+  });
+
+  it('builds a TBA provider from OAuth 1.0a config', () => {
+    expect(createAuthProvider(tbaConfig, '1234567')).toBeInstanceOf(TbaAuthProvider);
+  });
+
+  it('builds an OAuth 2.0 provider from client credentials config', () => {
+    const provider = createAuthProvider(
+      {
+        type: 'oauth2-client-credentials',
+        clientId: 'client',
+        certificateId: 'cert',
+        privateKey: 'pem',
+      },
+      '1234567',
+    );
+    expect(provider).toBeInstanceOf(OAuth2ClientCredentialsProvider);
+  });
+});
+
+describe('isAuthProvider', () => {
+  it('detects objects with an authorize function', () => {
+    expect(isAuthProvider({ authorize: async () => ({}) })).toBe(true);
+    expect(isAuthProvider(tbaConfig)).toBe(false);
+    expect(isAuthProvider(null)).toBe(false);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createRequestCancellation,
+  sleep,
+  throwIfAborted,
+} from '../../transport/cancellation.js';
+import { NetSuiteError } from '../../types/errors.js';
+
+describe('createRequestCancellation', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns no signal without a caller signal or deadline', () => {
+    const cancellation = createRequestCancellation({}, 'https://test.com', 'GET');
+    expect(cancellation.signal).toBeUndefined();
+    expect(() => cancellation.dispose()).not.toThrow();
+  });
+
+  it('aborts with ABORTED when the caller signal aborts', () => {
+    const controller = new AbortController();
+    const { signal } = createRequestCancellation(
+      { signal: controller.signal },
+      'https://test.com',
+      'POST',
+    );
+
+    controller.abort();
+
+    expect(signal?.aborted).toBe(true);
+    expect(signal?.reason).toBeInstanceOf(NetSuiteError);
+    expect(signal?.reason).toMatchObject({
+      code: 'ABORTED',
+      requestUrl: 'https://test.com',
+      requestMethod: 'POST',
+      isRetryable: false,
+    });
+  });
+
+  it('is aborted immediately for an already-aborted signal', () => {
+    const { signal } = createRequestCancellation(
+      { signal: AbortSignal.abort() },
+      'https://test.com',
+      'GET',
+    );
+    expect(signal?.reason).toMatchObject({ code: 'ABORTED' });
+  });
+
+  it('aborts with DEADLINE_EXCEEDED when the deadline passes', () => {
+    vi.useFakeTimers();
+    const { signal, deadline } = createRequestCancellation(
+      { deadline: new Date(Date.now() + 100) },
+      'https://test.com',
+      'GET',
+    );
+
+    expect(typeof deadline).toBe('number');
+    expect(signal?.aborted).toBe(false);
+    vi.advanceTimersByTime(100);
+    expect(signal?.reason).toMatchObject({ code: 'DEADLINE_EXCEEDED', isRetryable: false });
+  });
+
+  it('is aborted immediately for a deadline in the past', () => {
+    const { signal } = createRequestCancellation(
+      { deadline: Date.now() - 1 },
+      'https://test.com',
+      'GET',
+    );
+    expect(signal?.reason).toMatchObject({ code: 'DEADLINE_EXCEEDED' });
+  });
+
+  it('stops listening after dispose()', () => {
+    vi.useFakeTimers();
+    const controller = new AbortController();
+    const cancellation = createRequestCancellation(
+      { signal: controller.signal, deadline: Date.now() + 100 },
+      'https://test.com',
+      'GET',
+    );
+
+    cancellation.dispose();
+    controller.abort();
+    vi.advanceTimersByTime(100);
+
+    expect(cancellation.signal?.aborted).toBe(false);
+  });
+});
+
+describe('sleep', () => {
+  it('resolves after the delay', async () => {
+    await expect(sleep(1)).resolves.toBeUndefined();
+  });
+
+  it('rejects with the signal reason when aborted mid-sleep', async () => {
+    const controller = new AbortController();
+    const pending = sleep(10_000, controller.signal);
+    controller.abort(new Error('stop'));
+    await expect(pending).rejects.toThrow('stop');
+  });
+});
+
+describe('throwIfAborted', () => {
+  it('throws the reason of an aborted signal', () => {
+    expect(() => throwIfAborted(AbortSignal.abort(new Error('gone')))).toThrow('gone');
+    expect(() => throwIfAborted(new AbortController().signal)).not.toThrow();
+    expect(() => throwIfAborted(undefined)).not.toThrow();
+  });
+});
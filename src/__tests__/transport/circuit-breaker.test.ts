@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { CircuitBreaker } from '../../transport/circuit-breaker.js';
+import { NetSuiteError } from '../../types/errors.js';
+import type { CircuitStateChangeEvent } from '../../types/events.js';
+
+const serverError = new NetSuiteError('Unavailable', 503, 'HTTP_503');
+const notFound = new NetSuiteError('Not found', 404, 'NOT_FOUND');
+
+describe('CircuitBreaker', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('opens after consecutive failures and rejects until the reset timeout', () => {
+    vi.useFakeTimers();
+    const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeout: 1000 });
+
+    breaker.tryAcquire('123', 'record')!.settle(serverError);
+    expect(breaker.getState('123')).toBe('closed');
+    breaker.tryAcquire('123', 'record')!.settle(serverError);
+
+    expect(breaker.getState('123')).toBe('open');
+    expect(breaker.tryAcquire('123', 'record')).toBeNull();
+    expect(breaker.getRemainingOpenTime('123')).toBe(1000);
+    // Other accounts are unaffected
+    expect(breaker.tryAcquire('456', 'record')).not.toBeNull();
+
+    vi.advanceTimersByTime(1000);
+    expect(breaker.getState('123')).toBe('half-open');
+  });
+
+  it('does not count successes, 4xx or throttling towards opening', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2 });
+
+    breaker.tryAcquire('123', 'record')!.settle(serverError);
+    breaker.tryAcquire('123', 'record')!.settle();
+    breaker.tryAcquire('123', 'record')!.settle(serverError);
+    breaker.tryAcquire('123', 'record')!.settle(notFound);
+    breaker.tryAcquire('123', 'record')!.settle(new NetSuiteError('Slow down', 429, 'HTTP_429'));
+
+    expect(breaker.getState('123')).toBe('closed');
+  });
+
+  it('limits half-open probes and closes or reopens on their outcome', () => {
+    vi.useFakeTimers();
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 1000 });
+    const events: CircuitStateChangeEvent[] = [];
+    breaker.onStateChange((event) => events.push(event));
+
+    breaker.tryAcquire('123', 'record')!.settle(serverError);
+    vi.advanceTimersByTime(1000);
+
+    const probe = breaker.tryAcquire('123', 'record')!;
+    expect(breaker.tryAcquire('123', 'record')).toBeNull();
+    probe.settle(serverError);
+    expect(breaker.getState('123')).toBe('open');
+
+    vi.advanceTimersByTime(1000);
+    breaker.tryAcquire('123', 'record')!.settle();
+    expect(breaker.getState('123')).toBe('closed');
+
+    expect(events.map((e) => `${e.from}->${e.to}`)).toEqual([
+      'closed->open',
+      'open->half-open',
+      'half-open->open',
+      'open->half-open',
+      'half-open->closed',
+    ]);
+    expect(events[0]).toEqual({
+      key: '123',
+      accountId: '123',
+      from: 'closed',
+      to: 'open',
+      failures: 1,
+    });
+  });
+
+  it('keeps separate circuits per API family when asked', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, perApi: true });
+
+    breaker.tryAcquire('123', 'suiteql')!.settle(serverError);
+
+    expect(breaker.getState('123', 'suiteql')).toBe('open');
+    expect(breaker.tryAcquire('123', 'record')).not.toBeNull();
+
+    breaker.reset('123');
+    expect(breaker.getState('123', 'suiteql')).toBe('closed');
+  });
+
+  it('treats sandbox account IDs in either spelling as one circuit', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 1000 });
+    const events: CircuitStateChangeEvent[] = [];
+    breaker.onStateChange((event) => events.push(event));
+
+    breaker.tryAcquire('1234567-sb1', 'record')!.settle(serverError);
+
+    expect(breaker.getState('1234567_SB1')).toBe('open');
+    expect(breaker.getRemainingOpenTime('1234567_SB1')).toBeGreaterThan(0);
+    expect(breaker.tryAcquire('1234567_sb1', 'record')).toBeNull();
+    expect(events[0]).toMatchObject({ key: '1234567_SB1', accountId: '1234567_SB1' });
+
+    breaker.reset('1234567_SB1');
+    expect(breaker.getState('1234567-sb1')).toBe('closed');
+  });
+});
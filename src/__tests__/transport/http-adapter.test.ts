@@ -0,0 +1,261 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import http from 'node:http';
+import net, { type AddressInfo, type Socket } from 'node:net';
+import { HttpTransport } from '../../transport/http-transport.js';
+import { FetchAdapter } from '../../transport/fetch-adapter.js';
+import type { AxiosAdapterOptions } from '../../transport/axios-adapter.js';
+import { HttpAdapterError } from '../../types/adapter.js';
+import type { NetSuiteConfig } from '../../types/config.js';
+
+/** Local stand-in that answers differently per path */
+function createStandIn() {
+  const bodies: unknown[] = [];
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      if (raw) bodies.push(JSON.parse(raw));
+      switch (req.url) {
+        case '/ok':
+          res.writeHead(200, { 'Content-Type': 'application/json', 'X-Custom': 'yes' });
+          res.end(JSON.stringify({ id: '42' }));
+          return;
+        case '/created':
+          res.writeHead(204, { Location: '/record/v1/customer/7' });
+          res.end();
+          return;
+        case '/throttled':
+          res.writeHead(429, { 'Content-Type': 'application/json', 'Retry-After': '2' });
+          res.end(JSON.stringify({ title: 'Too many', 'o:errorCode': 'CONCURRENCY_LIMIT_EXCEEDED' }));
+          return;
+        case '/text-error':
+          res.writeHead(502, { 'Content-Type': 'text/html' });
+          res.end('<html>Bad gateway</html>');
+          return;
+        case '/slow':
+          setTimeout(() => res.end('{}'), 500);
+          return;
+        case '/reset':
+          req.socket.destroy();
+          return;
+      }
+    });
+  });
+  return { server, bodies };
+}
+
+describe.each(['axios', 'fetch'] as const)('%s adapter', (adapter) => {
+  const standIn = createStandIn();
+  let baseUrl: string;
+  let transport: HttpTransport;
+
+  const config: NetSuiteConfig = {
+    auth: { authorize: async () => ({ Authorization: 'Bearer t' }) },
+    accountId: '1234567',
+    maxRetries: 0,
+    adapter,
+  };
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => standIn.server.listen(0, '127.0.0.1', resolve));
+    const { port } = standIn.server.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}`;
+    transport = new HttpTransport(config);
+  });
+
+  afterAll(async () => {
+    standIn.server.closeAllConnections();
+    await new Promise((resolve) => standIn.server.close(resolve));
+  });
+
+  it('returns parsed JSON and lower-cased headers', async () => {
+    const result = await transport.request(`${baseUrl}/ok`);
+    expect(result.status).toBe(200);
+    expect(result.data).toEqual({ id: '42' });
+    expect(result.headers['x-custom']).toBe('yes');
+  });
+
+  it('sends JSON bodies and handles 204 responses', async () => {
+    const result = await transport.request(`${baseUrl}/created`, {
+      method: 'POST',
+      body: { companyName: 'Acme' },
+    });
+    expect(result.status).toBe(204);
+    expect(result.data).toBeUndefined();
+    expect(result.headers.location).toBe('/record/v1/customer/7');
+    expect(standIn.bodies.at(-1)).toEqual({ companyName: 'Acme' });
+  });
+
+  it('maps error responses with Retry-After', async () => {
+    await expect(transport.request(`${baseUrl}/throttled`)).rejects.toMatchObject({
+      status: 429,
+      code: 'CONCURRENCY_LIMIT_EXCEEDED',
+      message: 'Too many',
+      retryAfter: 2000,
+    });
+  });
+
+  it('maps non-JSON error bodies', async () => {
+    await expect(transport.request(`${baseUrl}/text-error`)).rejects.toMatchObject({
+      status: 502,
+      code: 'HTTP_502',
+    });
+  });
+
+  it('maps timeouts to TIMEOUT', async () => {
+    await expect(transport.request(`${baseUrl}/slow`, { timeout: 50 })).rejects.toMatchObject({
+      status: 504,
+      code: 'TIMEOUT',
+    });
+  });
+
+  it('maps caller aborts to ABORTED', async () => {
+    const controller = new AbortController();
+    const pending = transport.request(`${baseUrl}/slow`, { signal: controller.signal });
+    setTimeout(() => controller.abort(), 20);
+    await expect(pending).rejects.toMatchObject({ status: 0, code: 'ABORTED' });
+  });
+
+  it('marks dropped connections as sent', async () => {
+    await expect(transport.request(`${baseUrl}/reset`)).rejects.toMatchObject({
+      code: 'NETWORK_ERROR',
+      requestSent: true,
+    });
+  });
+
+  it('marks refused connections as not sent', async () => {
+    const closed = http.createServer();
+    await new Promise<void>((resolve) => closed.listen(0, '127.0.0.1', resolve));
+    const { port } = closed.address() as AddressInfo;
+    await new Promise((resolve) => closed.close(resolve));
+
+    await expect(transport.request(`http://127.0.0.1:${port}/ok`)).rejects.toMatchObject({
+      code: 'NETWORK_ERROR',
+      requestSent: false,
+    });
+  });
+});
+
+describe('custom adapters', () => {
+  it('accepts an HttpAdapter instance', async () => {
+    const transport = new HttpTransport({
+      auth: { authorize: async () => ({}) },
+      accountId: '1234567',
+      adapter: { request: async () => ({ status: 200, headers: {}, data: { ok: true } }) },
+    });
+    expect((await transport.request('https://example.test/x')).data).toEqual({ ok: true });
+  });
+
+  it('maps HttpAdapterError kinds like the built-in adapters', async () => {
+    const transport = new HttpTransport({
+      auth: { authorize: async () => ({}) },
+      accountId: '1234567',
+      maxRetries: 0,
+      adapter: {
+        request: async () => {
+          throw new HttpAdapterError('connect ECONNREFUSED', 'network', 'ECONNREFUSED');
+        },
+      },
+    });
+    await expect(transport.request('https://example.test/x')).rejects.toMatchObject({
+      code: 'NETWORK_ERROR',
+      requestSent: false,
+    });
+  });
+
+  it('uses an injected fetch implementation', async () => {
+    const calls: Array<[string, RequestInit]> = [];
+    const adapter = new FetchAdapter({
+      fetch: async (input, init) => {
+        calls.push([String(input), init!]);
+        return new Response(JSON.stringify({ ok: true }), { status: 200 });
+      },
+    });
+
+    const response = await adapter.request({
+      url: 'https://example.test/x',
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: { a: 1 },
+      timeout: 1000,
+    });
+
+    expect(response).toMatchObject({ status: 200, data: { ok: true } });
+    expect(calls[0][1]).toMatchObject({ method: 'PATCH', body: '{"a":1}' });
+  });
+});
+
+describe('axios adapter proxying', () => {
+  const target = createStandIn();
+  const tunnels: string[] = [];
+  // Minimal CONNECT proxy that pipes the tunnel straight through
+  const proxy = http.createServer();
+  proxy.on('connect', (req, client: Socket, head: Buffer) => {
+    tunnels.push(req.url!);
+    const [host, port] = req.url!.split(':');
+    const upstream = net.connect(Number(port), host, () => {
+      client.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+      upstream.write(head);
+      upstream.pipe(client);
+      client.pipe(upstream);
+    });
+    upstream.on('error', () => client.destroy());
+    client.on('error', () => upstream.destroy());
+  });
+  let targetUrl: string;
+  let proxyUrl: string;
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => target.server.listen(0, '127.0.0.1', resolve));
+    await new Promise<void>((resolve) => proxy.listen(0, '127.0.0.1', resolve));
+    targetUrl = `http://127.0.0.1:${(target.server.address() as AddressInfo).port}`;
+    proxyUrl = `http://127.0.0.1:${(proxy.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    target.server.closeAllConnections();
+    proxy.closeAllConnections();
+    await new Promise((resolve) => target.server.close(resolve));
+    await new Promise((resolve) => proxy.close(resolve));
+  });
+
+  const createTransport = (agent: AxiosAdapterOptions) =>
+    new HttpTransport({
+      auth: { authorize: async () => ({}) },
+      accountId: '1234567',
+      maxRetries: 0,
+      adapter: 'axios',
+      agent,
+    });
+
+  it('tunnels requests through the configured proxy', async () => {
+    const transport = createTransport({ proxy: proxyUrl, maxSockets: 2 });
+    tunnels.length = 0;
+
+    const result = await transport.request(`${targetUrl}/ok`);
+
+    expect(result.data).toEqual({ id: '42' });
+    expect(tunnels).toEqual([new URL(targetUrl).host]);
+    await transport.close();
+  });
+
+  it('connects directly to hosts listed in noProxy', async () => {
+    const transport = createTransport({ proxy: proxyUrl, noProxy: '127.0.0.1' });
+    tunnels.length = 0;
+
+    await transport.request(`${targetUrl}/ok`);
+
+    expect(tunnels).toEqual([]);
+    await transport.close();
+  });
+
+  it('reconnects after close()', async () => {
+    const transport = createTransport({ proxy: false });
+
+    await transport.request(`${targetUrl}/ok`);
+    await transport.close();
+
+    expect((await transport.request(`${targetUrl}/ok`)).status).toBe(200);
+    await transport.close();
+  });
+});
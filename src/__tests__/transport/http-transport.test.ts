@@ -1,6 +1,9 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { HttpTransport } from '../../transport/http-transport.js';
 import { NetSuiteError } from '../../types/errors.js';
+import { ConcurrencyLimiter } from '../../utils/concurrency-limiter.js';
+import { RetryBudget } from '../../transport/retry-budget.js';
+import { CircuitBreaker } from '../../transport/circuit-breaker.js';
 import type { NetSuiteConfig } from '../../types/config.js';
 
 // Store a reference to the mock request function we can control
@@ -225,4 +228,507 @@ describe('HttpTransport', () => {
     const callArgs = mockRequest.mock.calls[0][0];
     expect(callArgs.method).toBe('GET');
   });
+
+  it('shares a request scope across attempts and settles it once', async () => {
+    const transport = new HttpTransport({ ...mockConfig, maxRetries: 2, retryDelay: 1 });
+    const attempts: Array<number | undefined> = [];
+    const settled = vi.fn();
+    transport.use(async (ctx, next) => {
+      attempts.push(ctx.attempt);
+      if (ctx.attempt === 1) ctx.scope?.onSettled(settled);
+      return next();
+    });
+
+    mockRequest
+      .mockResolvedValueOnce({ status: 503, data: {}, headers: {} })
+      .mockResolvedValueOnce({ status: 503, data: {}, headers: {} })
+      .mockResolvedValueOnce({ status: 200, data: {}, headers: {} });
+
+    await transport.request('https://test.com/api');
+
+    expect(attempts).toEqual([1, 2, 3]);
+    expect(settled).toHaveBeenCalledTimes(1);
+    expect(settled).toHaveBeenCalledWith(undefined);
+  });
+
+  it('settles the request scope with the final error', async () => {
+    const transport = new HttpTransport(mockConfig);
+    const settled = vi.fn();
+    transport.use(async (ctx, next) => {
+      ctx.scope?.onSettled(settled);
+      return next();
+    });
+    mockRequest.mockResolvedValue({ status: 404, data: {}, headers: {} });
+
+    await expect(transport.request('https://test.com/api')).rejects.toThrow(NetSuiteError);
+
+    expect(settled.mock.calls[0][0]).toMatchObject({ status: 404 });
+  });
+
+  it('logs structured, redacted events that share a request id', async () => {
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const transport = new HttpTransport({
+      ...mockConfig,
+      maxRetries: 1,
+      retryDelay: 1,
+      logger,
+      redaction: { fields: ['email'], logBodies: true },
+    });
+
+    mockRequest
+      .mockResolvedValueOnce({
+        status: 503,
+        data: {
+          title: 'Service Unavailable',
+          'o:errorCode': 'UNEXPECTED_ERROR',
+          'o:errorDetails': [{ detail: 'a@b.test' }],
+        },
+        headers: {},
+      })
+      .mockResolvedValueOnce({ status: 200, data: {}, headers: {} });
+
+    await transport.request('https://test.com/api?email=a%40b.test', {
+      method: 'PUT',
+      body: { email: 'a@b.test' },
+    });
+
+    const [start] = logger.debug.mock.calls[0].slice(1);
+    expect(start).toMatchObject({
+      event: 'request.start',
+      url: 'https://test.com/api',
+      attempt: 1,
+      body: { email: '[REDACTED]' },
+    });
+    expect(start.headers.Authorization).toBe('[REDACTED]');
+
+    const retry = logger.warn.mock.calls.find(([, meta]) => meta.event === 'request.retry')![1];
+    expect(retry).toMatchObject({
+      requestId: start.requestId,
+      attempt: 1,
+      status: 503,
+      errorCode: 'UNEXPECTED_ERROR',
+      retryDelay: expect.any(Number),
+    });
+    expect(JSON.stringify(logger.warn.mock.calls)).not.toContain('a@b.test');
+
+    expect(logger.info.mock.calls[0][1]).toMatchObject({
+      event: 'request.success',
+      requestId: start.requestId,
+      attempt: 2,
+      status: 200,
+    });
+  });
+
+  it('runs request-scoped middleware once around all retries', async () => {
+    const transport = new HttpTransport({ ...mockConfig, maxRetries: 2, retryDelay: 1 });
+    const calls: string[] = [];
+    transport
+      .use(async (ctx, next) => {
+        calls.push(`attempt ${ctx.attempt}`);
+        return next();
+      })
+      .use(
+        async (ctx, next) => {
+          calls.push('request');
+          ctx.headers['X-Trace'] = 'abc';
+          const response = await next();
+          calls.push(`request done ${response.status}`);
+          return response;
+        },
+        { scope: 'request' },
+      );
+
+    mockRequest
+      .mockResolvedValueOnce({ status: 503, data: {}, headers: {} })
+      .mockResolvedValueOnce({ status: 200, data: { ok: true }, headers: {} });
+
+    const result = await transport.request('https://test.com/api');
+
+    expect(result.data).toEqual({ ok: true });
+    expect(calls).toEqual(['request', 'attempt 1', 'attempt 2', 'request done 200']);
+    expect(mockRequest.mock.calls[1][0].headers['X-Trace']).toBe('abc');
+  });
+
+  it('lets request-scoped middleware answer without sending anything', async () => {
+    const transport = new HttpTransport(mockConfig);
+    transport.use(
+      async () => ({ status: 200, headers: {}, body: { cached: true }, duration: 0 }),
+      { name: 'cache', scope: 'request' },
+    );
+
+    const result = await transport.request('https://test.com/api');
+
+    expect(result.data).toEqual({ cached: true });
+    expect(mockRequest).not.toHaveBeenCalled();
+  });
+
+  it('applies per-call middleware overrides', async () => {
+    const transport = new HttpTransport(mockConfig);
+    const calls: string[] = [];
+    const named = (name: string) => async (_ctx: unknown, next: () => Promise<any>) => {
+      calls.push(name);
+      return next();
+    };
+    transport.use(named('a'), { name: 'a' }).use(named('b'), { name: 'b' });
+    mockRequest.mockResolvedValue({ status: 200, data: {}, headers: {} });
+
+    await transport.request('https://test.com/api', {
+      middleware: { skip: ['b'], add: [{ middleware: named('extra'), before: 'a' }] },
+    });
+    await transport.request('https://test.com/api');
+
+    expect(calls).toEqual(['extra', 'a', 'a', 'b']);
+  });
+
+  it('calls the auth provider on every attempt', async () => {
+    const authorize = vi.fn().mockResolvedValue({ Authorization: 'Bearer abc' });
+    const transport = new HttpTransport({
+      ...mockConfig,
+      auth: { authorize },
+      maxRetries: 1,
+      retryDelay: 1,
+    });
+
+    mockRequest
+      .mockResolvedValueOnce({ status: 503, data: {}, headers: {} })
+      .mockResolvedValueOnce({ status: 200, data: {}, headers: {} });
+
+    await transport.request('https://test.com/api', { method: 'POST' });
+
+    expect(authorize).toHaveBeenCalledTimes(2);
+    expect(authorize).toHaveBeenCalledWith('https://test.com/api', 'POST');
+    expect(mockRequest.mock.calls[1][0].headers.Authorization).toBe('Bearer abc');
+  });
+
+  it('retries once after the auth provider refreshes credentials', async () => {
+    const onAuthFailure = vi.fn().mockResolvedValue(true);
+    const authorize = vi
+      .fn()
+      .mockResolvedValueOnce({ Authorization: 'Bearer stale' })
+      .mockResolvedValue({ Authorization: 'Bearer fresh' });
+    const transport = new HttpTransport({ ...mockConfig, auth: { authorize, onAuthFailure } });
+
+    mockRequest
+      .mockResolvedValueOnce({ status: 401, data: { title: 'Unauthorized' }, headers: {} })
+      .mockResolvedValueOnce({ status: 200, data: { ok: true }, headers: {} });
+
+    const result = await transport.request('https://test.com/api');
+
+    expect(result.data).toEqual({ ok: true });
+    expect(onAuthFailure).toHaveBeenCalledTimes(1);
+    expect(onAuthFailure.mock.calls[0][0]).toBeInstanceOf(NetSuiteError);
+    expect(mockRequest.mock.calls[1][0].headers.Authorization).toBe('Bearer fresh');
+  });
+
+  it('surfaces auth errors when the provider cannot refresh', async () => {
+    const onAuthFailure = vi.fn().mockResolvedValue(false);
+    const transport = new HttpTransport({
+      ...mockConfig,
+      auth: { authorize: async () => ({}), onAuthFailure },
+    });
+
+    mockRequest.mockResolvedValue({ status: 401, data: {}, headers: {} });
+
+    await expect(transport.request('https://test.com/api')).rejects.toMatchObject({
+      status: 401,
+    });
+    expect(mockRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it('only gives the provider one chance per request', async () => {
+    const onAuthFailure = vi.fn().mockResolvedValue(true);
+    const transport = new HttpTransport({
+      ...mockConfig,
+      auth: { authorize: async () => ({}), onAuthFailure },
+    });
+
+    mockRequest.mockResolvedValue({ status: 403, data: {}, headers: {} });
+
+    await expect(transport.request('https://test.com/api')).rejects.toMatchObject({
+      status: 403,
+    });
+    expect(onAuthFailure).toHaveBeenCalledTimes(1);
+    expect(mockRequest).toHaveBeenCalledTimes(2);
+  });
+
+  it('uses credentials swapped in with setAuth()', async () => {
+    const transport = new HttpTransport(mockConfig);
+    transport.setAuth({ authorize: async () => ({ Authorization: 'Bearer rotated' }) });
+
+    mockRequest.mockResolvedValue({ status: 200, data: {}, headers: {} });
+    await transport.request('https://test.com/api');
+
+    expect(mockRequest.mock.calls[0][0].headers.Authorization).toBe('Bearer rotated');
+  });
+
+  it('retries an auth failure with credentials rotated mid-flight', async () => {
+    const transport = new HttpTransport(mockConfig);
+
+    mockRequest.mockImplementationOnce(async () => {
+      transport.setAuth({ authorize: async () => ({ Authorization: 'Bearer rotated' }) });
+      return { status: 401, data: {}, headers: {} };
+    });
+    mockRequest.mockResolvedValueOnce({ status: 200, data: {}, headers: {} });
+
+    await transport.request('https://test.com/api');
+
+    expect(mockRequest.mock.calls[1][0].headers.Authorization).toBe('Bearer rotated');
+  });
+
+  it('reports no concurrency stats without a limit', () => {
+    expect(new HttpTransport(mockConfig).getConcurrencyStats()).toBeNull();
+  });
+
+  it('caps in-flight requests shared across transports', async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrent: 1 });
+    const a = new HttpTransport({ ...mockConfig, concurrency: limiter });
+    const b = new HttpTransport({ ...mockConfig, concurrency: limiter });
+
+    let inFlight = 0;
+    let peak = 0;
+    mockRequest.mockImplementation(async () => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight--;
+      return { status: 200, data: {}, headers: {} };
+    });
+
+    await Promise.all([
+      a.request('https://test.com/1'),
+      b.request('https://test.com/2'),
+      a.request('https://test.com/3'),
+    ]);
+
+    expect(peak).toBe(1);
+    expect(a.getConcurrencyStats()).toMatchObject({ totalAcquired: 3, totalQueued: 2, active: 0 });
+    expect(b.getConcurrencyStats()).toEqual(a.getConcurrencyStats());
+  });
+
+  it('treats 429 responses as retryable and captures Retry-After', async () => {
+    const onRetry = vi.fn();
+    const transport = new HttpTransport({ ...mockConfig, maxRetries: 1, onRetry });
+
+    mockRequest
+      .mockResolvedValueOnce({
+        status: 429,
+        data: { title: 'Too Many Requests', 'o:errorCode': 'CONCURRENCY_LIMIT_EXCEEDED' },
+        headers: { 'retry-after': '0' },
+      })
+      .mockResolvedValueOnce({ status: 200, data: { ok: true }, headers: {} });
+
+    const result = await transport.request('https://test.com/api');
+
+    expect(result.data).toEqual({ ok: true });
+    expect(onRetry).toHaveBeenCalledWith(
+      expect.objectContaining({
+        url: 'https://test.com/api',
+        method: 'GET',
+        attempt: 1,
+        maxRetries: 1,
+        delay: 0,
+        error: expect.objectContaining({ status: 429, isThrottled: true, retryAfter: 0 }),
+      }),
+    );
+  });
+
+  it('stops retrying once the retry budget is exhausted', async () => {
+    const budget = new RetryBudget({ maxRetries: 1 });
+    const transport = new HttpTransport({
+      ...mockConfig,
+      maxRetries: 3,
+      retryDelay: 1,
+      retryBudget: budget,
+    });
+
+    mockRequest.mockResolvedValue({ status: 503, data: {}, headers: {} });
+
+    await expect(transport.request('https://test.com/api')).rejects.toMatchObject({ status: 503 });
+    // 1 initial + 1 budgeted retry
+    expect(mockRequest).toHaveBeenCalledTimes(2);
+    expect(budget.getRemaining()).toBe(0);
+  });
+
+  it('fails fast with CIRCUIT_OPEN once the circuit opens', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeout: 60_000 });
+    const transport = new HttpTransport({
+      ...mockConfig,
+      maxRetries: 3,
+      retryDelay: 1,
+      circuitBreaker: breaker,
+    });
+    const changes: string[] = [];
+    transport.events.on('circuit:state-change', (e) => changes.push(`${e.key}:${e.to}`));
+
+    mockRequest.mockResolvedValue({ status: 503, data: {}, headers: {} });
+
+    await expect(transport.request('https://test.com/api')).rejects.toMatchObject({
+      code: 'CIRCUIT_OPEN',
+      requestSent: false,
+    });
+    // The second failure opened the circuit, so the third attempt was never sent
+    expect(mockRequest).toHaveBeenCalledTimes(2);
+    expect(changes).toEqual(['1234567:open']);
+
+    const error = await transport.request('https://test.com/api').catch((e) => e);
+    expect(error.retryAfter).toBeGreaterThan(0);
+    expect(error.isRetryable).toBe(false);
+    expect(mockRequest).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports sandbox circuits under the canonical account ID', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 60_000 });
+    const transport = new HttpTransport({
+      ...mockConfig,
+      accountId: '1234567_SB1',
+      maxRetries: 0,
+      circuitBreaker: breaker,
+    });
+    const changes: string[] = [];
+    transport.events.on('circuit:state-change', (e) => changes.push(`${e.accountId}:${e.to}`));
+
+    mockRequest.mockResolvedValue({ status: 503, data: {}, headers: {} });
+    await transport.request('https://test.com/api').catch(() => undefined);
+
+    expect(breaker.getState('1234567_SB1')).toBe('open');
+    expect(breaker.getRemainingOpenTime('1234567_SB1')).toBeGreaterThan(0);
+    expect(changes).toEqual(['1234567_SB1:open']);
+  });
+
+  it('passes an abort signal to the HTTP call and fails with ABORTED', async () => {
+    const transport = new HttpTransport(mockConfig);
+    const controller = new AbortController();
+
+    mockRequest.mockImplementation(({ signal }: { signal: AbortSignal }) => {
+      return new Promise((_resolve, reject) => {
+        signal.addEventListener('abort', () => {
+          const err = new Error('canceled') as any;
+          err.code = 'ERR_CANCELED';
+          reject(err);
+        });
+      });
+    });
+
+    const pending = transport.request('https://test.com/api', { signal: controller.signal });
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ code: 'ABORTED', status: 0 });
+  });
+
+  it('does not retry once the caller aborts during backoff', async () => {
+    const controller = new AbortController();
+    const transport = new HttpTransport({
+      ...mockConfig,
+      maxRetries: 3,
+      retryDelay: 60_000,
+      onRetry: () => controller.abort(),
+    });
+
+    mockRequest.mockResolvedValue({ status: 503, data: {}, headers: {} });
+
+    await expect(
+      transport.request('https://test.com/api', { signal: controller.signal }),
+    ).rejects.toMatchObject({ code: 'ABORTED' });
+    expect(mockRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it('fails with DEADLINE_EXCEEDED across retries', async () => {
+    const transport = new HttpTransport({ ...mockConfig, maxRetries: 5, retryDelay: 30 });
+
+    mockRequest.mockResolvedValue({ status: 503, data: {}, headers: {} });
+
+    await expect(
+      transport.request('https://test.com/api', { deadline: Date.now() + 50 }),
+    ).rejects.toMatchObject({ code: 'DEADLINE_EXCEEDED' });
+    expect(mockRequest.mock.calls.length).toBeLessThan(6);
+  });
+
+  it('clips the per-attempt timeout to the remaining deadline', async () => {
+    const transport = new HttpTransport(mockConfig);
+    mockRequest.mockResolvedValue({ status: 200, data: {}, headers: {} });
+
+    await transport.request('https://test.com/api', { deadline: Date.now() + 5000 });
+
+    const callArgs = mockRequest.mock.calls[0][0];
+    expect(callArgs.timeout).toBeLessThanOrEqual(5000);
+    expect(callArgs.signal).toBeInstanceOf(AbortSignal);
+  });
+
+  it('exposes the signal to middleware', async () => {
+    const transport = new HttpTransport(mockConfig);
+    const controller = new AbortController();
+    let seen: AbortSignal | undefined;
+    transport.use(async (ctx, next) => {
+      seen = ctx.signal;
+      return next();
+    });
+    mockRequest.mockResolvedValue({ status: 200, data: {}, headers: {} });
+
+    await transport.request('https://test.com/api', { signal: controller.signal });
+
+    expect(seen).toBeInstanceOf(AbortSignal);
+  });
+
+  it('shares one request between identical concurrent GETs when coalescing', async () => {
+    const transport = new HttpTransport({ ...mockConfig, coalesce: true });
+    mockRequest.mockResolvedValue({ status: 200, data: { id: 1 }, headers: {} });
+
+    const results = await Promise.all([
+      transport.request('https://test.com/api'),
+      transport.request('https://test.com/api'),
+      transport.request('https://test.com/other'),
+    ]);
+
+    expect(mockRequest).toHaveBeenCalledTimes(2);
+    expect(results.map((r) => r.data)).toEqual([{ id: 1 }, { id: 1 }, { id: 1 }]);
+  });
+
+  it('never shares writes or calls that opt out', async () => {
+    const transport = new HttpTransport({ ...mockConfig, coalesce: true });
+    mockRequest.mockResolvedValue({ status: 200, data: {}, headers: {} });
+
+    await Promise.all([
+      transport.request('https://test.com/api', { method: 'POST', body: {} }),
+      transport.request('https://test.com/api', { method: 'POST', body: {} }),
+      transport.request('https://test.com/api', { coalesce: false }),
+      transport.request('https://test.com/api', { coalesce: false }),
+    ]);
+
+    expect(mockRequest).toHaveBeenCalledTimes(4);
+  });
+
+  it('rejects every coalesced caller when the shared request fails', async () => {
+    const transport = new HttpTransport({ ...mockConfig, coalesce: true });
+    mockRequest.mockResolvedValue({ status: 404, data: {}, headers: {} });
+
+    const results = await Promise.allSettled([
+      transport.request('https://test.com/api'),
+      transport.request('https://test.com/api'),
+    ]);
+
+    expect(mockRequest).toHaveBeenCalledTimes(1);
+    expect(results.map((r) => r.status)).toEqual(['rejected', 'rejected']);
+  });
+
+  it('keeps a coalesced request going when one caller aborts', async () => {
+    const transport = new HttpTransport({ ...mockConfig, coalesce: true });
+    let respond!: () => void;
+    mockRequest.mockImplementation(
+      () =>
+        new Promise((resolve) => {
+          respond = () => resolve({ status: 200, data: { id: 1 }, headers: {} });
+        }),
+    );
+    const controller = new AbortController();
+
+    const first = transport.request('https://test.com/api');
+    const second = transport.request('https://test.com/api', { signal: controller.signal });
+    await vi.waitFor(() => expect(mockRequest).toHaveBeenCalledTimes(1));
+
+    controller.abort();
+    await expect(second).rejects.toMatchObject({ code: 'ABORTED' });
+
+    respond();
+    expect((await first).data).toEqual({ id: 1 });
+  });
 });
@@ -0,0 +1,199 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+  resolveIdempotencyKey,
+  isSafeToRetry,
+  DEFAULT_IDEMPOTENCY_HEADER,
+} from '../../transport/idempotency.js';
+import { HttpTransport } from '../../transport/http-transport.js';
+import { NetSuiteError } from '../../types/errors.js';
+import type { NetSuiteConfig } from '../../types/config.js';
+
+describe('resolveIdempotencyKey', () => {
+  it('generates a key for mutating methods', () => {
+    const result = resolveIdempotencyKey('POST', undefined, undefined, undefined);
+    expect(result?.headerName).toBe(DEFAULT_IDEMPOTENCY_HEADER);
+    expect(result?.key).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it('does not generate keys for GET', () => {
+    expect(resolveIdempotencyKey('GET', undefined, undefined, undefined)).toBeNull();
+  });
+
+  it('prefers an explicit key', () => {
+    expect(resolveIdempotencyKey('POST', undefined, 'order-42', undefined)?.key).toBe('order-42');
+  });
+
+  it('reuses a key already present in headers', () => {
+    const result = resolveIdempotencyKey(
+      'PATCH',
+      { 'x-netsuite-idempotency-key': 'from-header' },
+      undefined,
+      undefined,
+    );
+    expect(result).toEqual({ headerName: 'x-netsuite-idempotency-key', key: 'from-header' });
+  });
+
+  it('honors custom header names, methods and generators', () => {
+    const options = { headerName: 'Idempotency-Key', methods: ['POST' as const], generateKey: () => 'k1' };
+    expect(resolveIdempotencyKey('POST', undefined, undefined, options)).toEqual({
+      headerName: 'Idempotency-Key',
+      key: 'k1',
+    });
+    expect(resolveIdempotencyKey('DELETE', undefined, undefined, options)).toBeNull();
+  });
+
+  it('can be disabled', () => {
+    expect(resolveIdempotencyKey('POST', undefined, undefined, false)).toBeNull();
+    expect(resolveIdempotencyKey('POST', undefined, undefined, { enabled: false })).toBeNull();
+  });
+});
+
+describe('isSafeToRetry', () => {
+  const sent = new NetSuiteError('reset', 0, 'NETWORK_ERROR');
+  const notSent = new NetSuiteError('refused', 0, 'NETWORK_ERROR', undefined, undefined, undefined, {
+    requestSent: false,
+  });
+  const throttled = new NetSuiteError('slow down', 429, 'CONCURRENCY_LIMIT_EXCEEDED');
+
+  it('always allows idempotent methods', () => {
+    expect(isSafeToRetry(sent, 'GET', false)).toBe(true);
+    expect(isSafeToRetry(sent, 'PUT', false)).toBe(true);
+    expect(isSafeToRetry(sent, 'DELETE', false)).toBe(true);
+  });
+
+  it('allows POST/PATCH with an idempotency key', () => {
+    expect(isSafeToRetry(sent, 'POST', true)).toBe(true);
+  });
+
+  it('only allows keyless POST/PATCH when the request never reached NetSuite', () => {
+    expect(isSafeToRetry(sent, 'POST', false)).toBe(false);
+    expect(isSafeToRetry(new Error('unknown'), 'PATCH', false)).toBe(false);
+    expect(isSafeToRetry(notSent, 'POST', false)).toBe(true);
+    expect(isSafeToRetry(throttled, 'POST', false)).toBe(true);
+  });
+});
+
+/**
+ * Local stand-in for the record endpoint. The first response to each new
+ * create is dropped after the record has been stored, mimicking a response
+ * lost to a timeout or connection reset.
+ */
+function createStandIn() {
+  const state = {
+    records: [] as Array<{ id: number; body: unknown }>,
+    byKey: new Map<string, number>(),
+    attempts: 0,
+    keys: [] as Array<string | undefined>,
+  };
+
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      state.attempts++;
+      const key = req.headers['x-netsuite-idempotency-key'] as string | undefined;
+      state.keys.push(key);
+
+      let id = key ? state.byKey.get(key) : undefined;
+      const isReplay = id !== undefined;
+      if (id === undefined) {
+        id = state.records.length + 1;
+        state.records.push({ id, body: JSON.parse(raw) });
+        if (key) state.byKey.set(key, id);
+      }
+
+      if (!isReplay && state.attempts === 1) {
+        req.socket.destroy();
+        return;
+      }
+
+      res.writeHead(204, { Location: `http://${req.headers.host}/record/v1/salesOrder/${id}` });
+      res.end();
+    });
+  });
+
+  return { server, state };
+}
+
+describe('idempotent retries against a stand-in server', () => {
+  const standIn = createStandIn();
+  let baseUrl: string;
+  let config: NetSuiteConfig;
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => standIn.server.listen(0, '127.0.0.1', resolve));
+    const { port } = standIn.server.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => standIn.server.close(resolve));
+  });
+
+  beforeEach(() => {
+    standIn.state.records = [];
+    standIn.state.byKey.clear();
+    standIn.state.attempts = 0;
+    standIn.state.keys = [];
+    config = {
+      auth: { authorize: async () => ({}) },
+      accountId: '1234567',
+      maxRetries: 2,
+      retryDelay: 1,
+    };
+  });
+
+  it('retries a create with the same key and produces exactly one record', async () => {
+    const transport = new HttpTransport(config);
+
+    const result = await transport.request(`${baseUrl}/record/v1/salesOrder`, {
+      method: 'POST',
+      body: { entity: { id: 1 } },
+    });
+
+    expect(result.status).toBe(204);
+    expect(result.headers.location).toMatch(/\/salesOrder\/1$/);
+    expect(standIn.state.attempts).toBe(2);
+    expect(standIn.state.keys[0]).toBeDefined();
+    expect(standIn.state.keys[1]).toBe(standIn.state.keys[0]);
+    expect(standIn.state.records).toHaveLength(1);
+  });
+
+  it('does not retry a keyless create whose response was lost', async () => {
+    const transport = new HttpTransport({ ...config, idempotency: false });
+
+    await expect(
+      transport.request(`${baseUrl}/record/v1/salesOrder`, {
+        method: 'POST',
+        body: { entity: { id: 1 } },
+      }),
+    ).rejects.toMatchObject({ code: 'NETWORK_ERROR', requestSent: true });
+
+    expect(standIn.state.attempts).toBe(1);
+    expect(standIn.state.records).toHaveLength(1);
+  });
+
+  it('retries a keyless create that never reached the server', async () => {
+    const closed = http.createServer();
+    await new Promise<void>((resolve) => closed.listen(0, '127.0.0.1', resolve));
+    const { port } = closed.address() as AddressInfo;
+    await new Promise((resolve) => closed.close(resolve));
+
+    const attempts: number[] = [];
+    const transport = new HttpTransport({
+      ...config,
+      idempotency: false,
+      onRetry: ({ attempt }) => attempts.push(attempt),
+    });
+
+    await expect(
+      transport.request(`http://127.0.0.1:${port}/record/v1/salesOrder`, {
+        method: 'POST',
+        body: {},
+      }),
+    ).rejects.toMatchObject({ code: 'NETWORK_ERROR', requestSent: false });
+    expect(attempts).toEqual([1, 2]);
+  });
+});
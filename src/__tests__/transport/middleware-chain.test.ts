@@ -105,4 +105,18 @@ describe('executeMiddlewareChain', () => {
       executeMiddlewareChain([mw], createContext(), handler),
     ).rejects.toThrow('middleware error');
   });
+
+  it('stops before the next middleware once the signal aborts', async () => {
+    const controller = new AbortController();
+    const handler = vi.fn().mockResolvedValue(createResponse());
+    const mw: Middleware = async (_ctx, next) => {
+      controller.abort(new Error('aborted'));
+      return next();
+    };
+
+    await expect(
+      executeMiddlewareChain([mw], createContext({ signal: controller.signal }), handler),
+    ).rejects.toThrow('aborted');
+    expect(handler).not.toHaveBeenCalled();
+  });
 });
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { MiddlewareStack } from '../../transport/middleware-stack.js';
+import type { Middleware } from '../../types/middleware.js';
+
+const mw = (): Middleware => async (_ctx, next) => next();
+
+describe('MiddlewareStack', () => {
+  it('appends by default and positions with before/after', () => {
+    const stack = new MiddlewareStack()
+      .use(mw(), { name: 'a' })
+      .use(mw(), { name: 'c' })
+      .use(mw(), { name: 'b', before: 'c' })
+      .use(mw(), { name: 'd', after: 'c' })
+      .use(mw(), { name: 'first', before: 'a' });
+
+    expect(stack.names()).toEqual(['first', 'a', 'b', 'c', 'd']);
+  });
+
+  it('removes by name or reference', () => {
+    const unnamed = mw();
+    const stack = new MiddlewareStack().use(mw(), { name: 'a' }).use(unnamed);
+
+    expect(stack.remove('a')).toBe(true);
+    expect(stack.remove('a')).toBe(false);
+    expect(stack.remove(unnamed)).toBe(true);
+    expect(stack.resolve('attempt')).toEqual([]);
+  });
+
+  it('rejects duplicate names and unknown anchors', () => {
+    const stack = new MiddlewareStack().use(mw(), { name: 'a' });
+
+    expect(() => stack.use(mw(), { name: 'a' })).toThrow('already registered');
+    expect(() => stack.use(mw(), { before: 'missing' })).toThrow('"missing" is not registered');
+    expect(() => stack.use(mw(), { before: 'a', after: 'a' })).toThrow('not both');
+  });
+
+  it('resolves one scope at a time, applying per-call overrides', () => {
+    const a = mw();
+    const b = mw();
+    const perRequest = mw();
+    const extra = mw();
+    const stack = new MiddlewareStack()
+      .use(a, { name: 'a' })
+      .use(b, { name: 'b' })
+      .use(perRequest, { name: 'cache', scope: 'request' });
+
+    expect(stack.resolve('attempt')).toEqual([a, b]);
+    expect(stack.resolve('request')).toEqual([perRequest]);
+    expect(
+      stack.resolve('attempt', { skip: ['a'], add: [{ middleware: extra, before: 'b' }] }),
+    ).toEqual([extra, b]);
+    // Overrides never change the registered stack
+    expect(stack.names()).toEqual(['a', 'b', 'cache']);
+  });
+});
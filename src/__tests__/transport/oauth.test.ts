@@ -15,9 +15,9 @@ describe('createOAuthSigner', () => {
     expect(typeof sign).toBe('function');
   });
 
-  it('generates an Authorization header', () => {
+  it('generates an Authorization header', async () => {
     const sign = createOAuthSigner(mockOAuthConfig);
-    const headers = sign('https://example.suitetalk.api.netsuite.com/test', 'GET');
+    const headers = await sign('https://example.suitetalk.api.netsuite.com/test', 'GET');
 
     expect(headers).toHaveProperty('Authorization');
     expect(headers.Authorization).toContain('OAuth');
@@ -27,12 +27,12 @@ describe('createOAuthSigner', () => {
     expect(headers.Authorization).toContain('realm="TEST_REALM"');
   });
 
-  it('generates different nonces on each call', () => {
+  it('generates different nonces on each call', async () => {
     const sign = createOAuthSigner(mockOAuthConfig);
     const url = 'https://example.suitetalk.api.netsuite.com/test';
 
-    const headers1 = sign(url, 'GET');
-    const headers2 = sign(url, 'GET');
+    const headers1 = await sign(url, 'GET');
+    const headers2 = await sign(url, 'GET');
 
     // Extract nonce from Authorization header
     const nonceRegex = /oauth_nonce="([^"]+)"/;
@@ -44,9 +44,9 @@ describe('createOAuthSigner', () => {
     expect(nonce1).not.toBe(nonce2);
   });
 
-  it('includes oauth_signature', () => {
+  it('includes oauth_signature', async () => {
     const sign = createOAuthSigner(mockOAuthConfig);
-    const headers = sign('https://example.com/test', 'POST');
+    const headers = await sign('https://example.com/test', 'POST');
 
     expect(headers.Authorization).toContain('oauth_signature="');
   });
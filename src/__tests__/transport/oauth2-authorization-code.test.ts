@@ -0,0 +1,229 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createHash } from 'node:crypto';
+import {
+  OAuth2AuthorizationCodeFlow,
+  createPkcePair,
+} from '../../transport/oauth2-authorization-code.js';
+import { MemoryTokenStore } from '../../transport/token-store.js';
+import { NetSuiteClient } from '../../client.js';
+import { NetSuiteError } from '../../types/errors.js';
+
+/** Local stand-in for the token endpoint and a protected API route */
+function createStandIn() {
+  const state = {
+    grants: [] as Array<Record<string, string>>,
+    authorization: [] as string[],
+    challenge: '',
+    issued: 0,
+    apiAuthHeaders: [] as string[],
+  };
+
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      res.setHeader('Content-Type', 'application/json');
+
+      if (req.url === '/token') {
+        const form = Object.fromEntries(new URLSearchParams(raw));
+        state.grants.push(form);
+        state.authorization.push(String(req.headers.authorization ?? ''));
+
+        if (form.grant_type === 'authorization_code') {
+          const expected = createHash('sha256').update(form.code_verifier).digest('base64url');
+          if (form.code !== 'good-code' || expected !== state.challenge) {
+            res.statusCode = 400;
+            res.end(JSON.stringify({ error: 'invalid_grant' }));
+            return;
+          }
+          state.issued++;
+          res.end(
+            JSON.stringify({
+              access_token: `access-${state.issued}`,
+              refresh_token: 'refresh-1',
+              expires_in: 3600,
+              token_type: 'Bearer',
+            }),
+          );
+          return;
+        }
+
+        if (form.grant_type === 'refresh_token' && form.refresh_token === 'refresh-1') {
+          state.issued++;
+          res.end(JSON.stringify({ access_token: `access-${state.issued}`, expires_in: 3600 }));
+          return;
+        }
+
+        res.statusCode = 400;
+        res.end(JSON.stringify({ error: 'invalid_grant' }));
+        return;
+      }
+
+      state.apiAuthHeaders.push(String(req.headers.authorization));
+      if (req.headers.authorization === 'Bearer access-1-revoked') {
+        res.statusCode = 401;
+        res.end(JSON.stringify({ title: 'Unauthorized' }));
+        return;
+      }
+      res.end(JSON.stringify({ items: [], totalResults: 0, hasMore: false, count: 0, offset: 0 }));
+    });
+  });
+
+  return { server, state };
+}
+
+describe('OAuth2AuthorizationCodeFlow', () => {
+  const standIn = createStandIn();
+  let baseUrl: string;
+  let store: MemoryTokenStore;
+  let flow: OAuth2AuthorizationCodeFlow;
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => standIn.server.listen(0, '127.0.0.1', resolve));
+    const { port } = standIn.server.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => standIn.server.close(resolve));
+  });
+
+  beforeEach(() => {
+    standIn.state.grants = [];
+    standIn.state.authorization = [];
+    standIn.state.issued = 0;
+    standIn.state.apiAuthHeaders = [];
+    store = new MemoryTokenStore();
+    flow = new OAuth2AuthorizationCodeFlow({
+      accountId: '1234567_SB1',
+      clientId: 'client-id',
+      clientSecret: 'client-secret',
+      redirectUri: 'https://tools.example.com/callback',
+      tokenStore: store,
+      tokenUrl: `${baseUrl}/token`,
+    });
+  });
+
+  async function completeFlow() {
+    const request = await flow.createAuthorizationUrl();
+    standIn.state.challenge = new URL(request.url).searchParams.get('code_challenge')!;
+    return flow.exchangeCode('good-code', request.codeVerifier);
+  }
+
+  it('creates a PKCE pair with an S256 challenge', async () => {
+    const { codeVerifier, codeChallenge } = await createPkcePair();
+    expect(codeVerifier.length).toBeGreaterThanOrEqual(43);
+    expect(codeChallenge).toBe(createHash('sha256').update(codeVerifier).digest('base64url'));
+  });
+
+  it('builds the account authorize URL', async () => {
+    const { url, state, codeVerifier } = await flow.createAuthorizationUrl({ state: 'xyz' });
+    const parsed = new URL(url);
+
+    expect(`${parsed.origin}${parsed.pathname}`).toBe(
+      'https://1234567-sb1.app.netsuite.com/app/login/oauth2/authorize.nl',
+    );
+    expect(state).toBe('xyz');
+    expect(Object.fromEntries(parsed.searchParams)).toEqual({
+      response_type: 'code',
+      client_id: 'client-id',
+      redirect_uri: 'https://tools.example.com/callback',
+      scope: 'rest_webservices restlets',
+      state: 'xyz',
+      code_challenge: createHash('sha256').update(codeVerifier).digest('base64url'),
+      code_challenge_method: 'S256',
+    });
+  });
+
+  it('exchanges the code and persists tokens', async () => {
+    const tokens = await completeFlow();
+
+    expect(tokens.accessToken).toBe('access-1');
+    expect(tokens.refreshToken).toBe('refresh-1');
+    expect(await store.get()).toEqual(tokens);
+    expect(standIn.state.authorization[0]).toBe(
+      `Basic ${Buffer.from('client-id:client-secret').toString('base64')}`,
+    );
+  });
+
+  it('sends client_id in the body for public clients', async () => {
+    flow = new OAuth2AuthorizationCodeFlow({
+      accountId: '1234567',
+      clientId: 'public-client',
+      redirectUri: 'https://tools.example.com/callback',
+      tokenStore: store,
+      tokenUrl: `${baseUrl}/token`,
+    });
+    await completeFlow();
+    expect(standIn.state.grants[0].client_id).toBe('public-client');
+    expect(standIn.state.authorization[0]).toBe('');
+  });
+
+  it('rejects a code exchanged with the wrong verifier', async () => {
+    const request = await flow.createAuthorizationUrl();
+    standIn.state.challenge = new URL(request.url).searchParams.get('code_challenge')!;
+
+    await expect(flow.exchangeCode('good-code', 'wrong-verifier')).rejects.toMatchObject({
+      code: 'OAUTH2_TOKEN_ERROR',
+    });
+  });
+
+  it('throws OAUTH2_NOT_AUTHORIZED before the flow completes', async () => {
+    await expect(flow.authorize()).rejects.toBeInstanceOf(NetSuiteError);
+    await expect(flow.authorize()).rejects.toMatchObject({ code: 'OAUTH2_NOT_AUTHORIZED' });
+  });
+
+  it('refreshes expiring tokens and keeps the refresh token', async () => {
+    await store.set({ accessToken: 'old', refreshToken: 'refresh-1', expiresAt: Date.now() + 1000 });
+
+    const headers = await flow.authorize();
+
+    expect(headers.Authorization).toBe('Bearer access-1');
+    expect((await store.get())?.refreshToken).toBe('refresh-1');
+    expect(standIn.state.grants[0].grant_type).toBe('refresh_token');
+  });
+
+  it('works as NetSuiteConfig.auth for the namespaced clients', async () => {
+    await completeFlow();
+    const client = new NetSuiteClient({ auth: flow, accountId: '1234567', maxRetries: 0 });
+
+    await client.get(`${baseUrl}/services/rest/record/v1/customer`);
+
+    expect(standIn.state.apiAuthHeaders).toEqual(['Bearer access-1']);
+  });
+
+  it('refreshes once when NetSuite rejects the access token', async () => {
+    await store.set({
+      accessToken: 'access-1-revoked',
+      refreshToken: 'refresh-1',
+      expiresAt: Date.now() + 3_600_000,
+    });
+    const client = new NetSuiteClient({ auth: flow, accountId: '1234567', maxRetries: 0 });
+
+    await client.get(`${baseUrl}/api`);
+
+    expect(standIn.state.apiAuthHeaders).toEqual(['Bearer access-1-revoked', 'Bearer access-1']);
+  });
+
+  it('keeps the 401 when the refresh fails, with the refresh error as its cause', async () => {
+    await store.set({
+      accessToken: 'access-1-revoked',
+      refreshToken: 'refresh-revoked',
+      expiresAt: Date.now() + 3_600_000,
+    });
+    const client = new NetSuiteClient({ auth: flow, accountId: '1234567', maxRetries: 0 });
+
+    const error = await client.get(`${baseUrl}/api`).catch((e: unknown) => e);
+
+    expect(error).toMatchObject({ status: 401 });
+    expect((error as NetSuiteError).cause).toMatchObject({ code: 'OAUTH2_TOKEN_ERROR' });
+  });
+
+  it('clears stored tokens', async () => {
+    await completeFlow();
+    await flow.clear();
+    expect(await store.get()).toBeNull();
+  });
+});
@@ -0,0 +1,246 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import http from 'node:http';
+import net, { type AddressInfo, type Socket } from 'node:net';
+import { generateKeyPairSync, verify, constants } from 'node:crypto';
+import {
+  OAuth2TokenManager,
+  createClientAssertion,
+  buildTokenUrl,
+} from '../../transport/oauth2.js';
+import { HttpTransport } from '../../transport/http-transport.js';
+import { AxiosAdapter } from '../../transport/axios-adapter.js';
+import { FetchAdapter } from '../../transport/fetch-adapter.js';
+import type { AdapterRequest } from '../../types/adapter.js';
+import { NetSuiteError } from '../../types/errors.js';
+import type { OAuth2ClientCredentialsConfig } from '../../types/config.js';
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const privateKeyPem = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+
+function decodeSegment(segment: string): Record<string, unknown> {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString());
+}
+
+/** Local stand-in for the NetSuite token endpoint + a protected API route */
+function createStandIn() {
+  const state = {
+    tokenRequests: 0,
+    expiresIn: 3600,
+    failWith: null as null | { status: number; body: unknown },
+    lastAssertion: '',
+    apiAuthHeaders: [] as string[],
+  };
+
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      if (req.url === '/token') {
+        state.tokenRequests++;
+        if (state.failWith) {
+          res.writeHead(state.failWith.status, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify(state.failWith.body));
+          return;
+        }
+        const form = new URLSearchParams(raw);
+        state.lastAssertion = form.get('client_assertion') ?? '';
+        const [h, p, s] = state.lastAssertion.split('.');
+        const valid = verify(
+          'sha256',
+          Buffer.from(`${h}.${p}`),
+          { key: publicKey, padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: 32 },
+          Buffer.from(s, 'base64url'),
+        );
+        if (!valid || form.get('grant_type') !== 'client_credentials') {
+          res.writeHead(400, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: 'invalid_grant' }));
+          return;
+        }
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(
+          JSON.stringify({
+            access_token: `token-${state.tokenRequests}`,
+            token_type: 'Bearer',
+            expires_in: state.expiresIn,
+          }),
+        );
+        return;
+      }
+
+      state.apiAuthHeaders.push(String(req.headers.authorization));
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ ok: true }));
+    });
+  });
+
+  return { server, state };
+}
+
+describe('OAuth 2.0 client credentials', () => {
+  const standIn = createStandIn();
+  let baseUrl: string;
+  let config: OAuth2ClientCredentialsConfig;
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => standIn.server.listen(0, '127.0.0.1', resolve));
+    const { port } = standIn.server.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => standIn.server.close(resolve));
+  });
+
+  beforeEach(() => {
+    standIn.state.tokenRequests = 0;
+    standIn.state.expiresIn = 3600;
+    standIn.state.failWith = null;
+    standIn.state.apiAuthHeaders = [];
+    config = {
+      type: 'oauth2-client-credentials',
+      clientId: 'client-id',
+      certificateId: 'cert-id',
+      privateKey: privateKeyPem,
+      tokenUrl: `${baseUrl}/token`,
+    };
+  });
+
+  it('builds the account token URL', () => {
+    expect(buildTokenUrl('1234567_SB1')).toBe(
+      'https://1234567-sb1.suitetalk.api.netsuite.com/services/rest/auth/oauth2/v1/token',
+    );
+  });
+
+  it('creates a signed client assertion with NetSuite claims', async () => {
+    const assertion = await createClientAssertion(config, 'https://aud', 1_700_000_000_000);
+    const [header, payload] = assertion.split('.').map((part, i) =>
+      i < 2 ? decodeSegment(part) : part,
+    ) as Array<Record<string, unknown>>;
+
+    expect(header).toEqual({ alg: 'PS256', typ: 'JWT', kid: 'cert-id' });
+    expect(payload).toEqual({
+      iss: 'client-id',
+      scope: ['rest_webservices', 'restlets'],
+      aud: 'https://aud',
+      iat: 1_700_000_000,
+      exp: 1_700_003_600,
+    });
+  });
+
+  it('exchanges a client assertion for an access token', async () => {
+    const manager = new OAuth2TokenManager(config, '1234567');
+    await expect(manager.getAccessToken()).resolves.toBe('token-1');
+    expect(standIn.state.tokenRequests).toBe(1);
+  });
+
+  it('caches the token and shares concurrent requests', async () => {
+    const manager = new OAuth2TokenManager(config, '1234567');
+    const tokens = await Promise.all([manager.getAccessToken(), manager.getAccessToken()]);
+    await manager.getAccessToken();
+
+    expect(tokens).toEqual(['token-1', 'token-1']);
+    expect(standIn.state.tokenRequests).toBe(1);
+  });
+
+  it('refreshes proactively when the token is close to expiry', async () => {
+    standIn.state.expiresIn = 30; // inside the default 60s refresh window
+    const manager = new OAuth2TokenManager(config, '1234567');
+
+    await expect(manager.getAccessToken()).resolves.toBe('token-1');
+    await expect(manager.getAccessToken()).resolves.toBe('token-2');
+    expect(standIn.state.tokenRequests).toBe(2);
+  });
+
+  it('mints a new token after invalidate()', async () => {
+    const manager = new OAuth2TokenManager(config, '1234567');
+    await manager.getAccessToken();
+    manager.invalidate();
+    await expect(manager.getAccessToken()).resolves.toBe('token-2');
+  });
+
+  it('throws NetSuiteError when the token endpoint rejects the grant', async () => {
+    standIn.state.failWith = {
+      status: 400,
+      body: { error: 'invalid_client', error_description: 'Unknown certificate' },
+    };
+    const manager = new OAuth2TokenManager(config, '1234567');
+
+    try {
+      await manager.getAccessToken();
+      expect.unreachable('Should have thrown');
+    } catch (e) {
+      expect(e).toBeInstanceOf(NetSuiteError);
+      const err = e as NetSuiteError;
+      expect(err.code).toBe('OAUTH2_TOKEN_ERROR');
+      expect(err.status).toBe(400);
+      expect(err.message).toBe('Unknown certificate');
+    }
+  });
+
+  it('sends bearer tokens through HttpTransport', async () => {
+    const transport = new HttpTransport({ auth: config, accountId: '1234567', maxRetries: 0 });
+
+    const result = await transport.request(`${baseUrl}/api`);
+    await transport.request(`${baseUrl}/api`);
+
+    expect(result.data).toEqual({ ok: true });
+    expect(standIn.state.apiAuthHeaders).toEqual(['Bearer token-1', 'Bearer token-1']);
+    expect(standIn.state.tokenRequests).toBe(1);
+  });
+
+  it('sends token requests through the client adapter', async () => {
+    const requested: string[] = [];
+    const fetchAdapter = new FetchAdapter();
+    const adapter = {
+      request: (request: AdapterRequest) => {
+        requested.push(`${request.method} ${request.url}`);
+        return fetchAdapter.request(request);
+      },
+    };
+    const transport = new HttpTransport({ auth: config, accountId: '1234567', adapter });
+
+    await transport.request(`${baseUrl}/api`);
+
+    expect(requested).toEqual([`POST ${baseUrl}/token`, `GET ${baseUrl}/api`]);
+  });
+
+  describe('behind a proxy', () => {
+    const tunnels: string[] = [];
+    // Minimal CONNECT proxy that pipes the tunnel straight through
+    const proxy = http.createServer();
+    proxy.on('connect', (req, client: Socket, head: Buffer) => {
+      tunnels.push(req.url!);
+      const [host, port] = req.url!.split(':');
+      const upstream = net.connect(Number(port), host, () => {
+        client.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+        upstream.write(head);
+        upstream.pipe(client);
+        client.pipe(upstream);
+      });
+      upstream.on('error', () => client.destroy());
+      client.on('error', () => upstream.destroy());
+    });
+    let proxyUrl: string;
+
+    beforeAll(async () => {
+      await new Promise<void>((resolve) => proxy.listen(0, '127.0.0.1', resolve));
+      proxyUrl = `http://127.0.0.1:${(proxy.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      proxy.closeAllConnections();
+      await new Promise((resolve) => proxy.close(resolve));
+    });
+
+    it('mints tokens through the configured proxy', async () => {
+      const adapter = new AxiosAdapter({ proxy: proxyUrl });
+      const manager = new OAuth2TokenManager(config, '1234567', 5000, adapter);
+      tunnels.length = 0;
+
+      await expect(manager.getAccessToken()).resolves.toBe('token-1');
+
+      expect(tunnels).toEqual([new URL(baseUrl).host]);
+      await adapter.close();
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { bypassesProxy, resolveProxy } from '../../transport/proxy.js';
+
+const NETSUITE = 'https://1234567.suitetalk.api.netsuite.com/services/rest/record/v1/customer';
+
+describe('bypassesProxy', () => {
+  it.each([
+    ['*', true],
+    ['netsuite.com', true],
+    ['.netsuite.com', true],
+    ['*.api.netsuite.com', true],
+    ['1234567.suitetalk.api.netsuite.com:443', true],
+    ['1234567.suitetalk.api.netsuite.com:8443', false],
+    ['example.com, localhost', false],
+    ['othernetsuite.com', false],
+  ])('%s → %s', (noProxy, expected) => {
+    expect(bypassesProxy(NETSUITE, noProxy)).toBe(expected);
+  });
+
+  it('matches IPv6 hosts with and without ports', () => {
+    expect(bypassesProxy('http://[::1]:8080/x', ['::1'])).toBe(true);
+    expect(bypassesProxy('http://[::1]:8080/x', ['[::1]:8080'])).toBe(true);
+    expect(bypassesProxy('http://[::1]:8080/x', ['[::1]:80'])).toBe(false);
+  });
+});
+
+describe('resolveProxy', () => {
+  const env = { HTTPS_PROXY: 'http://secure-proxy:3128', http_proxy: 'http://plain-proxy:3128' };
+
+  it('picks the environment proxy for the target protocol', () => {
+    expect(resolveProxy(NETSUITE, {}, env)).toBe('http://secure-proxy:3128');
+    expect(resolveProxy('http://localhost:8080/x', {}, env)).toBe('http://plain-proxy:3128');
+    expect(resolveProxy(NETSUITE, {}, {})).toBeUndefined();
+  });
+
+  it('prefers explicit settings over the environment', () => {
+    expect(resolveProxy(NETSUITE, { proxy: 'http://corp:8080' }, env)).toBe('http://corp:8080');
+    expect(resolveProxy(NETSUITE, { proxy: false }, env)).toBeUndefined();
+    expect(resolveProxy(NETSUITE, { noProxy: ['.netsuite.com'] }, env)).toBeUndefined();
+  });
+
+  it('honours NO_PROXY from the environment', () => {
+    expect(resolveProxy(NETSUITE, {}, { ...env, NO_PROXY: 'netsuite.com' })).toBeUndefined();
+  });
+});
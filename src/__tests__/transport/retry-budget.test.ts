@@ -0,0 +1,28 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { RetryBudget } from '../../transport/retry-budget.js';
+
+describe('RetryBudget', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('allows retries up to the budget', () => {
+    const budget = new RetryBudget({ maxRetries: 2 });
+
+    expect(budget.tryAcquire()).toBe(true);
+    expect(budget.tryAcquire()).toBe(true);
+    expect(budget.tryAcquire()).toBe(false);
+    expect(budget.getRemaining()).toBe(0);
+  });
+
+  it('replenishes after the window slides', () => {
+    vi.useFakeTimers();
+    const budget = new RetryBudget({ maxRetries: 1, windowMs: 1000 });
+
+    expect(budget.tryAcquire()).toBe(true);
+    expect(budget.tryAcquire()).toBe(false);
+
+    vi.advanceTimersByTime(1001);
+    expect(budget.tryAcquire()).toBe(true);
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi } from 'vitest';
-import { withRetry } from '../../transport/retry.js';
+import { withRetry, parseRetryAfter } from '../../transport/retry.js';
 import { NetSuiteError } from '../../types/errors.js';
 
 describe('withRetry', () => {
@@ -79,7 +79,7 @@ describe('withRetry', () => {
     await withRetry(fn, { maxRetries: 3, initialDelay: 10, onRetry });
 
     expect(onRetry).toHaveBeenCalledTimes(1);
-    expect(onRetry).toHaveBeenCalledWith(expect.any(Error), 1);
+    expect(onRetry).toHaveBeenCalledWith(expect.any(Error), 1, expect.any(Number));
   });
 
   it('respects custom shouldRetry', async () => {
@@ -93,4 +93,109 @@ describe('withRetry', () => {
     expect(fn).toHaveBeenCalledTimes(1);
     expect(shouldRetry).toHaveBeenCalledTimes(1);
   });
+
+  it('retries 429 throttling errors', async () => {
+    const error = new NetSuiteError('Too Many Requests', 429, 'CONCURRENCY_LIMIT_EXCEEDED');
+    const fn = vi.fn()
+      .mockRejectedValueOnce(error)
+      .mockResolvedValue('recovered');
+
+    const result = await withRetry(fn, { maxRetries: 3, initialDelay: 10 });
+
+    expect(result).toBe('recovered');
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('honors a server-supplied retryAfter ahead of backoff', async () => {
+    const onRetry = vi.fn();
+    const error = new NetSuiteError('Slow down', 429, 'HTTP_429', undefined, undefined, undefined, {
+      retryAfter: 25,
+    });
+    const fn = vi.fn()
+      .mockRejectedValueOnce(error)
+      .mockResolvedValue('ok');
+
+    await withRetry(fn, { maxRetries: 1, initialDelay: 5000, onRetry });
+
+    expect(onRetry).toHaveBeenCalledWith(error, 1, 25);
+  });
+
+  it('surfaces the error when Retry-After exceeds maxDelay', async () => {
+    const onRetry = vi.fn();
+    const error = new NetSuiteError('Slow down', 429, 'HTTP_429', undefined, undefined, undefined, {
+      retryAfter: 3_600_000,
+    });
+    const fn = vi.fn().mockRejectedValue(error);
+
+    await expect(withRetry(fn, { maxRetries: 3, maxDelay: 30_000, onRetry })).rejects.toBe(error);
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(onRetry).not.toHaveBeenCalled();
+  });
+
+  it('surfaces the error when the retry delay would pass the deadline', async () => {
+    const error = new NetSuiteError('Slow down', 429, 'HTTP_429', undefined, undefined, undefined, {
+      retryAfter: 5_000,
+    });
+    const fn = vi.fn().mockRejectedValue(error);
+
+    await expect(
+      withRetry(fn, { maxRetries: 3, deadline: Date.now() + 1_000 }),
+    ).rejects.toBe(error);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('caps backoff delays at maxDelay plus jitter', async () => {
+    const onRetry = vi.fn();
+    const fn = vi.fn()
+      .mockRejectedValueOnce(new Error('fail'))
+      .mockResolvedValue('ok');
+
+    await withRetry(fn, { maxRetries: 1, initialDelay: 100, maxDelay: 20, onRetry });
+
+    const delay = onRetry.mock.calls[0][2];
+    expect(delay).toBeGreaterThanOrEqual(15);
+    expect(delay).toBeLessThanOrEqual(25);
+  });
+});
+
+describe('withRetry cancellation', () => {
+  it('does not start when the signal is already aborted', async () => {
+    const fn = vi.fn().mockResolvedValue('never');
+    await expect(
+      withRetry(fn, { signal: AbortSignal.abort(new Error('cancelled')) }),
+    ).rejects.toThrow('cancelled');
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it('cancels the backoff sleep when aborted', async () => {
+    const controller = new AbortController();
+    const fn = vi.fn().mockRejectedValue(new Error('fail'));
+
+    const pending = withRetry(fn, {
+      maxRetries: 3,
+      initialDelay: 60_000,
+      signal: controller.signal,
+      onRetry: () => controller.abort(new Error('cancelled')),
+    });
+
+    await expect(pending).rejects.toThrow('cancelled');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('parses delta-seconds', () => {
+    expect(parseRetryAfter('3')).toBe(3000);
+  });
+
+  it('parses HTTP dates relative to now', () => {
+    const now = Date.parse('Wed, 21 Oct 2026 07:28:00 GMT');
+    expect(parseRetryAfter('Wed, 21 Oct 2026 07:28:05 GMT', now)).toBe(5000);
+    expect(parseRetryAfter('Wed, 21 Oct 2026 07:27:00 GMT', now)).toBe(0);
+  });
+
+  it('returns undefined for missing or malformed values', () => {
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
 });
@@ -0,0 +1,60 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtemp, rm, stat } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { MemoryTokenStore, FileTokenStore } from '../../transport/token-store.js';
+
+const tokens = {
+  accessToken: 'access',
+  refreshToken: 'refresh',
+  expiresAt: 1_700_000_000_000,
+};
+
+describe('MemoryTokenStore', () => {
+  it('stores, returns and clears tokens', async () => {
+    const store = new MemoryTokenStore();
+    expect(await store.get()).toBeNull();
+
+    await store.set(tokens);
+    expect(await store.get()).toEqual(tokens);
+
+    await store.clear();
+    expect(await store.get()).toBeNull();
+  });
+
+  it('accepts initial tokens', async () => {
+    expect(await new MemoryTokenStore(tokens).get()).toEqual(tokens);
+  });
+});
+
+describe('FileTokenStore', () => {
+  let dir: string | undefined;
+
+  afterEach(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true });
+  });
+
+  it('returns null when the file does not exist', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'ns-tokens-'));
+    const store = new FileTokenStore(join(dir, 'tokens.json'));
+    expect(await store.get()).toBeNull();
+  });
+
+  it('persists tokens across instances with owner-only permissions', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'ns-tokens-'));
+    const path = join(dir, 'nested', 'tokens.json');
+
+    await new FileTokenStore(path).set(tokens);
+
+    expect(await new FileTokenStore(path).get()).toEqual(tokens);
+    expect((await stat(path)).mode & 0o777).toBe(0o600);
+  });
+
+  it('deletes the file on clear()', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'ns-tokens-'));
+    const store = new FileTokenStore(join(dir, 'tokens.json'));
+    await store.set(tokens);
+    await store.clear();
+    expect(await store.get()).toBeNull();
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { assertWriteAllowed, isSandboxAccount } from '../../transport/write-guard.js';
+import { NetSuiteStandIn } from '../../testing/stand-in.js';
+import { NetSuiteClient } from '../../client.js';
+import type { WriteGuardOptions } from '../../transport/write-guard.js';
+
+const RECORD_URL = 'https://1234567.suitetalk.api.netsuite.com/services/rest/record/v1';
+const SUITEQL_URL = 'https://1234567.suitetalk.api.netsuite.com/services/rest/query/v1/suiteql';
+
+describe('isSandboxAccount', () => {
+  it('recognizes sandbox suffixes in either format', () => {
+    expect(isSandboxAccount('1234567_SB1')).toBe(true);
+    expect(isSandboxAccount('1234567-sb2')).toBe(true);
+    expect(isSandboxAccount('1234567')).toBe(false);
+    expect(isSandboxAccount('1234567_RP')).toBe(false);
+  });
+});
+
+describe('assertWriteAllowed', () => {
+  const check = (url: string, method: 'GET' | 'POST' | 'PATCH', options: WriteGuardOptions) =>
+    assertWriteAllowed(url, method, '1234567', options);
+
+  it('lets reads and SuiteQL queries through a read-only guard', () => {
+    expect(() => check(`${RECORD_URL}/customer/1`, 'GET', { readOnly: true })).not.toThrow();
+    expect(() => check(SUITEQL_URL, 'POST', { readOnly: true })).not.toThrow();
+  });
+
+  it('refuses writes in read-only mode without sending them', () => {
+    expect(() => check(`${RECORD_URL}/customer/1`, 'PATCH', { readOnly: true })).toThrow(
+      expect.objectContaining({ code: 'READ_ONLY', status: 0, requestSent: false }),
+    );
+  });
+
+  it('allows only listed record types, ignoring case', () => {
+    const options = { mutableRecordTypes: ['salesOrder'] };
+    expect(() => check(`${RECORD_URL}/salesorder/1`, 'PATCH', options)).not.toThrow();
+    expect(() => check(`${RECORD_URL}/customer/1`, 'PATCH', options)).toThrow(
+      expect.objectContaining({ code: 'RECORD_TYPE_NOT_MUTABLE' }),
+    );
+  });
+
+  it('checks the record type a transform creates, not its source', () => {
+    const options = { mutableRecordTypes: ['Invoice'] };
+    const transform = (target: string) => `${RECORD_URL}/salesOrder/1/!transform/${target}`;
+    expect(() => check(transform('invoice'), 'POST', options)).not.toThrow();
+    expect(() => check(transform('itemFulfillment'), 'POST', options)).toThrow(
+      expect.objectContaining({ code: 'RECORD_TYPE_NOT_MUTABLE' }),
+    );
+  });
+
+  it('requires the production account to be confirmed by ID', () => {
+    const url = `${RECORD_URL}/customer`;
+    expect(() => check(url, 'POST', { requireProductionConfirmation: true })).toThrow(
+      expect.objectContaining({ code: 'PRODUCTION_NOT_CONFIRMED' }),
+    );
+    expect(() =>
+      check(url, 'POST', { requireProductionConfirmation: true, confirmProduction: '1234567' }),
+    ).not.toThrow();
+    expect(() =>
+      assertWriteAllowed(url, 'POST', '1234567_SB1', { requireProductionConfirmation: true }),
+    ).not.toThrow();
+  });
+});
+
+describe('NetSuiteClient with a write guard', () => {
+  function createClient(guard: WriteGuardOptions) {
+    const standIn = new NetSuiteStandIn({
+      records: { customer: [{ id: '1', companyName: 'Acme' }] },
+    });
+    const client = new NetSuiteClient({
+      auth: { authorize: async () => ({}) },
+      accountId: '1234567',
+      adapter: standIn.adapter(),
+      guard,
+    });
+    return { standIn, client };
+  }
+
+  it('blocks record, raw and RESTlet writes before they reach NetSuite', async () => {
+    const { standIn, client } = createClient({ readOnly: true });
+
+    await expect(client.records.delete('customer', 1)).rejects.toMatchObject({ code: 'READ_ONLY' });
+    await expect(client.post(`${RECORD_URL}/customer`, {})).rejects.toMatchObject({
+      code: 'READ_ONLY',
+    });
+    await expect(
+      client.restlets.call({ script: 1, deploy: 1 }, { method: 'POST', body: {} }),
+    ).rejects.toMatchObject({ code: 'READ_ONLY' });
+    expect(standIn.requests).toHaveLength(0);
+
+    await client.records.get('customer', 1);
+    await client.suiteql.query('SELECT id FROM customer');
+    expect(standIn.requests).toHaveLength(2);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ConcurrencyLimiter } from '../../utils/concurrency-limiter.js';
+import { NetSuiteError } from '../../types/errors.js';
+
+describe('ConcurrencyLimiter', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('rejects a non-positive maxConcurrent', () => {
+    expect(() => new ConcurrencyLimiter({ maxConcurrent: 0 })).toThrow(RangeError);
+  });
+
+  it('grants slots immediately while under the limit', async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrent: 2 });
+    await limiter.acquire();
+    await limiter.acquire();
+
+    const stats = limiter.getStats();
+    expect(stats.active).toBe(2);
+    expect(stats.queued).toBe(0);
+    expect(stats.totalAcquired).toBe(2);
+  });
+
+  it('queues requests beyond the limit in FIFO order', async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrent: 1 });
+    const order: number[] = [];
+
+    const release = await limiter.acquire();
+    const first = limiter.acquire().then((r) => { order.push(1); return r; });
+    const second = limiter.acquire().then((r) => { order.push(2); return r; });
+
+    expect(limiter.getStats().queued).toBe(2);
+
+    release();
+    (await first)();
+    (await second)();
+
+    expect(order).toEqual([1, 2]);
+    expect(limiter.getStats()).toMatchObject({ active: 0, queued: 0, peakQueued: 2, totalQueued: 2 });
+  });
+
+  it('ignores repeated release calls', async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrent: 2 });
+    const release = await limiter.acquire();
+    await limiter.acquire();
+
+    release();
+    release();
+
+    expect(limiter.getStats().active).toBe(1);
+  });
+
+  it('rejects when the queue is full', async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrent: 1, maxQueueSize: 1 });
+    await limiter.acquire();
+    void limiter.acquire();
+
+    await expect(limiter.acquire()).rejects.toMatchObject({ code: 'CONCURRENCY_QUEUE_FULL' });
+    expect(limiter.getStats().totalRejected).toBe(1);
+  });
+
+  it('times out requests that wait too long', async () => {
+    vi.useFakeTimers();
+    const limiter = new ConcurrencyLimiter({ maxConcurrent: 1, queueTimeout: 100 });
+    await limiter.acquire();
+
+    const waiting = limiter.acquire();
+    vi.advanceTimersByTime(100);
+
+    await expect(waiting).rejects.toBeInstanceOf(NetSuiteError);
+    await expect(waiting).rejects.toMatchObject({ code: 'CONCURRENCY_QUEUE_TIMEOUT' });
+    expect(limiter.getStats()).toMatchObject({ queued: 0, totalTimedOut: 1 });
+  });
+
+  it('tracks wait times for queued requests', async () => {
+    vi.useFakeTimers();
+    const limiter = new ConcurrencyLimiter({ maxConcurrent: 1 });
+    const release = await limiter.acquire();
+
+    const waiting = limiter.acquire();
+    vi.advanceTimersByTime(200);
+    release();
+    await waiting;
+
+    const stats = limiter.getStats();
+    expect(stats.maxWaitMs).toBe(200);
+    expect(stats.averageWaitMs).toBe(100);
+  });
+
+  it('run() releases the slot when the task throws', async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrent: 1 });
+
+    await expect(limiter.run(async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+    await expect(limiter.run(async () => 'ok')).resolves.toBe('ok');
+    expect(limiter.getStats().active).toBe(0);
+  });
+
+  it('removes a queued request when its signal aborts', async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrent: 1 });
+    const controller = new AbortController();
+    await limiter.acquire();
+
+    const waiting = limiter.acquire(controller.signal);
+    controller.abort(new Error('gave up'));
+
+    await expect(waiting).rejects.toThrow('gave up');
+    expect(limiter.getStats().queued).toBe(0);
+  });
+
+  it('rejects immediately for an already-aborted signal', async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrent: 1 });
+    await expect(limiter.acquire(AbortSignal.abort(new Error('no')))).rejects.toThrow('no');
+    expect(limiter.getStats().active).toBe(0);
+  });
+});
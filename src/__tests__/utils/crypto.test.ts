@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { createHmac, generateKeyPairSync, verify, constants } from 'node:crypto';
+import {
+  hmacSha256Base64,
+  webHmacSha256Base64,
+  sha256Base64Url,
+  signJws,
+  webSignJws,
+  toBase64Url,
+} from '../../utils/crypto.js';
+
+const rsa = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const ec = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+const pem = (key: typeof rsa.privateKey) => key.export({ type: 'pkcs8', format: 'pem' }).toString();
+
+describe('crypto helpers', () => {
+  it('computes the same HMAC with node:crypto and Web Crypto', async () => {
+    const expected = createHmac('sha256', 'key&secret').update('GET&base').digest('base64');
+    expect(await hmacSha256Base64('key&secret', 'GET&base')).toBe(expected);
+    expect(await webHmacSha256Base64('key&secret', 'GET&base')).toBe(expected);
+  });
+
+  it('hashes to base64url', async () => {
+    expect(await sha256Base64Url('abc')).toBe('ungWv48Bz-pBQUDeXa4iI7ADYaOWF3qctBD_YfIAFa0');
+  });
+
+  it('encodes base64url without padding', () => {
+    expect(toBase64Url(new Uint8Array([251, 255]))).toBe('-_8');
+  });
+
+  it.each([
+    ['node:crypto', signJws],
+    ['Web Crypto', webSignJws],
+  ])('signs PS256 and ES256 with %s', async (_name, sign) => {
+    const input = 'header.payload';
+
+    const ps = await sign(input, pem(rsa.privateKey), 'PS256');
+    expect(
+      verify(
+        'sha256',
+        Buffer.from(input),
+        { key: rsa.publicKey, padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: 32 },
+        Buffer.from(ps, 'base64url'),
+      ),
+    ).toBe(true);
+
+    const es = await sign(input, pem(ec.privateKey), 'ES256');
+    expect(
+      verify(
+        'sha256',
+        Buffer.from(input),
+        { key: ec.publicKey, dsaEncoding: 'ieee-p1363' },
+        Buffer.from(es, 'base64url'),
+      ),
+    ).toBe(true);
+  });
+});
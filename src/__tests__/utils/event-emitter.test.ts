@@ -0,0 +1,71 @@
+import { describe, it, expect, vi } from 'vitest';
+import { TypedEventEmitter } from '../../utils/event-emitter.js';
+
+interface Events {
+  ping: { n: number };
+  pong: string;
+}
+
+describe('TypedEventEmitter', () => {
+  it('calls listeners in registration order', () => {
+    const emitter = new TypedEventEmitter<Events>();
+    const calls: string[] = [];
+    emitter
+      .on('ping', ({ n }) => void calls.push(`a${n}`))
+      .on('ping', ({ n }) => void calls.push(`b${n}`));
+
+    emitter.emit('ping', { n: 1 });
+
+    expect(calls).toEqual(['a1', 'b1']);
+  });
+
+  it('removes once listeners after the first call, and off() removes listeners', () => {
+    const emitter = new TypedEventEmitter<Events>();
+    const once = vi.fn();
+    const always = vi.fn();
+    emitter.once('pong', once).on('pong', always);
+
+    emitter.emit('pong', 'x');
+    emitter.off('pong', always);
+    emitter.emit('pong', 'y');
+
+    expect(once).toHaveBeenCalledTimes(1);
+    expect(always).toHaveBeenCalledTimes(1);
+    expect(emitter.listenerCount('pong')).toBe(0);
+  });
+
+  it('off() removes a once listener that has not fired yet', () => {
+    const emitter = new TypedEventEmitter<Events>();
+    const once = vi.fn();
+    emitter.once('pong', once);
+
+    emitter.off('pong', once);
+    emitter.emit('pong', 'x');
+
+    expect(once).not.toHaveBeenCalled();
+    expect(emitter.listenerCount('pong')).toBe(0);
+  });
+
+  it('isolates throwing and rejecting listeners', async () => {
+    const onListenerError = vi.fn();
+    const emitter = new TypedEventEmitter<Events>(onListenerError);
+    const after = vi.fn();
+    emitter
+      .on('pong', () => {
+        throw new Error('sync');
+      })
+      .on('pong', async () => {
+        throw new Error('async');
+      })
+      .on('pong', after);
+
+    expect(() => emitter.emit('pong', 'x')).not.toThrow();
+    await Promise.resolve();
+
+    expect(after).toHaveBeenCalledWith('x');
+    expect(onListenerError.mock.calls.map(([error, event]) => [error.message, event])).toEqual([
+      ['sync', 'pong'],
+      ['async', 'pong'],
+    ]);
+  });
+});
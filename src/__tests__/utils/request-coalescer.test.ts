@@ -0,0 +1,122 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RequestCoalescer } from '../../utils/request-coalescer.js';
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+describe('RequestCoalescer', () => {
+  it('runs identical concurrent calls once', async () => {
+    const coalescer = new RequestCoalescer();
+    const pending = deferred<{ id: number }>();
+    const execute = vi.fn(() => pending.promise);
+
+    const first = coalescer.run('a', execute);
+    const second = coalescer.run('a', execute);
+    expect(coalescer.size).toBe(1);
+
+    pending.resolve({ id: 1 });
+    expect(await first).toEqual({ id: 1 });
+    expect(await second).toEqual({ id: 1 });
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(coalescer.size).toBe(0);
+  });
+
+  it('gives joining callers their own copy of the result', async () => {
+    const coalescer = new RequestCoalescer();
+    const first = coalescer.run('a', async () => ({ tags: ['x'] }));
+    const second = coalescer.run('a', async () => ({ tags: ['unused'] }));
+
+    const [a, b] = await Promise.all([first, second]);
+    a.tags.push('y');
+    expect(b.tags).toEqual(['x']);
+  });
+
+  it('runs different keys separately', async () => {
+    const coalescer = new RequestCoalescer();
+    const execute = vi.fn(async () => 1);
+
+    await Promise.all([coalescer.run('a', execute), coalescer.run('b', execute)]);
+    expect(execute).toHaveBeenCalledTimes(2);
+  });
+
+  it('starts a new call once the previous one settled', async () => {
+    const coalescer = new RequestCoalescer();
+    const execute = vi.fn(async () => 1);
+
+    await coalescer.run('a', execute);
+    await coalescer.run('a', execute);
+    expect(execute).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects every caller with the shared error', async () => {
+    const coalescer = new RequestCoalescer();
+    const error = new Error('boom');
+    const pending = deferred<number>();
+
+    const first = coalescer.run('a', () => pending.promise);
+    const second = coalescer.run('a', () => pending.promise);
+    pending.reject(error);
+
+    await expect(first).rejects.toBe(error);
+    await expect(second).rejects.toBe(error);
+    expect(coalescer.size).toBe(0);
+  });
+
+  it('lets one caller abort without failing the others', async () => {
+    const coalescer = new RequestCoalescer();
+    const pending = deferred<number>();
+    let sharedSignal!: AbortSignal;
+    const controller = new AbortController();
+
+    const first = coalescer.run('a', (signal) => {
+      sharedSignal = signal;
+      return pending.promise;
+    });
+    const second = coalescer.run('a', () => pending.promise, controller.signal);
+
+    controller.abort(new Error('gave up'));
+    await expect(second).rejects.toThrow('gave up');
+    expect(sharedSignal.aborted).toBe(false);
+
+    pending.resolve(7);
+    expect(await first).toBe(7);
+  });
+
+  it('aborts the shared call once every caller has aborted', async () => {
+    const coalescer = new RequestCoalescer();
+    let sharedSignal!: AbortSignal;
+    const a = new AbortController();
+    const b = new AbortController();
+    const execute = (signal: AbortSignal) => {
+      sharedSignal = signal;
+      return new Promise<number>(() => {});
+    };
+
+    const first = coalescer.run('a', execute, a.signal);
+    const second = coalescer.run('a', execute, b.signal);
+    a.abort(new Error('a'));
+    b.abort(new Error('b'));
+
+    await expect(first).rejects.toThrow('a');
+    await expect(second).rejects.toThrow('b');
+    expect(sharedSignal.aborted).toBe(true);
+    expect(coalescer.size).toBe(0);
+  });
+
+  it('rejects straight away when the signal is already aborted', async () => {
+    const coalescer = new RequestCoalescer();
+    const execute = vi.fn(async () => 1);
+
+    await expect(
+      coalescer.run('a', execute, AbortSignal.abort(new Error('early'))),
+    ).rejects.toThrow('early');
+    expect(execute).not.toHaveBeenCalled();
+  });
+});
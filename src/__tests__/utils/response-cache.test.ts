@@ -54,6 +54,27 @@ describe('ResponseCache', () => {
     cache.set('key1', 'value', 60);
     expect(cache.size).toBe(1);
   });
+
+  it('drops the least recently used entry beyond maxEntries', () => {
+    const bounded = new ResponseCache({ maxEntries: 2 });
+    bounded.set('a', 1, 60);
+    bounded.set('b', 2, 60);
+    bounded.get('a');
+    bounded.set('c', 3, 60);
+
+    expect(bounded.get('a')).toBe(1);
+    expect(bounded.get('b')).toBeNull();
+    expect(bounded.get('c')).toBe(3);
+  });
+
+  it('prunes expired entries without reading them', () => {
+    cache.set('short', 1, 1);
+    cache.set('long', 2, 60);
+    vi.advanceTimersByTime(2000);
+
+    expect(cache.prune()).toBe(1);
+    expect(cache.size).toBe(1);
+  });
 });
 
 describe('createCacheKey', () => {
@@ -3,6 +3,7 @@ import {
   normalizeAccountId,
   buildSuiteTalkUrl,
   buildRestletUrl,
+  describeEndpoint,
 } from '../../utils/url-builder.js';
 
 describe('normalizeAccountId', () => {
@@ -40,3 +41,47 @@ describe('buildRestletUrl', () => {
     );
   });
 });
+
+const SUITETALK = 'https://1234567.suitetalk.api.netsuite.com';
+
+describe('describeEndpoint', () => {
+  it('extracts record type and ID from REST Record URLs', () => {
+    const url =
+      'https://1234567-sb1.suitetalk.api.netsuite.com/services/rest/record/v1/customer/eid%3AC-1';
+    expect(describeEndpoint(`${url}?fields=id`)).toEqual({
+      api: 'record',
+      accountId: '1234567_SB1',
+      recordType: 'customer',
+      recordId: 'eid:C-1',
+    });
+  });
+
+  it('classifies metadata catalog URLs apart from records', () => {
+    const catalog = `${SUITETALK}/services/rest/record/v1/metadata-catalog`;
+    expect(describeEndpoint(`${catalog}?select=customer`)).toEqual({
+      api: 'metadata',
+      accountId: '1234567',
+    });
+    expect(describeEndpoint(`${catalog}/salesorder`)).toEqual({
+      api: 'metadata',
+      accountId: '1234567',
+      recordType: 'salesorder',
+    });
+  });
+
+  it('classifies SuiteQL, RESTlet and other URLs', () => {
+    expect(describeEndpoint(`${SUITETALK}/services/rest/query/v1/suiteql?limit=5`)).toEqual({
+      api: 'suiteql',
+      accountId: '1234567',
+    });
+    expect(
+      describeEndpoint(
+        'https://1234567.restlets.api.netsuite.com/app/site/hosting/restlet.nl?script=1',
+      ),
+    ).toEqual({ api: 'restlet', accountId: '1234567' });
+    expect(describeEndpoint('https://example.com/api')).toEqual({
+      api: 'other',
+      accountId: undefined,
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import type { CacheEntry, CacheStore } from '../types/cache.js';
+
+export interface MemoryCacheStoreOptions {
+  /** Most entries kept, dropping the least recently used. Default: 1000 */
+  maxEntries?: number;
+}
+
+/**
+ * Keeps entries in process memory, least recently used first out. Expired
+ * entries are swept on every write, so they don't pile up between reads.
+ * Values are cloned on the way in and out, so callers can't change what
+ * others read.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>();
+  private maxEntries: number;
+
+  constructor(options: MemoryCacheStoreOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 1000;
+    if (this.maxEntries < 1) {
+      throw new RangeError(`maxEntries must be at least 1, got ${this.maxEntries}`);
+    }
+  }
+
+  /** Number of entries held, including stale ones not yet swept */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (Date.now() > entry.staleUntil) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    // Re-insert so the map stays ordered from least to most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return structuredClone(entry);
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, structuredClone(entry));
+    this.prune();
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async invalidateTags(tags: string[]): Promise<void> {
+    for (const [key, entry] of this.entries) {
+      if (entry.tags?.some((tag) => tags.includes(tag))) this.entries.delete(key);
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  /** Drop entries past `staleUntil`. Returns how many were dropped. */
+  prune(): number {
+    const now = Date.now();
+    let pruned = 0;
+    for (const [key, entry] of this.entries) {
+      if (now > entry.staleUntil) {
+        this.entries.delete(key);
+        pruned++;
+      }
+    }
+    return pruned;
+  }
+}
+
+/**
+ * Keeps entries in one JSON file, so several processes on a machine share a
+ * cache; it stands in for a shared store such as Redis. Every operation
+ * reads and rewrites the whole file, so keep it small. The file is written
+ * with owner-only permissions since it holds response bodies.
+ */
+export class FileCacheStore implements CacheStore {
+  private path: string;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entries = await this.read();
+    const entry = entries[key];
+    return entry && Date.now() <= entry.staleUntil ? entry : undefined;
+  }
+
+  set(key: string, entry: CacheEntry): Promise<void> {
+    return this.update((entries) => {
+      entries[key] = entry;
+    });
+  }
+
+  delete(key: string): Promise<void> {
+    return this.update((entries) => {
+      delete entries[key];
+    });
+  }
+
+  invalidateTags(tags: string[]): Promise<void> {
+    return this.update((entries) => {
+      for (const [key, entry] of Object.entries(entries)) {
+        if (entry.tags?.some((tag) => tags.includes(tag))) delete entries[key];
+      }
+    });
+  }
+
+  async clear(): Promise<void> {
+    await this.enqueue(async () => {
+      const { rm } = await import('node:fs/promises');
+      await rm(this.path, { force: true });
+    });
+  }
+
+  private async read(): Promise<Record<string, CacheEntry>> {
+    try {
+      const { readFile } = await import('node:fs/promises');
+      return JSON.parse(await readFile(this.path, 'utf8')) as Record<string, CacheEntry>;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+      throw error;
+    }
+  }
+
+  /** Read, change and rewrite the file, dropping expired entries on the way */
+  private async update(change: (entries: Record<string, CacheEntry>) => void): Promise<void> {
+    await this.enqueue(async () => {
+      const entries = await this.read();
+      change(entries);
+      const now = Date.now();
+      for (const [key, entry] of Object.entries(entries)) {
+        if (now > entry.staleUntil) delete entries[key];
+      }
+
+      const { writeFile, mkdir, rename } = await import('node:fs/promises');
+      const { dirname } = await import('node:path');
+      await mkdir(dirname(this.path), { recursive: true });
+      // Write aside and rename so readers never see a half-written file
+      const temporary = `${this.path}.${process.pid}.tmp`;
+      await writeFile(temporary, JSON.stringify(entries), { mode: 0o600 });
+      await rename(temporary, this.path);
+    });
+  }
+
+  /** Run writes one at a time so concurrent updates don't overwrite each other */
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => {});
+    return run;
+  }
+}
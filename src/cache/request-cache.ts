@@ -0,0 +1,130 @@
+import { MemoryCacheStore } from './cache-store.js';
+import type { CacheEntry, CachePolicy, CacheStore, RequestCacheOptions } from '../types/cache.js';
+import type { NetSuiteApi } from '../utils/url-builder.js';
+
+/**
+ * Tag shared by a record's cached responses, or a record type's lists
+ * without `recordId`. Record types are case-insensitive in NetSuite URLs.
+ */
+export function recordCacheTag(
+  accountId: string | undefined,
+  recordType: string,
+  recordId?: string,
+): string {
+  const type = `record:${accountId ?? ''}:${recordType.toLowerCase()}`;
+  return recordId === undefined ? type : `${type}/${recordId}`;
+}
+
+/**
+ * Response cache shared by the transport and the SuiteQL client. Each API
+ * family is cached only when it has a policy. Fresh entries are served
+ * as is; stale ones within `staleWhileRevalidate` are served while one
+ * background request refreshes them.
+ *
+ * Store failures never fail a request: reads fall back to NetSuite and
+ * the error goes to `onError`.
+ */
+export class RequestCache {
+  readonly store: CacheStore;
+  private policies: Partial<Record<NetSuiteApi, CachePolicy>>;
+  private onError?: (error: unknown) => void;
+  private revalidating = new Set<string>();
+  // Bumped on every invalidation so responses fetched before it aren't stored after it
+  private generation = 0;
+
+  constructor(options: RequestCacheOptions = {}) {
+    this.store = options.store ?? new MemoryCacheStore({ maxEntries: options.maxEntries });
+    this.policies = { record: options.record, suiteql: options.suiteql, restlet: options.restlet };
+    this.onError = options.onError;
+  }
+
+  /** The policy for an API family, or undefined when it isn't cached */
+  policyFor(api: NetSuiteApi): CachePolicy | undefined {
+    return this.policies[api];
+  }
+
+  /**
+   * Serve `key` from the cache, or `load` it and store the result.
+   * `load(true)` is a background refresh of a stale entry, which must not
+   * be tied to the original caller's signal.
+   */
+  async fetch<T>(
+    api: NetSuiteApi,
+    key: string,
+    load: (background: boolean) => Promise<T>,
+    tags?: string[],
+  ): Promise<T> {
+    const policy = this.policies[api];
+    if (!policy) return load(false);
+
+    let entry: CacheEntry | undefined;
+    try {
+      entry = await this.store.get(key);
+    } catch (error) {
+      this.onError?.(error);
+    }
+
+    const now = Date.now();
+    if (entry && now <= entry.expiresAt) return entry.value as T;
+    if (entry && now <= entry.staleUntil) {
+      this.revalidate(key, policy, load, tags);
+      return entry.value as T;
+    }
+    return this.loadAndStore(key, policy, () => load(false), tags);
+  }
+
+  /** Drop every entry carrying any of the tags */
+  async invalidate(tags: string[]): Promise<void> {
+    this.generation++;
+    try {
+      await this.store.invalidateTags(tags);
+    } catch (error) {
+      this.onError?.(error);
+    }
+  }
+
+  /** Drop every entry */
+  async clear(): Promise<void> {
+    this.generation++;
+    await this.store.clear();
+  }
+
+  private async loadAndStore<T>(
+    key: string,
+    policy: CachePolicy,
+    load: () => Promise<T>,
+    tags?: string[],
+  ): Promise<T> {
+    const generation = this.generation;
+    const value = await load();
+    if (generation !== this.generation) return value;
+
+    const expiresAt = Date.now() + policy.ttl;
+    const entry: CacheEntry = {
+      value,
+      expiresAt,
+      staleUntil: expiresAt + (policy.staleWhileRevalidate ?? 0),
+      ...(tags?.length && { tags }),
+    };
+    try {
+      await this.store.set(key, entry);
+    } catch (error) {
+      this.onError?.(error);
+    }
+    return value;
+  }
+
+  /** Refresh a stale entry in the background, once per key at a time */
+  private revalidate<T>(
+    key: string,
+    policy: CachePolicy,
+    load: (background: boolean) => Promise<T>,
+    tags?: string[],
+  ): void {
+    if (this.revalidating.has(key)) return;
+    this.revalidating.add(key);
+    this.loadAndStore(key, policy, () => load(true), tags)
+      .catch((error) => this.onError?.(error))
+      .finally(() => this.revalidating.delete(key));
+  }
+}
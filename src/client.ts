@@ -1,11 +1,24 @@
 import { HttpTransport } from './transport/http-transport.js';
 import { SuiteQLClient } from './suiteql/suiteql-client.js';
 import { RecordClient } from './records/record-client.js';
+import { MetadataClient } from './records/metadata-client.js';
 import { RestletClient } from './restlets/restlet-client.js';
-import { validateConfig } from './utils/validation.js';
-import type { NetSuiteConfig } from './types/config.js';
+import { checkConfig, validateConfig } from './utils/validation.js';
+import {
+  configFromEnv,
+  loadProfile,
+  type EnvConfigOptions,
+  type ProfileOptions,
+} from './utils/config-loader.js';
+import type { AuthConfig, NetSuiteConfig } from './types/config.js';
+import type { AuthProvider } from './types/auth.js';
 import type { RequestOptions, NetSuiteResponse } from './types/http.js';
-import type { Middleware } from './types/middleware.js';
+import type { Middleware, MiddlewareOptions } from './types/middleware.js';
+import type { MiddlewareStack } from './transport/middleware-stack.js';
+import type { MutationPlan } from './dry-run/mutation-plan.js';
+import type { ConcurrencyStats } from './utils/concurrency-limiter.js';
+import type { EventListener } from './utils/event-emitter.js';
+import type { NetSuiteEvents } from './types/events.js';
 
 /**
  * Main NetSuite API client.
@@ -45,29 +58,178 @@ export class NetSuiteClient {
   /** REST Record API CRUD */
   public readonly records: RecordClient;
 
+  /** Record type catalog and field schemas */
+  public readonly metadata: MetadataClient;
+
   /** RESTlet caller */
   public readonly restlets: RestletClient;
 
   private readonly transport: HttpTransport;
+  private config: NetSuiteConfig;
 
   constructor(config: NetSuiteConfig) {
-    const errors = validateConfig(config);
+    const { errors, warnings } = checkConfig(config);
     if (errors.length > 0) {
       throw new Error(`Invalid NetSuite configuration:\n  - ${errors.join('\n  - ')}`);
     }
+    for (const warning of warnings) {
+      config.logger?.warn(`NetSuite configuration: ${warning}`);
+    }
 
+    this.config = config;
     this.transport = new HttpTransport(config);
-    this.suiteql = new SuiteQLClient(this.transport, config.accountId);
+    this.suiteql = new SuiteQLClient(
+      this.transport,
+      config.accountId,
+      config.metrics,
+      this.transport.events,
+      this.transport.coalescer,
+      this.transport.cache,
+    );
     this.records = new RecordClient(this.transport, config.accountId);
+    this.metadata = new MetadataClient(this.transport, config.accountId, config.metadata);
     this.restlets = new RestletClient(this.transport, config.accountId);
   }
 
-  /** Add middleware to all requests. Returns `this` for chaining. */
-  use(middleware: Middleware): this {
-    this.transport.use(middleware);
+  /**
+   * Create a client from `NETSUITE_*` environment variables (see `configFromEnv`).
+   * `overrides` supplies everything that can't come from the environment,
+   * such as a logger or metrics sink.
+   *
+   * @example
+   * ```ts
+   * const client = NetSuiteClient.fromEnv({ logger });
+   * ```
+   */
+  static fromEnv(
+    overrides: Partial<NetSuiteConfig> = {},
+    options: EnvConfigOptions = {},
+  ): NetSuiteClient {
+    const config = configFromEnv({
+      onWarning: (message) => overrides.logger?.warn(message),
+      ...options,
+    });
+    return new NetSuiteClient({ ...config, ...overrides });
+  }
+
+  /**
+   * Create a client from a named profile in `~/.netsuite/credentials`
+   * (default: `$NETSUITE_PROFILE`, else `default`).
+   *
+   * @example
+   * ```ts
+   * const sandbox = await NetSuiteClient.fromProfile('sb1', { logger });
+   * ```
+   */
+  static async fromProfile(
+    profile?: string,
+    overrides: Partial<NetSuiteConfig> = {},
+    options: ProfileOptions = {},
+  ): Promise<NetSuiteClient> {
+    const config = await loadProfile(profile, {
+      onWarning: (message) => overrides.logger?.warn(message),
+      ...options,
+    });
+    return new NetSuiteClient({ ...config, ...overrides });
+  }
+
+  /**
+   * Add middleware to all requests. Returns `this` for chaining.
+   *
+   * @example
+   * ```ts
+   * client
+   *   .use(cacheMiddleware, { name: 'cache', scope: 'request' })
+   *   .use(auditMiddleware, { name: 'audit', before: 'cache' });
+   * ```
+   */
+  use(middleware: Middleware, options?: MiddlewareOptions): this {
+    this.transport.use(middleware, options);
     return this;
   }
 
+  /** Account this client talks to */
+  get accountId(): string {
+    return this.config.accountId;
+  }
+
+  /** Writes captured so far, when the client is in dry-run mode */
+  get dryRun(): MutationPlan | undefined {
+    return this.transport.dryRun;
+  }
+
+  /** Registered middleware, for removal (`client.middleware.remove('cache')`) and inspection */
+  get middleware(): MiddlewareStack {
+    return this.transport.middleware;
+  }
+
+  /**
+   * Subscribe to lifecycle events. Unlike middleware, which wraps a single
+   * attempt, events cover the whole request: retries, final outcomes, SuiteQL
+   * pages and record writes. Every event carries a correlation ID.
+   *
+   * @example
+   * ```ts
+   * client
+   *   .on('request:retry', (e) => console.warn(`${e.requestId}: retry in ${e.delay}ms`))
+   *   .on('record:mutated', (e) => audit.write(e.operation, e.recordType, e.recordId));
+   * ```
+   */
+  on<K extends keyof NetSuiteEvents>(event: K, listener: EventListener<NetSuiteEvents[K]>): this {
+    this.transport.events.on(event, listener);
+    return this;
+  }
+
+  /** Subscribe to the next occurrence of an event only. */
+  once<K extends keyof NetSuiteEvents>(
+    event: K,
+    listener: EventListener<NetSuiteEvents[K]>,
+  ): this {
+    this.transport.events.once(event, listener);
+    return this;
+  }
+
+  /** Remove a listener, or every listener for `event` when none is given. */
+  off<K extends keyof NetSuiteEvents>(
+    event: K,
+    listener?: EventListener<NetSuiteEvents[K]>,
+  ): this {
+    this.transport.events.off(event, listener);
+    return this;
+  }
+
+  /**
+   * Rotate credentials without rebuilding the client.
+   * Middleware and keep-alive connections are preserved; requests already
+   * in flight pick up the new credentials on their next attempt.
+   */
+  setAuth(auth: AuthConfig | AuthProvider): this {
+    const config = { ...this.config, auth };
+    const errors = validateConfig(config);
+    if (errors.length > 0) {
+      throw new Error(`Invalid NetSuite configuration:\n  - ${errors.join('\n  - ')}`);
+    }
+    this.config = config;
+    this.transport.setAuth(auth);
+    return this;
+  }
+
+  /**
+   * Destroy keep-alive sockets so the process (a test run, a serverless
+   * invocation) can exit. The client stays usable; later requests reconnect.
+   */
+  async close(): Promise<void> {
+    await this.transport.close();
+  }
+
+  /**
+   * Queue depth and wait-time stats for the concurrency limiter,
+   * or `null` when `concurrency` is not configured.
+   */
+  getConcurrencyStats(): ConcurrencyStats | null {
+    return this.transport.getConcurrencyStats();
+  }
+
   /** Make a raw HTTP request (escape hatch for custom endpoints). */
   async request<T = unknown>(
     url: string,
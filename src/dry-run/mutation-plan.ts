@@ -0,0 +1,230 @@
+import type { NetSuiteClient } from '../client.js';
+import type { RecordMutation } from '../types/events.js';
+import type { HttpMethod, NetSuiteResponse } from '../types/http.js';
+import { canonicalAccountId, classifyMutation, describeEndpoint } from '../utils/url-builder.js';
+
+/** One write captured instead of sent */
+export interface PlannedMutation {
+  /** Position in the plan, from 1 */
+  sequence: number;
+  method: HttpMethod;
+  url: string;
+  /** Account ID recovered from the URL */
+  accountId?: string;
+  /** Kind of write, for REST Record API requests */
+  operation?: RecordMutation;
+  recordType?: string;
+  /** Record ID (or `eid:` external ID) from the URL */
+  recordId?: string;
+  /** ID handed out in `Location` for a record the write creates; replaced on replay */
+  placeholderId?: string;
+  body?: unknown;
+  headers?: Record<string, string>;
+  /** Sent again on replay, so NetSuite can recognize writes a rerun replay already applied */
+  idempotencyKey?: string;
+}
+
+/** JSON form of a plan, from `toJSON()` */
+export interface SerializedMutationPlan {
+  version: 1;
+  mutations: PlannedMutation[];
+}
+
+export interface PlanReplayOptions {
+  /** Keep going after a failed write. Default: false */
+  continueOnError?: boolean;
+  /** Called after each write is sent */
+  onMutation?: (mutation: PlannedMutation, response: NetSuiteResponse<unknown>) => void;
+}
+
+/** Outcome of one replayed write */
+export type ReplayedMutation =
+  | { mutation: PlannedMutation; ok: true; response: NetSuiteResponse<unknown> }
+  | { mutation: PlannedMutation; ok: false; error: unknown };
+
+export interface PlanReplayResult {
+  /** Every write attempted, in plan order */
+  mutations: ReplayedMutation[];
+  /** Real record IDs by placeholder ID */
+  ids: Record<string, string>;
+  /** Whether every write in the plan succeeded */
+  completed: boolean;
+}
+
+const PLACEHOLDER_PREFIX = 'dryrun-';
+
+/** Path of the record a create, upsert or transform makes, for the synthetic `Location` */
+function createdRecordPath(url: string, operation: RecordMutation, recordType: string): string {
+  const { origin, pathname } = new URL(url);
+  const base = pathname.slice(0, pathname.indexOf('/record/v1/') + '/record/v1/'.length);
+  const type = operation === 'transform' ? pathname.split('/!transform/')[1] : recordType;
+  return `${origin}${base}${type}`;
+}
+
+/** Swap placeholder IDs for real ones in URL path segments and string values */
+function substituteIds<T>(value: T, ids: Record<string, string>): T {
+  if (typeof value === 'string') {
+    return (ids[value] ?? value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => substituteIds(item, ids)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, substituteIds(item, ids)]),
+    ) as T;
+  }
+  return value;
+}
+
+function substituteUrl(url: string, ids: Record<string, string>): string {
+  if (Object.keys(ids).length === 0) return url;
+  const parsed = new URL(url);
+  parsed.pathname = parsed.pathname
+    .split('/')
+    .map((segment) => ids[segment] ?? segment)
+    .join('/');
+  return parsed.toString();
+}
+
+/**
+ * Writes captured by a client in dry-run mode. Creates get placeholder IDs
+ * (`dryrun-1`, ...) in a synthetic `Location` header so follow-up writes
+ * can refer to them; `replay()` sends the plan for real and swaps each
+ * placeholder for the ID NetSuite assigns.
+ *
+ * @example
+ * ```ts
+ * const client = new NetSuiteClient({ ...config, dryRun: true });
+ * await migrate(client);
+ * await writeFile('plan.json', JSON.stringify(client.dryRun));
+ *
+ * const plan = MutationPlan.fromJSON(await readFile('plan.json', 'utf8'));
+ * const { completed } = await plan.replay(new NetSuiteClient(config));
+ * ```
+ */
+export class MutationPlan {
+  private entries: PlannedMutation[] = [];
+  private nextPlaceholder = 1;
+
+  /** Rebuild a plan from `toJSON()` output or its string form */
+  static fromJSON(json: string | SerializedMutationPlan): MutationPlan {
+    const data = typeof json === 'string' ? (JSON.parse(json) as SerializedMutationPlan) : json;
+    if (data?.version !== 1 || !Array.isArray(data.mutations)) {
+      throw new Error('Not a serialized mutation plan (expected { version: 1, mutations })');
+    }
+
+    const plan = new MutationPlan();
+    plan.entries = data.mutations.map((mutation) => ({ ...mutation }));
+    for (const { placeholderId } of plan.entries) {
+      const n = Number(placeholderId?.slice(PLACEHOLDER_PREFIX.length));
+      if (Number.isInteger(n)) plan.nextPlaceholder = Math.max(plan.nextPlaceholder, n + 1);
+    }
+    return plan;
+  }
+
+  /** Captured writes, in order */
+  get mutations(): readonly PlannedMutation[] {
+    return this.entries;
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Capture a write and return the response NetSuite would likely give:
+   * `204 No Content`, with a `Location` for creates, upserts and transforms.
+   */
+  capture<T>(request: {
+    url: string;
+    method: HttpMethod;
+    body?: unknown;
+    headers?: Record<string, string>;
+    idempotencyKey?: string;
+  }): NetSuiteResponse<T> {
+    const { url, method } = request;
+    const { api, accountId, recordType, recordId } = describeEndpoint(url);
+    const mutation: PlannedMutation = {
+      sequence: this.entries.length + 1,
+      method,
+      url,
+      ...(accountId && { accountId }),
+      ...(request.body !== undefined && { body: structuredClone(request.body) }),
+      ...(request.headers && { headers: { ...request.headers } }),
+      ...(request.idempotencyKey && { idempotencyKey: request.idempotencyKey }),
+    };
+
+    const headers: Record<string, string> = {};
+    if (api === 'record' && recordType) {
+      const operation = classifyMutation(url, method, recordId);
+      Object.assign(mutation, { operation, recordType, recordId });
+      if (operation === 'create' || operation === 'upsert' || operation === 'transform') {
+        const placeholderId = `${PLACEHOLDER_PREFIX}${this.nextPlaceholder++}`;
+        mutation.placeholderId = placeholderId;
+        headers.location = `${createdRecordPath(url, operation, recordType)}/${placeholderId}`;
+      }
+    }
+
+    this.entries.push(mutation);
+    return { data: undefined as T, status: 204, headers, duration: 0 };
+  }
+
+  /** Forget every captured write */
+  clear(): void {
+    this.entries = [];
+    this.nextPlaceholder = 1;
+  }
+
+  toJSON(): SerializedMutationPlan {
+    return { version: 1, mutations: this.entries.map((mutation) => ({ ...mutation })) };
+  }
+
+  /**
+   * Send every write, in order, through `client`. Stops at the first
+   * failure unless `continueOnError` is set. The client must not itself be
+   * in dry-run mode, and must be for the account the plan was made for.
+   */
+  async replay(
+    client: NetSuiteClient,
+    options: PlanReplayOptions = {},
+  ): Promise<PlanReplayResult> {
+    if (client.dryRun) {
+      throw new Error('Cannot replay a plan through a client in dry-run mode');
+    }
+    const target = canonicalAccountId(client.accountId);
+    const foreign = this.entries.find(
+      (m) => m.accountId && canonicalAccountId(m.accountId) !== target,
+    );
+    if (foreign) {
+      throw new Error(
+        `Plan write #${foreign.sequence} targets account ${foreign.accountId}, ` +
+          `but the client is for ${target}`,
+      );
+    }
+
+    const result: PlanReplayResult = { mutations: [], ids: {}, completed: true };
+    for (const mutation of this.entries) {
+      try {
+        const response = await client.request(substituteUrl(mutation.url, result.ids), {
+          method: mutation.method,
+          body: substituteIds(mutation.body, result.ids),
+          headers: mutation.headers,
+          idempotencyKey: mutation.idempotencyKey,
+        });
+
+        const location = response.headers.location ?? response.headers.Location;
+        if (mutation.placeholderId && location) {
+          result.ids[mutation.placeholderId] = new URL(location).pathname.split('/').pop()!;
+        }
+        result.mutations.push({ mutation, ok: true, response });
+        options.onMutation?.(mutation, response);
+      } catch (error) {
+        result.completed = false;
+        result.mutations.push({ mutation, ok: false, error });
+        if (!options.continueOnError) break;
+      }
+    }
+    return result;
+  }
+}
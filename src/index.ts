@@ -1,21 +1,44 @@
 // Main client
 export { NetSuiteClient } from './client.js';
 
+// Multi-account client pool
+export { NetSuiteClientPool } from './pool/client-pool.js';
+export type {
+  NetSuiteClientPoolOptions,
+  CredentialResolver,
+  PoolRunOptions,
+  PoolRunResult,
+  PoolAccountResult,
+} from './pool/client-pool.js';
+
 // SuiteQL query builder
 export { SuiteQLBuilder, suiteql } from './suiteql/query-builder.js';
 
-// Error class
+// Error classes
 export { NetSuiteError } from './types/errors.js';
+export { HttpAdapterError } from './types/adapter.js';
 
 // Types
 export type {
   // Config
   NetSuiteConfig,
   OAuthConfig,
+  OAuth2ClientCredentialsConfig,
+  OAuth2JwtAlgorithm,
+  AuthConfig,
+  AuthProvider,
+  OAuth2Tokens,
+  TokenStore,
   // HTTP
   HttpMethod,
   RequestOptions,
   NetSuiteResponse,
+  RetryEvent,
+  // HTTP adapters
+  HttpAdapter,
+  AdapterRequest,
+  AdapterResponse,
+  HttpAdapterErrorKind,
   // SuiteQL
   SuiteQLOptions,
   SuiteQLResult,
@@ -25,23 +48,166 @@ export type {
   RecordGetOptions,
   RecordListOptions,
   RecordListResponse,
+  RecordWriteOptions,
+  RecordWriteResult,
+  // Record metadata
+  JsonSchema,
+  OpenApiDocument,
+  RecordTypeSummary,
+  RecordFieldInfo,
+  MetadataClientOptions,
+  // Caching
+  CacheEntry,
+  CacheStore,
+  CachePolicy,
+  RequestCacheOptions,
+  // Events
+  NetSuiteEvents,
+  RequestEventBase,
+  RequestStartEvent,
+  RequestRetryEvent,
+  RequestSuccessEvent,
+  RequestErrorEvent,
+  SuiteQLPageEvent,
+  RecordMutatedEvent,
+  RecordMutation,
+  CircuitState,
+  CircuitStateChangeEvent,
   // Middleware
   Middleware,
   RequestContext,
+  RequestScope,
   ResponseContext,
+  MiddlewareScope,
+  MiddlewareOptions,
+  MiddlewareRegistration,
+  MiddlewareOverrides,
   // Logger
   Logger,
+  LogEvent,
+  LogEventName,
+  // Metrics
+  MetricsSink,
+  MetricLabels,
   // Error details
   NetSuiteErrorDetail,
+  NetSuiteErrorOptions,
 } from './types/index.js';
 
 // RESTlet types
 export type { RestletParams } from './restlets/restlet-client.js';
 
+// Auth
+export { OAuth2TokenManager, createClientAssertion } from './transport/oauth2.js';
+export {
+  TbaAuthProvider,
+  OAuth2ClientCredentialsProvider,
+} from './transport/auth-provider.js';
+export type { TbaAuthProviderOptions } from './transport/auth-provider.js';
+export {
+  OAuth2AuthorizationCodeFlow,
+  createPkcePair,
+} from './transport/oauth2-authorization-code.js';
+export type {
+  OAuth2AuthorizationCodeConfig,
+  AuthorizationRequest,
+} from './transport/oauth2-authorization-code.js';
+export { MemoryTokenStore, FileTokenStore } from './transport/token-store.js';
+
+// HTTP adapters
+export { AxiosAdapter } from './transport/axios-adapter.js';
+export type { AxiosAdapterOptions } from './transport/axios-adapter.js';
+export { FetchAdapter } from './transport/fetch-adapter.js';
+export type { FetchAdapterOptions } from './transport/fetch-adapter.js';
+
+// Middleware
+export { MiddlewareStack } from './transport/middleware-stack.js';
+
+// Retry
+export { RetryBudget } from './transport/retry-budget.js';
+export type { RetryBudgetOptions } from './transport/retry-budget.js';
+export { parseRetryAfter } from './transport/retry.js';
+export type { IdempotencyOptions } from './transport/idempotency.js';
+export { CircuitBreaker } from './transport/circuit-breaker.js';
+export type { CircuitBreakerOptions, CircuitPermit } from './transport/circuit-breaker.js';
+
+// Record metadata
+export { describeRecordFields } from './records/record-schema.js';
+
+// Write guard
+export { assertWriteAllowed, isSandboxAccount } from './transport/write-guard.js';
+export type { WriteGuardOptions } from './transport/write-guard.js';
+
+// Dry run
+export { MutationPlan } from './dry-run/mutation-plan.js';
+export type {
+  PlannedMutation,
+  SerializedMutationPlan,
+  PlanReplayOptions,
+  PlanReplayResult,
+  ReplayedMutation,
+} from './dry-run/mutation-plan.js';
+
+// Caching
+export { RequestCache, recordCacheTag } from './cache/request-cache.js';
+export { MemoryCacheStore, FileCacheStore } from './cache/cache-store.js';
+export type { MemoryCacheStoreOptions } from './cache/cache-store.js';
+
+// Tracing
+export { createTracingMiddleware, TRACER_NAME } from './tracing/tracing-middleware.js';
+export type { TracingOptions } from './tracing/tracing-middleware.js';
+
+// Logging
+export { Redactor, createRedactingLogger, REDACTED } from './logging/redaction.js';
+export type { RedactionOptions } from './logging/redaction.js';
+export { createPinoLogger, createWinstonLogger } from './logging/adapters.js';
+export type { PinoLike, WinstonLike } from './logging/adapters.js';
+
+// Metrics
+export { InMemoryMetricsSink } from './metrics/in-memory-sink.js';
+export type { MetricSeries } from './metrics/in-memory-sink.js';
+export { PrometheusMetricsSink } from './metrics/prometheus-sink.js';
+export type { PrometheusMetricsSinkOptions } from './metrics/prometheus-sink.js';
+export { NETSUITE_METRICS, METRIC_DEFINITIONS, withMetricLabels } from './metrics/metrics.js';
+export type { MetricDefinition } from './metrics/metrics.js';
+
+// Testing
+export { NetSuiteStandIn } from './testing/stand-in.js';
+export type {
+  NetSuiteStandInOptions,
+  StandInFault,
+  StandInRestlet,
+} from './testing/stand-in.js';
+export { evaluateSuiteQL, SuiteQLSyntaxError } from './testing/suiteql-evaluator.js';
+export { Cassette, SCRUBBED } from './testing/cassette.js';
+export type {
+  CassetteMode,
+  CassetteOptions,
+  CassetteInteraction,
+  RecordedRequest,
+  RecordedResponse,
+} from './testing/cassette.js';
+
 // Utilities
+export { TypedEventEmitter } from './utils/event-emitter.js';
+export type { EventListener } from './utils/event-emitter.js';
 export { ResponseCache, createCacheKey } from './utils/response-cache.js';
+export type { ResponseCacheOptions } from './utils/response-cache.js';
+export { RequestCoalescer } from './utils/request-coalescer.js';
 export { RateLimiter } from './utils/rate-limiter.js';
-export { validateConfig } from './utils/validation.js';
+export { ConcurrencyLimiter } from './utils/concurrency-limiter.js';
+export type { ConcurrencyOptions, ConcurrencyStats } from './utils/concurrency-limiter.js';
+export { validateConfig, checkConfig } from './utils/validation.js';
+export type { ConfigCheckResult } from './utils/validation.js';
+export { configFromEnv, loadProfile, parseProfiles } from './utils/config-loader.js';
+export type { EnvConfigOptions, ProfileOptions } from './utils/config-loader.js';
 export { formatNetSuiteDate, parseNetSuiteDate } from './utils/date.js';
 export { parseNetSuiteError } from './utils/error-parser.js';
-export { normalizeAccountId } from './utils/url-builder.js';
+export {
+  normalizeAccountId,
+  canonicalAccountId,
+  describeEndpoint,
+  isWriteRequest,
+  classifyMutation,
+} from './utils/url-builder.js';
+export type { NetSuiteApi, NetSuiteEndpoint } from './utils/url-builder.js';
@@ -0,0 +1,60 @@
+import type { Logger } from '../types/logger.js';
+
+type PinoLogFn = (obj: object, msg?: string) => void;
+
+/** The subset of a pino logger the SDK calls */
+export interface PinoLike {
+  debug: PinoLogFn;
+  info: PinoLogFn;
+  warn: PinoLogFn;
+  error: PinoLogFn;
+}
+
+/** The subset of a winston logger the SDK calls */
+export interface WinstonLike {
+  log(level: string, message: string, meta?: unknown): unknown;
+}
+
+/** Meta as a plain object, so structured loggers merge its fields */
+function toFields(meta: unknown): object {
+  if (meta && typeof meta === 'object' && !Array.isArray(meta)) return meta;
+  return meta === undefined ? {} : { meta };
+}
+
+/**
+ * Adapt a pino logger, which takes the merge object first (`log(obj, msg)`).
+ * Event fields become top-level properties of each log line.
+ *
+ * @example
+ * ```ts
+ * const client = new NetSuiteClient({ ...config, logger: createPinoLogger(pino()) });
+ * ```
+ */
+export function createPinoLogger(logger: PinoLike): Logger {
+  return {
+    debug: (message, meta) => logger.debug(toFields(meta), message),
+    info: (message, meta) => logger.info(toFields(meta), message),
+    warn: (message, meta) => logger.warn(toFields(meta), message),
+    error: (message, meta) => logger.error(toFields(meta), message),
+  };
+}
+
+/**
+ * Adapt a winston logger. Event fields are merged into the log `info` object.
+ *
+ * @example
+ * ```ts
+ * const client = new NetSuiteClient({
+ *   ...config,
+ *   logger: createWinstonLogger(winston.createLogger({ format: winston.format.json() })),
+ * });
+ * ```
+ */
+export function createWinstonLogger(logger: WinstonLike): Logger {
+  return {
+    debug: (message, meta) => logger.log('debug', message, toFields(meta)),
+    info: (message, meta) => logger.log('info', message, toFields(meta)),
+    warn: (message, meta) => logger.log('warn', message, toFields(meta)),
+    error: (message, meta) => logger.log('error', message, toFields(meta)),
+  };
+}
@@ -0,0 +1,139 @@
+import type { Logger } from '../types/logger.js';
+
+export interface RedactionOptions {
+  /** Extra header names to redact (Authorization, cookies and proxy auth always are) */
+  headers?: string[];
+  /** Body field names to redact at any depth, e.g. `['email', 'phone']` */
+  fields?: string[];
+  /** Keep query strings in logged URLs, with OAuth parameters still redacted. Default: false */
+  keepQueryStrings?: boolean;
+  /** Include request bodies in debug `request.start` events. Default: false */
+  logBodies?: boolean;
+}
+
+/** Replaces redacted values in log output */
+export const REDACTED = '[REDACTED]';
+
+const ALWAYS_REDACTED_HEADERS = ['authorization', 'proxy-authorization', 'cookie', 'set-cookie'];
+
+/** OAuth credentials and secrets, redacted wherever they appear */
+const ALWAYS_REDACTED_FIELDS = [
+  'access_token',
+  'refresh_token',
+  'id_token',
+  'client_secret',
+  'client_assertion',
+  'code_verifier',
+  'consumerSecret',
+  'tokenSecret',
+  'privateKey',
+  'password',
+];
+
+const URL_PATTERN = /https?:\/\/[^\s"'<>]+/g;
+
+/**
+ * Strips secrets and PII from values before they are logged: sensitive
+ * headers and fields become `[REDACTED]`, URLs lose their query strings and
+ * errors are reduced to name, message, code and status.
+ */
+export class Redactor {
+  readonly logBodies: boolean;
+  private keys: Set<string>;
+  private keepQueryStrings: boolean;
+
+  constructor(options: RedactionOptions = {}) {
+    this.keys = new Set(
+      [
+        ...ALWAYS_REDACTED_HEADERS,
+        ...ALWAYS_REDACTED_FIELDS,
+        ...(options.headers ?? []),
+        ...(options.fields ?? []),
+      ].map((key) => key.toLowerCase()),
+    );
+    this.keepQueryStrings = options.keepQueryStrings ?? false;
+    this.logBodies = options.logBodies ?? false;
+  }
+
+  /** Drop the query string (or just OAuth parameters, with `keepQueryStrings`). */
+  url(url: string): string {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return url;
+    }
+    if (!this.keepQueryStrings) {
+      return `${parsed.origin}${parsed.pathname}`;
+    }
+    for (const key of [...parsed.searchParams.keys()]) {
+      if (key.startsWith('oauth_') || this.keys.has(key.toLowerCase())) {
+        parsed.searchParams.set(key, REDACTED);
+      }
+    }
+    return parsed.toString();
+  }
+
+  /** Redact every URL embedded in free text, such as a log message. */
+  text(text: string): string {
+    return text.replace(URL_PATTERN, (url) => this.url(url));
+  }
+
+  /** Deep copy of `value` with sensitive keys, URLs and errors redacted. */
+  value(value: unknown, seen = new WeakSet<object>()): unknown {
+    if (typeof value === 'string') {
+      return this.text(value);
+    }
+    if (!value || typeof value !== 'object') {
+      return value;
+    }
+    if (seen.has(value)) return '[Circular]';
+    seen.add(value);
+
+    if (value instanceof Error) {
+      // Never log error details: NetSuite error bodies can echo request data
+      const { code, status } = value as Error & { code?: unknown; status?: unknown };
+      return {
+        name: value.name,
+        message: this.text(value.message),
+        ...(code !== undefined && { code }),
+        ...(status !== undefined && { status }),
+      };
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.value(item, seen));
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = this.keys.has(key.toLowerCase()) ? REDACTED : this.value(item, seen);
+    }
+    return result;
+  }
+}
+
+/**
+ * Wrap a logger so every message and meta object passes through a `Redactor`.
+ * The client applies this to `config.logger` automatically.
+ */
+export function createRedactingLogger(
+  logger: Logger,
+  redaction: RedactionOptions | Redactor = {},
+): Logger {
+  const redactor = redaction instanceof Redactor ? redaction : new Redactor(redaction);
+  const wrap =
+    (level: keyof Logger) =>
+    (message: string, meta?: unknown): void => {
+      if (meta === undefined) {
+        logger[level](redactor.text(message));
+      } else {
+        logger[level](redactor.text(message), redactor.value(meta));
+      }
+    };
+  return {
+    debug: wrap('debug'),
+    info: wrap('info'),
+    warn: wrap('warn'),
+    error: wrap('error'),
+  };
+}
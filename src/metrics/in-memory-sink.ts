@@ -0,0 +1,78 @@
+import { seriesKey } from './metrics.js';
+import type { MetricLabels, MetricsSink } from '../types/metrics.js';
+
+/** One recorded series: a counter total or a histogram's observations */
+export interface MetricSeries<T> {
+  name: string;
+  labels: MetricLabels;
+  value: T;
+}
+
+/**
+ * Metrics sink that keeps everything in memory, for tests and ad-hoc reporting.
+ *
+ * @example
+ * ```ts
+ * const metrics = new InMemoryMetricsSink();
+ * const client = new NetSuiteClient({ ...config, metrics });
+ * // ...
+ * metrics.getCounter('netsuite_throttled_total', { api: 'suiteql' });
+ * ```
+ */
+export class InMemoryMetricsSink implements MetricsSink {
+  private counters = new Map<string, MetricSeries<number>>();
+  private histograms = new Map<string, MetricSeries<number[]>>();
+
+  increment(name: string, labels: MetricLabels, value = 1): void {
+    const key = seriesKey(name, labels);
+    const series = this.counters.get(key);
+    if (series) {
+      series.value += value;
+    } else {
+      this.counters.set(key, { name, labels: { ...labels }, value });
+    }
+  }
+
+  observe(name: string, labels: MetricLabels, value: number): void {
+    const key = seriesKey(name, labels);
+    const series = this.histograms.get(key);
+    if (series) {
+      series.value.push(value);
+    } else {
+      this.histograms.set(key, { name, labels: { ...labels }, value: [value] });
+    }
+  }
+
+  /** Counter total across every series whose labels include `labels`. */
+  getCounter(name: string, labels: MetricLabels = {}): number {
+    return this.select(this.counters, name, labels).reduce((sum, series) => sum + series.value, 0);
+  }
+
+  /** Histogram observations across every series whose labels include `labels`. */
+  getObservations(name: string, labels: MetricLabels = {}): number[] {
+    return this.select(this.histograms, name, labels).flatMap((series) => series.value);
+  }
+
+  /** Every recorded counter series. */
+  getCounters(): Array<MetricSeries<number>> {
+    return [...this.counters.values()];
+  }
+
+  /** Forget everything recorded so far. */
+  reset(): void {
+    this.counters.clear();
+    this.histograms.clear();
+  }
+
+  private select<T>(
+    store: Map<string, MetricSeries<T>>,
+    name: string,
+    labels: MetricLabels,
+  ): Array<MetricSeries<T>> {
+    return [...store.values()].filter(
+      (series) =>
+        series.name === name &&
+        Object.entries(labels).every(([key, value]) => series.labels[key] === value),
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { describeEndpoint } from '../utils/url-builder.js';
+import type { HttpMethod } from '../types/http.js';
+import type { MetricLabels, MetricsSink } from '../types/metrics.js';
+
+/** Metric names emitted by the SDK */
+export const NETSUITE_METRICS = {
+  /** Counter: HTTP attempts sent to NetSuite, by `status` and `status_class` */
+  requests: 'netsuite_requests_total',
+  /** Histogram: attempt latency in seconds */
+  requestDuration: 'netsuite_request_duration_seconds',
+  /** Counter: retries scheduled */
+  retries: 'netsuite_retries_total',
+  /** Counter: 429 responses */
+  throttled: 'netsuite_throttled_total',
+  /** Counter: rows returned by SuiteQL */
+  suiteqlRows: 'netsuite_suiteql_rows_total',
+  /** Histogram: pages fetched per SuiteQL query */
+  suiteqlPages: 'netsuite_suiteql_pages',
+} as const;
+
+export interface MetricDefinition {
+  type: 'counter' | 'histogram';
+  help: string;
+  /** Histogram bucket upper bounds */
+  buckets?: number[];
+}
+
+export const METRIC_DEFINITIONS: Record<string, MetricDefinition> = {
+  [NETSUITE_METRICS.requests]: {
+    type: 'counter',
+    help: 'HTTP attempts sent to NetSuite',
+  },
+  [NETSUITE_METRICS.requestDuration]: {
+    type: 'histogram',
+    help: 'NetSuite HTTP attempt latency in seconds',
+    buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  },
+  [NETSUITE_METRICS.retries]: {
+    type: 'counter',
+    help: 'Retries scheduled after failed attempts',
+  },
+  [NETSUITE_METRICS.throttled]: {
+    type: 'counter',
+    help: 'Requests throttled by NetSuite (HTTP 429)',
+  },
+  [NETSUITE_METRICS.suiteqlRows]: {
+    type: 'counter',
+    help: 'Rows returned by SuiteQL queries',
+  },
+  [NETSUITE_METRICS.suiteqlPages]: {
+    type: 'histogram',
+    help: 'Pages fetched per SuiteQL query',
+    buckets: [1, 2, 5, 10, 25, 50, 100],
+  },
+};
+
+/**
+ * Add fixed labels (e.g. the integration name) to everything a sink records.
+ * Per-call labels win on conflict.
+ *
+ * @example
+ * ```ts
+ * const client = new NetSuiteClient({
+ *   ...config,
+ *   metrics: withMetricLabels(sink, { integration: 'order-sync' }),
+ * });
+ * ```
+ */
+export function withMetricLabels(sink: MetricsSink, labels: MetricLabels): MetricsSink {
+  return {
+    increment: (name, extra, value) => sink.increment(name, { ...labels, ...extra }, value),
+    observe: (name, extra, value) => sink.observe(name, { ...labels, ...extra }, value),
+  };
+}
+
+/** Stable identity of one series: name plus labels sorted by key */
+export function seriesKey(name: string, labels: MetricLabels): string {
+  return JSON.stringify([name, Object.entries(labels).sort(([a], [b]) => a.localeCompare(b))]);
+}
+
+/** `api`, `method` and (for the Record API) `record_type` labels for a request */
+export function endpointLabels(url: string, method: HttpMethod): MetricLabels {
+  const { api, recordType } = describeEndpoint(url);
+  return recordType ? { api, method, record_type: recordType } : { api, method };
+}
@@ -0,0 +1,138 @@
+import { METRIC_DEFINITIONS, seriesKey } from './metrics.js';
+import type { MetricLabels, MetricsSink } from '../types/metrics.js';
+
+export interface PrometheusMetricsSinkOptions {
+  /** Buckets for histograms without a built-in definition. Default: latency buckets in seconds */
+  buckets?: number[];
+}
+
+interface CounterSeries {
+  labels: MetricLabels;
+  value: number;
+}
+
+interface HistogramSeries {
+  labels: MetricLabels;
+  buckets: number[];
+  /** Non-cumulative count per bucket; cumulated when rendered */
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+const DEFAULT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+/**
+ * Metrics sink that aggregates in memory and renders the Prometheus text
+ * exposition format, ready to serve from a `/metrics` endpoint.
+ *
+ * @example
+ * ```ts
+ * const metrics = new PrometheusMetricsSink();
+ * const client = new NetSuiteClient({ ...config, metrics });
+ *
+ * app.get('/metrics', (req, res) => {
+ *   res.type(PrometheusMetricsSink.contentType).send(metrics.render());
+ * });
+ * ```
+ */
+export class PrometheusMetricsSink implements MetricsSink {
+  /** Content type of `render()` output */
+  static readonly contentType = 'text/plain; version=0.0.4; charset=utf-8';
+
+  private defaultBuckets: number[];
+  private counters = new Map<string, Map<string, CounterSeries>>();
+  private histograms = new Map<string, Map<string, HistogramSeries>>();
+
+  constructor(options: PrometheusMetricsSinkOptions = {}) {
+    this.defaultBuckets = [...(options.buckets ?? DEFAULT_BUCKETS)].sort((a, b) => a - b);
+  }
+
+  increment(name: string, labels: MetricLabels, value = 1): void {
+    const family = getFamily(this.counters, name);
+    const key = seriesKey(name, labels);
+    const series = family.get(key);
+    if (series) {
+      series.value += value;
+    } else {
+      family.set(key, { labels: { ...labels }, value });
+    }
+  }
+
+  observe(name: string, labels: MetricLabels, value: number): void {
+    const family = getFamily(this.histograms, name);
+    const key = seriesKey(name, labels);
+    let series = family.get(key);
+    if (!series) {
+      const buckets = METRIC_DEFINITIONS[name]?.buckets ?? this.defaultBuckets;
+      series = { labels: { ...labels }, buckets, counts: buckets.map(() => 0), sum: 0, count: 0 };
+      family.set(key, series);
+    }
+    const index = series.buckets.findIndex((bound) => value <= bound);
+    if (index !== -1) series.counts[index]++;
+    series.sum += value;
+    series.count++;
+  }
+
+  /** Render every metric in the Prometheus text exposition format. */
+  render(): string {
+    const lines: string[] = [];
+
+    for (const [name, family] of this.counters) {
+      pushHeader(lines, name, 'counter');
+      for (const series of family.values()) {
+        lines.push(`${name}${formatLabels(series.labels)} ${series.value}`);
+      }
+    }
+
+    for (const [name, family] of this.histograms) {
+      pushHeader(lines, name, 'histogram');
+      for (const series of family.values()) {
+        let cumulative = 0;
+        series.buckets.forEach((bound, i) => {
+          cumulative += series.counts[i];
+          lines.push(
+            `${name}_bucket${formatLabels({ ...series.labels, le: String(bound) })} ${cumulative}`,
+          );
+        });
+        const infLabels = formatLabels({ ...series.labels, le: '+Inf' });
+        lines.push(`${name}_bucket${infLabels} ${series.count}`);
+        lines.push(`${name}_sum${formatLabels(series.labels)} ${series.sum}`);
+        lines.push(`${name}_count${formatLabels(series.labels)} ${series.count}`);
+      }
+    }
+
+    return lines.length ? `${lines.join('\n')}\n` : '';
+  }
+
+  /** Forget everything recorded so far. */
+  reset(): void {
+    this.counters.clear();
+    this.histograms.clear();
+  }
+}
+
+function getFamily<T>(store: Map<string, Map<string, T>>, name: string): Map<string, T> {
+  let family = store.get(name);
+  if (!family) {
+    family = new Map();
+    store.set(name, family);
+  }
+  return family;
+}
+
+function pushHeader(lines: string[], name: string, type: string): void {
+  const help = METRIC_DEFINITIONS[name]?.help;
+  if (help) lines.push(`# HELP ${name} ${help}`);
+  lines.push(`# TYPE ${name} ${type}`);
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  const formatted = entries.map(
+    ([key, value]) =>
+      `${key}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`,
+  );
+  return `{${formatted.join(',')}}`;
+}
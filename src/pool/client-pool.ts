@@ -0,0 +1,252 @@
+import { NetSuiteClient } from '../client.js';
+import { withMetricLabels } from '../metrics/metrics.js';
+import { ConcurrencyLimiter } from '../utils/concurrency-limiter.js';
+import { canonicalAccountId } from '../utils/url-builder.js';
+import type { AuthConfig, NetSuiteConfig } from '../types/config.js';
+import type { AuthProvider } from '../types/auth.js';
+import type { Middleware, MiddlewareRegistration } from '../types/middleware.js';
+import type { SuiteQLOptions, SuiteQLResult } from '../types/suiteql.js';
+
+/** Looks up credentials for an account the first time the pool needs a client for it */
+export type CredentialResolver = (
+  accountId: string,
+) => AuthConfig | AuthProvider | Promise<AuthConfig | AuthProvider>;
+
+export interface NetSuiteClientPoolOptions {
+  /** Credentials per account ID (e.g. from a secrets manager) */
+  credentials: CredentialResolver;
+  /**
+   * Settings shared by every client. Options objects (`concurrency`,
+   * `retryBudget`, `circuitBreaker`) give each account its own instance;
+   * pass instances to share one across accounts. Metrics gain an
+   * `account_id` label.
+   */
+  defaults?: Omit<NetSuiteConfig, 'auth' | 'accountId'>;
+  /** Middleware added to every client, in order */
+  middleware?: Array<Middleware | MiddlewareRegistration>;
+  /** Called once per new client, after middleware is added */
+  configure?: (client: NetSuiteClient, accountId: string) => void;
+  /** Drop clients unused for this long, in ms. Default: 600000 (10 minutes) */
+  idleTimeout?: number;
+  /** Keep at most this many clients, dropping the least recently used. Default: Infinity */
+  maxClients?: number;
+}
+
+export interface PoolRunOptions {
+  /** Accounts worked on at once. Default: 5 */
+  concurrency?: number;
+}
+
+/** Outcome of one account in a `run()` */
+export type PoolAccountResult<T> =
+  | { accountId: string; ok: true; value: T; duration: number }
+  | { accountId: string; ok: false; error: unknown; duration: number };
+
+export interface PoolRunResult<T> {
+  /** Every account's outcome, in the order the accounts were given */
+  accounts: PoolAccountResult<T>[];
+  /** Values of the accounts that succeeded, by account ID */
+  results: Record<string, T>;
+  /** Errors of the accounts that failed, by account ID */
+  errors: Record<string, unknown>;
+}
+
+interface PoolEntry {
+  client: NetSuiteClient;
+  lastUsed: number;
+}
+
+/**
+ * Lazily created `NetSuiteClient`s for many accounts, sharing one set of
+ * settings and middleware.
+ *
+ * @example
+ * ```ts
+ * const pool = new NetSuiteClientPool({
+ *   credentials: (accountId) => secrets.getNetSuiteAuth(accountId),
+ *   defaults: { metrics, concurrency: { maxConcurrent: 5 } },
+ * });
+ *
+ * const { results, errors } = await pool.suiteql(
+ *   ['1234567', '1234567_SB1', '7654321'],
+ *   'SELECT COUNT(*) AS n FROM customer',
+ * );
+ * ```
+ */
+export class NetSuiteClientPool {
+  private options: NetSuiteClientPoolOptions;
+  private idleTimeout: number;
+  private maxClients: number;
+  private entries = new Map<string, PoolEntry>();
+  private pending = new Map<string, Promise<NetSuiteClient>>();
+
+  constructor(options: NetSuiteClientPoolOptions) {
+    this.options = options;
+    this.idleTimeout = options.idleTimeout ?? 600_000;
+    this.maxClients = options.maxClients ?? Infinity;
+  }
+
+  /** Number of clients currently held */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /** Account IDs with a live client */
+  accountIds(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  /** Get the client for an account, creating it on first use. */
+  async get(accountId: string): Promise<NetSuiteClient> {
+    const key = canonicalAccountId(accountId);
+    this.evictIdle();
+
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Re-insert so the map stays ordered from least to most recently used
+      this.entries.delete(key);
+      this.entries.set(key, { client: entry.client, lastUsed: Date.now() });
+      return entry.client;
+    }
+
+    // Concurrent callers for the same account share one credential lookup
+    let creating = this.pending.get(key);
+    if (!creating) {
+      creating = this.create(key).finally(() => this.pending.delete(key));
+      this.pending.set(key, creating);
+    }
+    return creating;
+  }
+
+  /** Whether a client for the account is held */
+  has(accountId: string): boolean {
+    return this.entries.has(canonicalAccountId(accountId));
+  }
+
+  /** Drop and close one account's client; the next `get()` resolves credentials again. */
+  evict(accountId: string): boolean {
+    const key = canonicalAccountId(accountId);
+    const entry = this.entries.get(key);
+    if (!entry) return false;
+    this.discard(key, entry);
+    return true;
+  }
+
+  /** Drop and close clients unused for longer than `idleTimeout`. Returns how many were dropped. */
+  evictIdle(): number {
+    const cutoff = Date.now() - this.idleTimeout;
+    let evicted = 0;
+    for (const [key, entry] of this.entries) {
+      if (entry.lastUsed <= cutoff) {
+        this.discard(key, entry);
+        evicted++;
+      }
+    }
+    return evicted;
+  }
+
+  /** Drop and close every client without waiting for their sockets to close */
+  clear(): void {
+    for (const [key, entry] of this.entries) {
+      this.discard(key, entry);
+    }
+  }
+
+  /** Drop every client after closing its sockets */
+  async close(): Promise<void> {
+    const clients = [...this.entries.values()].map((entry) => entry.client);
+    this.entries.clear();
+    await Promise.all(clients.map((client) => client.close()));
+  }
+
+  /**
+   * Run the same operation against many accounts. Failures are collected
+   * per account instead of rejecting the whole run.
+   *
+   * @example
+   * ```ts
+   * const { accounts } = await pool.run(accountIds, (client) =>
+   *   client.records.get('customer', 42),
+   * );
+   * ```
+   */
+  async run<T>(
+    accountIds: string[],
+    operation: (client: NetSuiteClient, accountId: string) => Promise<T>,
+    options: PoolRunOptions = {},
+  ): Promise<PoolRunResult<T>> {
+    const limiter = new ConcurrencyLimiter({ maxConcurrent: options.concurrency ?? 5 });
+
+    const accounts = await Promise.all(
+      accountIds.map((accountId) =>
+        limiter.run(async (): Promise<PoolAccountResult<T>> => {
+          const startTime = performance.now();
+          const duration = () => Math.round(performance.now() - startTime);
+          try {
+            const value = await operation(await this.get(accountId), accountId);
+            return { accountId, ok: true, value, duration: duration() };
+          } catch (error) {
+            return { accountId, ok: false, error, duration: duration() };
+          }
+        }),
+      ),
+    );
+
+    const result: PoolRunResult<T> = { accounts, results: {}, errors: {} };
+    for (const account of accounts) {
+      if (account.ok) {
+        result.results[account.accountId] = account.value;
+      } else {
+        result.errors[account.accountId] = account.error;
+      }
+    }
+    return result;
+  }
+
+  /** Run one SuiteQL query against many accounts. */
+  suiteql<T = Record<string, unknown>>(
+    accountIds: string[],
+    sql: string,
+    options?: SuiteQLOptions & PoolRunOptions,
+  ): Promise<PoolRunResult<SuiteQLResult<T>>> {
+    return this.run(accountIds, (client) => client.suiteql.query<T>(sql, options), options);
+  }
+
+  private async create(key: string): Promise<NetSuiteClient> {
+    const { credentials, defaults, middleware = [], configure } = this.options;
+    const auth = await credentials(key);
+
+    const client = new NetSuiteClient({
+      ...defaults,
+      metrics: defaults?.metrics && withMetricLabels(defaults.metrics, { account_id: key }),
+      auth,
+      accountId: key,
+    });
+    for (const entry of middleware) {
+      if (typeof entry === 'function') {
+        client.use(entry);
+      } else {
+        client.use(entry.middleware, entry);
+      }
+    }
+    configure?.(client, key);
+
+    this.entries.set(key, { client, lastUsed: Date.now() });
+    while (this.entries.size > this.maxClients) {
+      // Map iteration order is least recently used first
+      const [oldest, entry] = this.entries.entries().next().value!;
+      this.discard(oldest, entry);
+    }
+    return client;
+  }
+
+  /**
+   * Remove a client and close it, which also detaches it from shared
+   * components such as a circuit breaker. Closing only destroys sockets, so
+   * a caller still holding the client can keep using it.
+   */
+  private discard(key: string, entry: PoolEntry): void {
+    this.entries.delete(key);
+    entry.client.close().catch(() => {});
+  }
+}
@@ -0,0 +1,141 @@
+import type { HttpTransport } from '../transport/http-transport.js';
+import type {
+  JsonSchema,
+  MetadataClientOptions,
+  OpenApiDocument,
+  RecordFieldInfo,
+  RecordTypeSummary,
+} from '../types/metadata.js';
+import type { RecordType } from '../types/records.js';
+import { describeRecordFields } from './record-schema.js';
+
+interface CatalogResponse {
+  items?: Array<{ name: string }>;
+}
+
+interface CachedEntry<T> {
+  value: Promise<T>;
+  expiresAt: number;
+}
+
+/**
+ * Client for the REST Record API metadata catalog: which record types the
+ * account has, and the fields each one carries, custom fields included.
+ * Responses are kept for `ttl` (one hour by default, set with the client's
+ * `metadata` option), since the catalog only changes when the account is
+ * customized.
+ *
+ * @example
+ * ```ts
+ * const fields = await client.metadata.getFields('salesorder');
+ * const status = await client.metadata.getField('salesorder', 'orderStatus');
+ * status?.enumValues; // ['A', 'B', ...]
+ * ```
+ */
+export class MetadataClient {
+  private transport: HttpTransport;
+  private baseUrl: string;
+  private ttl: number;
+  private cache = new Map<string, CachedEntry<unknown>>();
+
+  constructor(transport: HttpTransport, accountId: string, options: MetadataClientOptions = {}) {
+    this.transport = transport;
+    const normalizedId = accountId.toLowerCase().replace(/_/g, '-');
+    this.baseUrl =
+      `https://${normalizedId}.suitetalk.api.netsuite.com/services/rest/record/v1/metadata-catalog`;
+    this.ttl = options.ttl ?? 60 * 60 * 1000;
+  }
+
+  /** Every record type the account exposes through the REST Record API */
+  async listRecordTypes(): Promise<RecordTypeSummary[]> {
+    return this.cached('types', async () => {
+      const { data } = await this.transport.request<CatalogResponse>(this.baseUrl);
+      return (data?.items ?? []).map(({ name }) => ({
+        name,
+        custom: name.toLowerCase().startsWith('customrecord'),
+      }));
+    });
+  }
+
+  /** JSON Schema for one record type */
+  async getSchema(recordType: RecordType): Promise<JsonSchema> {
+    return this.cached(`schema:${recordType.toLowerCase()}`, async () => {
+      const { data } = await this.transport.request<JsonSchema>(
+        `${this.baseUrl}/${recordType}`,
+        { headers: { Accept: 'application/schema+json' } },
+      );
+      return data;
+    });
+  }
+
+  /** JSON Schemas for several record types, fetched in parallel and keyed by type */
+  async getSchemas(recordTypes: RecordType[]): Promise<Record<string, JsonSchema>> {
+    const schemas = await Promise.all(recordTypes.map((type) => this.getSchema(type)));
+    return Object.fromEntries(recordTypes.map((type, i) => [type, schemas[i]]));
+  }
+
+  /** OpenAPI 3 document covering the given record types, in one request */
+  async getOpenApi(recordTypes: RecordType[]): Promise<OpenApiDocument> {
+    const select = recordTypes.map((type) => type.toLowerCase()).sort().join(',');
+    return this.cached(`openapi:${select}`, async () => {
+      const { data } = await this.transport.request<OpenApiDocument>(
+        `${this.baseUrl}?select=${encodeURIComponent(select)}`,
+        { headers: { Accept: 'application/swagger+json' } },
+      );
+      return data;
+    });
+  }
+
+  /** Fields of a record type: type, mandatory, read-only, enum values and sublists */
+  async getFields(recordType: RecordType): Promise<RecordFieldInfo[]> {
+    return describeRecordFields(await this.getSchema(recordType));
+  }
+
+  /**
+   * One field of a record type, or undefined when it has none by that
+   * name. Sublist fields can be reached with a dotted path, e.g.
+   * `item.quantity`.
+   */
+  async getField(recordType: RecordType, path: string): Promise<RecordFieldInfo | undefined> {
+    let fields: RecordFieldInfo[] | undefined = await this.getFields(recordType);
+    let field: RecordFieldInfo | undefined;
+    for (const name of path.split('.')) {
+      field = fields?.find((f) => f.name === name);
+      if (!field) return undefined;
+      fields = field.fields;
+    }
+    return field;
+  }
+
+  /**
+   * Forget cached metadata: one record type's schema, or everything.
+   * Call after customizing the account so new fields show up.
+   */
+  clearCache(recordType?: RecordType): void {
+    if (recordType === undefined) {
+      this.cache.clear();
+      return;
+    }
+    this.cache.delete(`schema:${recordType.toLowerCase()}`);
+    for (const key of this.cache.keys()) {
+      if (key.startsWith('openapi:')) this.cache.delete(key);
+    }
+  }
+
+  /**
+   * Share one request per key until it expires; failed loads are not kept.
+   * Every caller gets its own copy, so changing one can't affect the others.
+   */
+  private async cached<T>(key: string, load: () => Promise<T>): Promise<T> {
+    let entry = this.cache.get(key) as CachedEntry<T> | undefined;
+    if (!entry || Date.now() > entry.expiresAt) {
+      const value = load();
+      entry = { value, expiresAt: Date.now() + this.ttl };
+      this.cache.set(key, entry);
+      value.catch(() => {
+        if (this.cache.get(key)?.value === value) this.cache.delete(key);
+      });
+    }
+    return structuredClone(await entry.value);
+  }
+}
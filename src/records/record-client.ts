@@ -5,7 +5,10 @@ import type {
   RecordGetOptions,
   RecordListOptions,
   RecordListResponse,
+  RecordWriteOptions,
+  RecordWriteResult,
 } from '../types/records.js';
+import { describeEndpoint } from '../utils/url-builder.js';
 
 /**
  * Client for NetSuite REST Record API v1.
@@ -37,7 +40,10 @@ export class RecordClient {
     const qs = params.toString();
     const url = `${this.baseUrl}/${recordType}/${id}${qs ? `?${qs}` : ''}`;
 
-    return this.transport.request<T>(url);
+    return this.transport.request<T>(
+      url,
+      options && { coalesce: options.coalesce, cache: options.cache },
+    );
   }
 
   /** List records of a given type */
@@ -61,15 +67,28 @@ export class RecordClient {
     return this.transport.request<RecordListResponse<T>>(url);
   }
 
-  /** Create a new record */
+  /**
+   * Create a new record. The result carries the new record's `id` and `url`;
+   * set `fetch` to also get the record back.
+   *
+   * @example
+   * ```ts
+   * const { id } = await client.records.create('customer', { companyName: 'Acme' });
+   * const { record } = await client.records.create<Customer>('customer', body, {
+   *   fetch: { fields: ['entityId', 'dateCreated'] },
+   * });
+   * ```
+   */
   async create<T = Record<string, unknown>>(
     recordType: RecordType,
     body: Record<string, unknown>,
-  ): Promise<NetSuiteResponse<T>> {
-    return this.transport.request<T>(`${this.baseUrl}/${recordType}`, {
+    options?: RecordWriteOptions,
+  ): Promise<RecordWriteResult<T>> {
+    const response = await this.transport.request<void>(`${this.baseUrl}/${recordType}`, {
       method: 'POST',
       body,
     });
+    return this.writeResult<T>(response, options);
   }
 
   /** Update an existing record (partial update via PATCH) */
@@ -106,16 +125,60 @@ export class RecordClient {
     });
   }
 
-  /** Upsert: create or update based on external ID */
+  /** Upsert: create or update based on external ID. The result carries the internal `id`. */
   async upsert<T = Record<string, unknown>>(
     recordType: RecordType,
     externalIdField: string,
     externalIdValue: string,
     body: Record<string, unknown>,
-  ): Promise<NetSuiteResponse<T>> {
-    return this.transport.request<T>(
+    options?: RecordWriteOptions,
+  ): Promise<RecordWriteResult<T>> {
+    const response = await this.transport.request<void>(
       `${this.baseUrl}/${recordType}/eid:${externalIdField}=${externalIdValue}`,
       { method: 'PUT', body },
     );
+    return this.writeResult<T>(response, options);
+  }
+
+  /**
+   * Create a record from another one, e.g. a sales order into an invoice.
+   * The result carries the new record's `id`.
+   *
+   * @example
+   * ```ts
+   * const { id } = await client.records.transform('salesOrder', 42, 'invoice');
+   * ```
+   */
+  async transform<T = Record<string, unknown>>(
+    recordType: RecordType,
+    id: string | number,
+    targetType: RecordType,
+    body: Record<string, unknown> = {},
+    options?: RecordWriteOptions,
+  ): Promise<RecordWriteResult<T>> {
+    const response = await this.transport.request<void>(
+      `${this.baseUrl}/${recordType}/${id}/!transform/${targetType}`,
+      { method: 'POST', body },
+    );
+    return this.writeResult<T>(response, options);
+  }
+
+  /** Read the written record's ID from `Location`, fetching the record if asked */
+  private async writeResult<T>(
+    response: NetSuiteResponse<void>,
+    options: RecordWriteOptions = {},
+  ): Promise<RecordWriteResult<T>> {
+    const url = response.headers.location ?? response.headers.Location;
+    const result: RecordWriteResult<T> = { ...response, url };
+    if (!url) return result;
+
+    const { recordType, recordId } = describeEndpoint(url);
+    result.id = recordId;
+    // Records written in a dry run don't exist yet
+    if (options.fetch && recordType && recordId && !this.transport.dryRun) {
+      const getOptions = options.fetch === true ? {} : options.fetch;
+      result.record = (await this.get<T>(recordType, recordId, getOptions)).data;
+    }
+    return result;
   }
 }
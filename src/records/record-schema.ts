@@ -0,0 +1,102 @@
+import type { JsonSchema, RecordFieldInfo } from '../types/metadata.js';
+
+// Field ID prefixes NetSuite gives custom fields (entity, body, column, item, ...)
+const CUSTOM_FIELD = /^cust(entity|body|col|item|event|record|itemnumber)/i;
+
+/** Follow a local `#/definitions/...` reference; other references are left as is */
+function resolve(schema: JsonSchema, root: JsonSchema): JsonSchema {
+  let current = schema;
+  const seen = new Set<string>();
+  while (current.$ref?.startsWith('#/') && !seen.has(current.$ref)) {
+    seen.add(current.$ref);
+    let target: unknown = root;
+    for (const part of current.$ref.slice(2).split('/')) {
+      target = (target as Record<string, unknown> | undefined)?.[part.replace(/~1/g, '/')];
+    }
+    if (!target || typeof target !== 'object') break;
+    current = { ...(target as JsonSchema), ...omitRef(current) };
+  }
+  return current;
+}
+
+function omitRef(schema: JsonSchema): JsonSchema {
+  const { $ref: _ref, ...rest } = schema;
+  return rest;
+}
+
+/** Record type a reference field points to, from a `$ref` like ".../metadata-catalog/subsidiary" */
+function referenceType(schema: JsonSchema): string | undefined {
+  const ref = schema.$ref;
+  if (!ref || ref.startsWith('#')) return undefined;
+  return ref.split('/').filter(Boolean).pop();
+}
+
+/**
+ * A sublist is an array of lines, or (as NetSuite returns them) an object
+ * wrapping such an array in `items`.
+ */
+function sublistLines(schema: JsonSchema, root: JsonSchema): JsonSchema | undefined {
+  if (schema.type === 'array' && schema.items) return resolve(schema.items, root);
+  const items = schema.properties?.items;
+  if (schema.type === 'object' && items) {
+    const resolved = resolve(items, root);
+    if (resolved.type === 'array' && resolved.items) return resolve(resolved.items, root);
+  }
+  return undefined;
+}
+
+function describeField(
+  name: string,
+  raw: JsonSchema,
+  required: Set<string>,
+  root: JsonSchema,
+): RecordFieldInfo {
+  const schema = resolve(raw, root);
+  const type = Array.isArray(schema.type)
+    ? schema.type.find((t) => t !== 'null')
+    : schema.type;
+  const nullable =
+    schema.nullable === true || (Array.isArray(schema.type) && schema.type.includes('null'));
+  // Select fields with fixed values put the list on their `id`
+  const enumValues = schema.enum ?? schema.properties?.id?.enum;
+  const reference = referenceType(raw) ?? referenceType(schema);
+  const lines = sublistLines(schema, root);
+
+  const field: RecordFieldInfo = {
+    name,
+    ...(schema.title && { label: schema.title }),
+    ...(type && { type }),
+    ...(schema.format && { format: schema.format }),
+    mandatory: required.has(name),
+    readOnly: schema.readOnly === true,
+    nullable,
+    custom: schema['x-ns-custom-field'] === true || CUSTOM_FIELD.test(name),
+    ...(enumValues && { enumValues }),
+    ...(reference && !lines && { referenceType: reference }),
+    sublist: lines !== undefined,
+  };
+  if (lines) field.fields = fieldsOf(lines, root);
+  return field;
+}
+
+/**
+ * Flatten a record type's JSON Schema into one entry per field, in schema
+ * order. Sublists carry the fields of their lines in `fields`.
+ *
+ * @example
+ * ```ts
+ * const schema = await client.metadata.getSchema('customer');
+ * const mandatory = describeRecordFields(schema).filter((f) => f.mandatory);
+ * ```
+ */
+export function describeRecordFields(schema: JsonSchema): RecordFieldInfo[] {
+  return fieldsOf(schema, schema);
+}
+
+function fieldsOf(schema: JsonSchema, root: JsonSchema): RecordFieldInfo[] {
+  const resolved = resolve(schema, root);
+  const required = new Set(resolved.required ?? []);
+  return Object.entries(resolved.properties ?? {})
+    .filter(([name]) => name !== 'links')
+    .map(([name, field]) => describeField(name, field, required, root));
+}
@@ -1,6 +1,18 @@
-import type { HttpTransport } from '../transport/http-transport.js';
+import { NETSUITE_METRICS } from '../metrics/metrics.js';
+import { createRequestScope, type HttpTransport } from '../transport/http-transport.js';
+import { createRequestCancellation } from '../transport/cancellation.js';
+import { randomBase64Url } from '../utils/crypto.js';
+import type { TypedEventEmitter } from '../utils/event-emitter.js';
+import type { RequestCoalescer } from '../utils/request-coalescer.js';
+import type { RequestCache } from '../cache/request-cache.js';
+import { createCacheKey } from '../utils/response-cache.js';
+import type { MetricsSink } from '../types/metrics.js';
+import type { NetSuiteEvents } from '../types/events.js';
+import type { RequestScope } from '../types/middleware.js';
 import type { SuiteQLOptions, SuiteQLResult, SuiteQLRawResponse } from '../types/suiteql.js';
 
+const SUITEQL_LABELS = { api: 'suiteql' };
+
 /**
  * SuiteQL client for executing queries against the NetSuite SuiteQL REST endpoint.
  *
@@ -9,9 +21,24 @@ import type { SuiteQLOptions, SuiteQLResult, SuiteQLRawResponse } from '../types
 export class SuiteQLClient {
   private transport: HttpTransport;
   private baseUrl: string;
+  private metrics?: MetricsSink;
+  private events?: TypedEventEmitter<NetSuiteEvents>;
+  private coalescer?: RequestCoalescer;
+  private cache?: RequestCache;
 
-  constructor(transport: HttpTransport, accountId: string) {
+  constructor(
+    transport: HttpTransport,
+    accountId: string,
+    metrics?: MetricsSink,
+    events?: TypedEventEmitter<NetSuiteEvents>,
+    coalescer?: RequestCoalescer,
+    cache?: RequestCache,
+  ) {
     this.transport = transport;
+    this.metrics = metrics;
+    this.events = events;
+    this.coalescer = coalescer;
+    this.cache = cache;
     const normalizedId = accountId.toLowerCase().replace(/_/g, '-');
     this.baseUrl = `https://${normalizedId}.suitetalk.api.netsuite.com/services/rest/query/v1/suiteql`;
   }
@@ -34,11 +61,53 @@ export class SuiteQLClient {
     sql: string,
     options: SuiteQLOptions = {},
   ): Promise<SuiteQLResult<T>> {
+    const { pageSize, offset, maxRows, timeout } = options;
+    // Only the fields that shape the result; timeouts and cancellation are per call
+    const key = createCacheKey(this.baseUrl, 'POST', { q: sql, pageSize, offset, maxRows });
+    if (!this.cache || options.cache === false) {
+      return this.coalescedQuery<T>(sql, key, options);
+    }
+    // A background refresh outlives the caller that triggered it
+    return this.cache.fetch('suiteql', key, (background) =>
+      this.coalescedQuery<T>(
+        sql,
+        key,
+        background ? { pageSize, offset, maxRows, timeout } : options,
+      ),
+    );
+  }
+
+  private async coalescedQuery<T>(
+    sql: string,
+    key: string,
+    options: SuiteQLOptions,
+  ): Promise<SuiteQLResult<T>> {
+    const { signal, deadline, coalesce, ...shared } = options;
+    if (!this.coalescer || coalesce === false) {
+      return this.runQuery<T>(sql, options);
+    }
+
+    // Identical concurrent queries share one run; callers keep their own signal and deadline
+    const cancellation = createRequestCancellation({ signal, deadline }, this.baseUrl, 'POST');
+    try {
+      return await this.coalescer.run(
+        key,
+        (sharedSignal) => this.runQuery<T>(sql, { ...shared, signal: sharedSignal }),
+        cancellation.signal,
+      );
+    } finally {
+      cancellation.dispose();
+    }
+  }
+
+  private async runQuery<T>(sql: string, options: SuiteQLOptions): Promise<SuiteQLResult<T>> {
     const {
       pageSize = 1000,
       offset: startOffset = 0,
       maxRows = Infinity,
       timeout,
+      signal,
+      deadline,
     } = options;
 
     const allItems: T[] = [];
@@ -46,31 +115,37 @@ export class SuiteQLClient {
     let totalResults = 0;
     let pagesFetched = 0;
     const startTime = performance.now();
+    // Every page request runs in this scope, so middleware can group them
+    const query = createRequestScope(randomBase64Url(9));
+    let failure: unknown;
 
-    while (true) {
-      const effectiveLimit = Math.min(pageSize, maxRows - allItems.length);
-      if (effectiveLimit <= 0) break;
-
-      const url = `${this.baseUrl}?limit=${effectiveLimit}&offset=${currentOffset}`;
+    try {
+      while (true) {
+        const effectiveLimit = Math.min(pageSize, maxRows - allItems.length);
+        if (effectiveLimit <= 0) break;
 
-      const response = await this.transport.request<SuiteQLRawResponse<T>>(url, {
-        method: 'POST',
-        body: { q: sql },
-        headers: { Prefer: 'transient' },
-        timeout,
-      });
+        const page = await this.fetchPage<T>(sql, query, ++pagesFetched, effectiveLimit, {
+          offset: currentOffset,
+          timeout,
+          signal,
+          deadline,
+        });
+        totalResults = page.totalResults;
 
-      const page = response.data;
-      totalResults = page.totalResults;
-      pagesFetched++;
+        allItems.push(...page.items);
 
-      allItems.push(...page.items);
+        // Determine if more pages exist
+        const hasMore = page.hasMore || currentOffset + page.items.length < totalResults;
+        if (!hasMore || allItems.length >= maxRows || page.items.length === 0) break;
 
-      // Determine if more pages exist
-      const hasMore = page.hasMore || currentOffset + page.items.length < totalResults;
-      if (!hasMore || allItems.length >= maxRows || page.items.length === 0) break;
-
-      currentOffset += page.items.length;
+        currentOffset += page.items.length;
+      }
+    } catch (error) {
+      failure = error;
+      throw error;
+    } finally {
+      this.metrics?.observe(NETSUITE_METRICS.suiteqlPages, SUITEQL_LABELS, pagesFetched);
+      query.settle(failure);
     }
 
     return {
@@ -123,35 +198,87 @@ export class SuiteQLClient {
       offset: startOffset = 0,
       maxRows = Infinity,
       timeout,
+      signal,
+      deadline,
     } = options;
 
     let currentOffset = startOffset;
     let totalYielded = 0;
+    let pagesFetched = 0;
+    // Every page request runs in this scope, so middleware can group them
+    const query = createRequestScope(randomBase64Url(9));
+    let failure: unknown;
 
-    while (true) {
-      const effectiveLimit = Math.min(pageSize, maxRows - totalYielded);
-      if (effectiveLimit <= 0) return;
+    try {
+      while (true) {
+        const effectiveLimit = Math.min(pageSize, maxRows - totalYielded);
+        if (effectiveLimit <= 0) return;
 
-      const url = `${this.baseUrl}?limit=${effectiveLimit}&offset=${currentOffset}`;
+        const page = await this.fetchPage<T>(sql, query, ++pagesFetched, effectiveLimit, {
+          offset: currentOffset,
+          timeout,
+          signal,
+          deadline,
+        });
 
-      const response = await this.transport.request<SuiteQLRawResponse<T>>(url, {
-        method: 'POST',
-        body: { q: sql },
-        headers: { Prefer: 'transient' },
-        timeout,
-      });
+        if (page.items.length === 0) return;
 
-      const page = response.data;
+        yield page.items;
 
-      if (page.items.length === 0) return;
+        totalYielded += page.items.length;
+        const hasMore = page.hasMore || currentOffset + page.items.length < page.totalResults;
+        if (!hasMore || totalYielded >= maxRows) return;
 
-      yield page.items;
+        currentOffset += page.items.length;
+      }
+    } catch (error) {
+      failure = error;
+      throw error;
+    } finally {
+      this.metrics?.observe(NETSUITE_METRICS.suiteqlPages, SUITEQL_LABELS, pagesFetched);
+      query.settle(failure);
+    }
+  }
 
-      totalYielded += page.items.length;
-      const hasMore = page.hasMore || currentOffset + page.items.length < page.totalResults;
-      if (!hasMore || totalYielded >= maxRows) return;
+  /** Fetch one page, recording row metrics and emitting `suiteql:page` */
+  private async fetchPage<T>(
+    sql: string,
+    query: RequestScope,
+    pageNumber: number,
+    limit: number,
+    options: Pick<SuiteQLOptions, 'timeout' | 'signal' | 'deadline'> & { offset: number },
+  ): Promise<SuiteQLRawResponse<T>> {
+    const { offset, timeout, signal, deadline } = options;
+    const queryId = query.id;
+    const requestId = `${queryId}.${pageNumber}`;
 
-      currentOffset += page.items.length;
-    }
+    const response = await this.transport.request<SuiteQLRawResponse<T>>(
+      `${this.baseUrl}?limit=${limit}&offset=${offset}`,
+      {
+        method: 'POST',
+        body: { q: sql },
+        headers: { Prefer: 'transient' },
+        // Queries are read-only, so they retry like GETs without a key
+        idempotent: true,
+        timeout,
+        signal,
+        deadline,
+        requestId,
+        parentScope: query,
+      },
+    );
+
+    const page = response.data;
+    this.metrics?.increment(NETSUITE_METRICS.suiteqlRows, SUITEQL_LABELS, page.items.length);
+    this.events?.emit('suiteql:page', {
+      queryId,
+      requestId,
+      page: pageNumber,
+      offset,
+      rows: page.items.length,
+      totalResults: page.totalResults,
+      hasMore: page.hasMore || offset + page.items.length < page.totalResults,
+    });
+    return page;
   }
 }
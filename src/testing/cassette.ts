@@ -0,0 +1,289 @@
+import { createHttpError } from '../transport/http-error.js';
+import { NetSuiteError } from '../types/errors.js';
+import type { HttpMethod } from '../types/http.js';
+import type { Middleware, RequestContext, ResponseContext } from '../types/middleware.js';
+
+/**
+ * - `record` — always hit NetSuite and overwrite the cassette
+ * - `replay` — serve recorded responses only; unmatched requests fail
+ * - `record-missing` — replay matches, hit NetSuite and record the rest
+ */
+export type CassetteMode = 'record' | 'replay' | 'record-missing';
+
+export interface RecordedRequest {
+  method: HttpMethod;
+  url: string;
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+export interface RecordedResponse {
+  status: number;
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+export interface CassetteInteraction {
+  request: RecordedRequest;
+  response: RecordedResponse;
+}
+
+export interface CassetteOptions {
+  /** Path of the cassette JSON file */
+  path: string;
+  /** Default: "replay" */
+  mode?: CassetteMode;
+  /** Extra header names to scrub (Authorization and cookies are always scrubbed) */
+  scrubHeaders?: string[];
+  /** Body field names to scrub at any depth, in requests and responses */
+  scrubFields?: string[];
+  /** Extra query params to ignore when matching (OAuth params and SuiteQL `offset` always are) */
+  ignoreQueryParams?: string[];
+  /** Replace the default matcher (method, normalized URL, body) */
+  match?: (recorded: RecordedRequest, request: RecordedRequest) => boolean;
+}
+
+interface CassetteFile {
+  version: 1;
+  interactions: CassetteInteraction[];
+}
+
+/** Replaces scrubbed header and field values in stored cassettes */
+export const SCRUBBED = '[SCRUBBED]';
+
+const ALWAYS_SCRUBBED_HEADERS = ['authorization', 'cookie', 'set-cookie', 'proxy-authorization'];
+const ALWAYS_IGNORED_PARAMS = [
+  'oauth_consumer_key',
+  'oauth_nonce',
+  'oauth_signature',
+  'oauth_signature_method',
+  'oauth_timestamp',
+  'oauth_token',
+  'oauth_version',
+];
+
+/**
+ * Records real request/response pairs to a JSON cassette and replays them
+ * without network access, for deterministic integration tests.
+ *
+ * Matching ignores OAuth nonces/timestamps (headers are never compared) and
+ * SuiteQL pagination offsets; repeated matches are served in recorded order,
+ * so paginated queries replay page by page.
+ *
+ * `authorize()` still runs before the middleware chain, so replay OAuth 2.0
+ * clients with a stub `AuthProvider` to avoid token requests.
+ *
+ * @example
+ * ```ts
+ * const cassette = new Cassette({
+ *   path: '__cassettes__/customers.json',
+ *   mode: process.env.RECORD ? 'record' : 'replay',
+ * });
+ * client.use(cassette.middleware());
+ * ```
+ */
+export class Cassette {
+  private options: CassetteOptions;
+  private mode: CassetteMode;
+  private scrubHeaders: Set<string>;
+  private scrubFields: Set<string>;
+  private ignoredParams: Set<string>;
+  private interactions: CassetteInteraction[] | null = null;
+  private loading: Promise<CassetteInteraction[]> | null = null;
+  private played = new Set<CassetteInteraction>();
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(options: CassetteOptions) {
+    this.options = options;
+    this.mode = options.mode ?? 'replay';
+    this.scrubHeaders = new Set(
+      [...ALWAYS_SCRUBBED_HEADERS, ...(options.scrubHeaders ?? [])].map((h) => h.toLowerCase()),
+    );
+    this.scrubFields = new Set(options.scrubFields ?? []);
+    this.ignoredParams = new Set([...ALWAYS_IGNORED_PARAMS, ...(options.ignoreQueryParams ?? [])]);
+  }
+
+  /** Middleware that records or replays according to the cassette mode. */
+  middleware(): Middleware {
+    return async (context, next) => {
+      const interactions = await this.load();
+      const request = this.toRecordedRequest(context);
+
+      if (this.mode !== 'record') {
+        const recorded = this.findInteraction(interactions, request);
+        if (recorded) {
+          return this.replay(recorded, context);
+        }
+        if (this.mode === 'replay') {
+          throw new NetSuiteError(
+            `No recorded interaction matches ${context.method} ${context.url}`,
+            0,
+            'CASSETTE_MISS',
+            undefined,
+            context.url,
+            context.method,
+            { requestSent: false },
+          );
+        }
+      }
+
+      let response: ResponseContext;
+      try {
+        response = await next();
+      } catch (error) {
+        // Error responses surface as NetSuiteError; record them so replay fails the same way
+        if (error instanceof NetSuiteError && error.responseHeaders) {
+          await this.record(interactions, request, {
+            status: error.status,
+            headers: error.responseHeaders,
+            body: error.details,
+          });
+        }
+        throw error;
+      }
+
+      await this.record(interactions, request, {
+        status: response.status,
+        headers: response.headers,
+        body: response.body,
+      });
+      return response;
+    };
+  }
+
+  /** Recorded interactions (after scrubbing). */
+  async getInteractions(): Promise<CassetteInteraction[]> {
+    return [...(await this.load())];
+  }
+
+  private load(): Promise<CassetteInteraction[]> {
+    if (this.interactions) return Promise.resolve(this.interactions);
+
+    this.loading ??= (async () => {
+      if (this.mode === 'record') {
+        this.interactions = [];
+        return this.interactions;
+      }
+      const { readFile } = await import('node:fs/promises');
+      try {
+        const file = JSON.parse(await readFile(this.options.path, 'utf8')) as CassetteFile;
+        this.interactions = file.interactions;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+        this.interactions = [];
+      }
+      return this.interactions;
+    })();
+    return this.loading;
+  }
+
+  private findInteraction(
+    interactions: CassetteInteraction[],
+    request: RecordedRequest,
+  ): CassetteInteraction | undefined {
+    const matches = interactions.filter((interaction) =>
+      this.options.match
+        ? this.options.match(interaction.request, request)
+        : this.matches(interaction.request, request),
+    );
+    // Serve matches in recorded order, then keep repeating the last one
+    const next = matches.find((interaction) => !this.played.has(interaction)) ?? matches.at(-1);
+    if (next) this.played.add(next);
+    return next;
+  }
+
+  private matches(recorded: RecordedRequest, request: RecordedRequest): boolean {
+    return (
+      recorded.method === request.method &&
+      this.normalizeUrl(recorded.url) === this.normalizeUrl(request.url) &&
+      stableStringify(recorded.body) === stableStringify(request.body)
+    );
+  }
+
+  private normalizeUrl(url: string): string {
+    const parsed = new URL(url);
+    const isSuiteQL = parsed.pathname.endsWith('/query/v1/suiteql');
+    for (const key of [...parsed.searchParams.keys()]) {
+      if (this.ignoredParams.has(key) || (isSuiteQL && key === 'offset')) {
+        parsed.searchParams.delete(key);
+      }
+    }
+    parsed.searchParams.sort();
+    return parsed.toString();
+  }
+
+  private replay(recorded: CassetteInteraction, context: RequestContext): ResponseContext {
+    const { status, headers, body } = recorded.response;
+    if (status >= 400) {
+      throw createHttpError(status, body, headers, context.url, context.method);
+    }
+    return { status, headers: { ...headers }, body: structuredClone(body), duration: 0 };
+  }
+
+  private async record(
+    interactions: CassetteInteraction[],
+    request: RecordedRequest,
+    response: RecordedResponse,
+  ): Promise<void> {
+    const interaction: CassetteInteraction = {
+      request,
+      response: {
+        status: response.status,
+        headers: this.scrubHeaderValues(response.headers),
+        body: this.scrubBody(response.body),
+      },
+    };
+    interactions.push(interaction);
+    this.played.add(interaction);
+
+    const file: CassetteFile = { version: 1, interactions };
+    const contents = JSON.stringify(file, null, 2);
+    this.saving = this.saving.then(async () => {
+      const { writeFile, mkdir } = await import('node:fs/promises');
+      const { dirname } = await import('node:path');
+      await mkdir(dirname(this.options.path), { recursive: true });
+      await writeFile(this.options.path, contents);
+    });
+    await this.saving;
+  }
+
+  private toRecordedRequest(context: RequestContext): RecordedRequest {
+    return {
+      method: context.method,
+      url: context.url,
+      headers: this.scrubHeaderValues(context.headers),
+      body: this.scrubBody(context.body),
+    };
+  }
+
+  private scrubHeaderValues(headers: Record<string, string>): Record<string, string> {
+    const result: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers)) {
+      result[name] = this.scrubHeaders.has(name.toLowerCase()) ? SCRUBBED : value;
+    }
+    return result;
+  }
+
+  private scrubBody(value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.scrubBody(item));
+    }
+    if (value && typeof value === 'object') {
+      const result: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        result[key] = this.scrubFields.has(key) ? SCRUBBED : this.scrubBody(item);
+      }
+      return result;
+    }
+    return value;
+  }
+}
+
+/** JSON with sorted object keys, so key order never affects matching */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, item) =>
+    item && typeof item === 'object' && !Array.isArray(item)
+      ? Object.fromEntries(Object.entries(item).sort(([a], [b]) => a.localeCompare(b)))
+      : item,
+  ) ?? '';
+}
@@ -0,0 +1,457 @@
+import { HttpAdapterError } from '../types/adapter.js';
+import { evaluateSuiteQL, SuiteQLSyntaxError, type SuiteQLRow } from './suiteql-evaluator.js';
+import type { AdapterRequest, AdapterResponse, HttpAdapter } from '../types/adapter.js';
+import type { HttpMethod } from '../types/http.js';
+
+/** A RESTlet implementation served by the stand-in */
+export type StandInRestlet = (request: {
+  method: HttpMethod;
+  params: Record<string, string>;
+  body?: unknown;
+}) => unknown | Promise<unknown>;
+
+export interface StandInFault {
+  /** Only fault requests this predicate accepts. Default: every request */
+  match?: (request: AdapterRequest) => boolean;
+  /** Respond with this status (429 or 5xx) instead of handling the request */
+  status?: number;
+  /** `o:errorCode` to report. Default: CONCURRENCY_LIMIT_EXCEEDED (429) or UNEXPECTED_ERROR */
+  errorCode?: string;
+  /** `Retry-After` header (seconds) for throttling faults */
+  retryAfter?: number;
+  /** Delay before responding, in ms. Longer than the request timeout → timeout */
+  latency?: number;
+  /** How many matching requests to fault. Default: Infinity */
+  times?: number;
+}
+
+export interface NetSuiteStandInOptions {
+  /** Records to load, keyed by record type (e.g. `{ customer: [{ id: '1', ... }] }`) */
+  records?: Record<string, SuiteQLRow[]>;
+}
+
+const RECORD_PATH = '/services/rest/record/v1/';
+const RESOURCE_CONTENT_TYPE = 'application/vnd.oracle.resource+json';
+const IDEMPOTENCY_HEADER = 'x-netsuite-idempotency-key';
+
+/** NetSuite-style error envelope (RFC 9457 problem details) */
+function errorResponse(
+  status: number,
+  title: string,
+  code: string,
+  detail: string,
+): AdapterResponse {
+  return {
+    status,
+    headers: { 'content-type': `${RESOURCE_CONTENT_TYPE}; type=error` },
+    data: {
+      type: `https://www.rfc-editor.org/rfc/rfc9110.html#section-15.${status >= 500 ? 6 : 5}`,
+      title,
+      status,
+      'o:errorCode': code,
+      'o:errorDetails': [{ detail, 'o:errorCode': code }],
+    },
+  };
+}
+
+function toRow(record: SuiteQLRow): SuiteQLRow {
+  return structuredClone(record);
+}
+
+/**
+ * In-process fake NetSuite for offline development and tests.
+ *
+ * Serves the URLs the SDK builds — REST records (`/services/rest/record/v1`),
+ * SuiteQL (`/services/rest/query/v1/suiteql`) and RESTlets (`restlet.nl`) —
+ * from in-memory record stores, with NetSuite's error envelopes, pagination
+ * metadata and 204 + `Location` on create. Plug it in as the HTTP adapter:
+ *
+ * @example
+ * ```ts
+ * const standIn = new NetSuiteStandIn({
+ *   records: { customer: [{ id: '1', companyName: 'Acme', isInactive: false }] },
+ * });
+ * const client = new NetSuiteClient({
+ *   auth: { authorize: async () => ({}) },
+ *   accountId: '1234567',
+ *   adapter: standIn.adapter(),
+ * });
+ *
+ * standIn.injectFault({ status: 429, times: 1 }); // first request is throttled
+ * ```
+ */
+export class NetSuiteStandIn {
+  /** Every request received, in order */
+  readonly requests: AdapterRequest[] = [];
+  private stores = new Map<string, Map<string, SuiteQLRow>>();
+  private restlets = new Map<string, StandInRestlet>();
+  private faults: Array<StandInFault & { remaining: number }> = [];
+  private idempotentCreates = new Map<string, string>();
+
+  constructor(options: NetSuiteStandInOptions = {}) {
+    for (const [type, records] of Object.entries(options.records ?? {})) {
+      this.seed(type, records);
+    }
+  }
+
+  /** Add or replace records of a type. Records without an `id` get one assigned. */
+  seed(recordType: string, records: SuiteQLRow[]): this {
+    const store = this.getStore(recordType);
+    for (const record of records) {
+      const id = record.id != null ? String(record.id) : this.nextId(store);
+      store.set(id, { ...toRow(record), id });
+    }
+    return this;
+  }
+
+  /** Current records of a type */
+  getRecords(recordType: string): SuiteQLRow[] {
+    return [...this.getStore(recordType).values()].map(toRow);
+  }
+
+  /** Serve a RESTlet for the given script and deploy IDs */
+  restlet(script: string | number, deploy: string | number, handler: StandInRestlet): this {
+    this.restlets.set(`${script}:${deploy}`, handler);
+    return this;
+  }
+
+  /** Make upcoming requests fail or slow down */
+  injectFault(fault: StandInFault): this {
+    this.faults.push({ ...fault, remaining: fault.times ?? Infinity });
+    return this;
+  }
+
+  /** Remove all injected faults */
+  clearFaults(): void {
+    this.faults = [];
+  }
+
+  /** An `HttpAdapter` that routes requests to this stand-in */
+  adapter(): HttpAdapter {
+    return { request: (request) => this.handle(request) };
+  }
+
+  /** Handle one request as NetSuite would. */
+  async handle(request: AdapterRequest): Promise<AdapterResponse> {
+    this.requests.push(request);
+
+    const fault = this.faults.find((f) => f.remaining > 0 && (!f.match || f.match(request)));
+    if (fault) {
+      fault.remaining--;
+      if (fault.latency) await this.delay(fault.latency, request);
+      if (fault.status) return this.faultResponse(fault);
+    }
+
+    const url = new URL(request.url);
+    const params = Object.fromEntries(url.searchParams);
+    try {
+      if (url.pathname.startsWith(RECORD_PATH)) {
+        const path = url.pathname.slice(RECORD_PATH.length);
+        return this.handleRecord(request, path, params, url);
+      }
+      if (url.pathname === '/services/rest/query/v1/suiteql') {
+        return this.handleSuiteQL(request, params, url);
+      }
+      if (url.pathname === '/app/site/hosting/restlet.nl') {
+        return await this.handleRestlet(request, params);
+      }
+    } catch (error) {
+      const message = (error as Error).message;
+      return errorResponse(500, 'Internal Server Error', 'UNEXPECTED_ERROR', message);
+    }
+    const message = `No NetSuite endpoint at ${url.pathname}`;
+    return errorResponse(404, 'Not Found', 'INVALID_URL', message);
+  }
+
+  private handleRecord(
+    request: AdapterRequest,
+    path: string,
+    params: Record<string, string>,
+    url: URL,
+  ): AdapterResponse {
+    const [recordType, rawId, ...rest] = path.split('/').map(decodeURIComponent);
+    if (rest[0] === '!transform' && rest.length === 2 && request.method === 'POST') {
+      return this.transformRecord(request, recordType, rawId, rest[1], url);
+    }
+    if (!recordType || rest.length > 0) {
+      return errorResponse(404, 'Not Found', 'INVALID_URL', `Unsupported record path ${path}`);
+    }
+    const store = this.getStore(recordType);
+    const collectionUrl = `${url.origin}${RECORD_PATH}${recordType}`;
+
+    if (rawId === undefined) {
+      if (request.method === 'GET') return this.listRecords(store, params, collectionUrl);
+      if (request.method === 'POST') return this.createRecord(request, store, collectionUrl);
+      return this.methodNotAllowed(request.method);
+    }
+
+    let id = rawId;
+    if (rawId.startsWith('eid:')) {
+      // External ID upsert: PUT /{type}/eid:field=value
+      const [field, value] = rawId.slice(4).split('=');
+      const existing = [...store.values()].find((record) => String(record[field]) === value);
+      if (request.method === 'PUT') {
+        id = existing ? String(existing.id) : this.nextId(store);
+        store.set(id, { ...(request.body as SuiteQLRow), [field]: value, id });
+        return this.created(`${collectionUrl}/${id}`);
+      }
+      if (!existing) return this.notFound(recordType, rawId);
+      id = String(existing.id);
+    }
+
+    const record = store.get(id);
+    switch (request.method) {
+      case 'GET': {
+        if (!record) return this.notFound(recordType, id);
+        const fields = params.fields?.split(',');
+        const body = fields
+          ? Object.fromEntries(
+              Object.entries(record).filter(([key]) => key === 'id' || fields.includes(key)),
+            )
+          : toRow(record);
+        return {
+          status: 200,
+          headers: { 'content-type': `${RESOURCE_CONTENT_TYPE}; type=singular-resource` },
+          data: { links: [{ rel: 'self', href: `${collectionUrl}/${id}` }], ...body },
+        };
+      }
+      case 'PATCH':
+        if (!record) return this.notFound(recordType, id);
+        store.set(id, { ...record, ...(request.body as SuiteQLRow), id });
+        return { status: 204, headers: {}, data: undefined };
+      case 'PUT':
+        if (!record) return this.notFound(recordType, id);
+        store.set(id, { ...(request.body as SuiteQLRow), id });
+        return { status: 204, headers: {}, data: undefined };
+      case 'DELETE':
+        if (!record) return this.notFound(recordType, id);
+        store.delete(id);
+        return { status: 204, headers: {}, data: undefined };
+      default:
+        return this.methodNotAllowed(request.method);
+    }
+  }
+
+  /** POST /{type}/{id}/!transform/{targetType}: a new target record based on the source */
+  private transformRecord(
+    request: AdapterRequest,
+    recordType: string,
+    id: string,
+    targetType: string,
+    url: URL,
+  ): AdapterResponse {
+    const source = this.getStore(recordType).get(id);
+    if (!source) return this.notFound(recordType, id);
+
+    const target = this.getStore(targetType);
+    const newId = this.nextId(target);
+    target.set(newId, {
+      ...source,
+      ...(request.body as SuiteQLRow | undefined),
+      createdFrom: id,
+      id: newId,
+    });
+    return this.created(`${url.origin}${RECORD_PATH}${targetType}/${newId}`);
+  }
+
+  private listRecords(
+    store: Map<string, SuiteQLRow>,
+    params: Record<string, string>,
+    collectionUrl: string,
+  ): AdapterResponse {
+    const limit = Math.min(Number(params.limit ?? 1000), 1000);
+    const offset = Number(params.offset ?? 0);
+    const all = [...store.values()];
+    const page = all.slice(offset, offset + limit);
+    return {
+      status: 200,
+      headers: { 'content-type': `${RESOURCE_CONTENT_TYPE}; type=collection` },
+      data: {
+        links: [{ rel: 'self', href: `${collectionUrl}?limit=${limit}&offset=${offset}` }],
+        count: page.length,
+        hasMore: offset + page.length < all.length,
+        offset,
+        totalResults: all.length,
+        items: page.map((record) => ({
+          links: [{ rel: 'self', href: `${collectionUrl}/${record.id}` }],
+          id: String(record.id),
+        })),
+      },
+    };
+  }
+
+  private createRecord(
+    request: AdapterRequest,
+    store: Map<string, SuiteQLRow>,
+    collectionUrl: string,
+  ): AdapterResponse {
+    // A retried create with the same idempotency key returns the original record
+    const key = Object.entries(request.headers).find(
+      ([name]) => name.toLowerCase() === IDEMPOTENCY_HEADER,
+    )?.[1];
+    const previous = key ? this.idempotentCreates.get(key) : undefined;
+    if (previous) {
+      return this.created(`${collectionUrl}/${previous}`);
+    }
+
+    const id = this.nextId(store);
+    store.set(id, { ...(request.body as SuiteQLRow), id });
+    if (key) this.idempotentCreates.set(key, id);
+    return this.created(`${collectionUrl}/${id}`);
+  }
+
+  private handleSuiteQL(
+    request: AdapterRequest,
+    params: Record<string, string>,
+    url: URL,
+  ): AdapterResponse {
+    if (request.method !== 'POST') return this.methodNotAllowed(request.method);
+
+    const limit = Number(params.limit ?? 1000);
+    const offset = Number(params.offset ?? 0);
+    if (!(limit >= 1 && limit <= 1000)) {
+      return this.invalidParameter('limit must be between 1 and 1000');
+    }
+
+    const q = (request.body as { q?: unknown } | undefined)?.q;
+    if (typeof q !== 'string') {
+      return this.invalidParameter('Request body must contain "q"');
+    }
+
+    let rows: SuiteQLRow[];
+    try {
+      rows = evaluateSuiteQL(q, (table) => this.findTable(table));
+    } catch (error) {
+      if (!(error instanceof SuiteQLSyntaxError)) throw error;
+      return this.invalidParameter(
+        `Invalid search query. Detailed unprocessed description follows. ${error.message}`,
+      );
+    }
+
+    const page = rows.slice(offset, offset + limit);
+    const base = `${url.origin}${url.pathname}`;
+    return {
+      status: 200,
+      headers: { 'content-type': `${RESOURCE_CONTENT_TYPE}; type=collection` },
+      data: {
+        links: [{ rel: 'self', href: `${base}?limit=${limit}&offset=${offset}` }],
+        count: page.length,
+        hasMore: offset + page.length < rows.length,
+        offset,
+        totalResults: rows.length,
+        // SuiteQL returns every value as a string and omits nulls
+        items: page.map((row) => ({
+          links: [],
+          ...Object.fromEntries(
+            Object.entries(row)
+              .filter(([, value]) => value !== null && value !== undefined && value !== '')
+              .map(([key, value]) => [key, String(value)]),
+          ),
+        })),
+      },
+    };
+  }
+
+  private async handleRestlet(
+    request: AdapterRequest,
+    params: Record<string, string>,
+  ): Promise<AdapterResponse> {
+    const { script, deploy, ...rest } = params;
+    const handler = this.restlets.get(`${script}:${deploy}`);
+    if (!handler) {
+      return errorResponse(
+        400,
+        'Bad Request',
+        'SSS_INVALID_SCRIPTLET_ID',
+        `No RESTlet deployed for script=${script}&deploy=${deploy}`,
+      );
+    }
+    const data = await handler({ method: request.method, params: rest, body: request.body });
+    return { status: 200, headers: { 'content-type': 'application/json' }, data };
+  }
+
+  private faultResponse(fault: StandInFault): AdapterResponse {
+    const status = fault.status!;
+    const throttled = status === 429;
+    const response = errorResponse(
+      status,
+      throttled ? 'Too Many Requests' : 'Internal Server Error',
+      fault.errorCode ?? (throttled ? 'CONCURRENCY_LIMIT_EXCEEDED' : 'UNEXPECTED_ERROR'),
+      throttled ? 'Request limit exceeded' : 'An unexpected error occurred',
+    );
+    if (fault.retryAfter != null) {
+      response.headers['retry-after'] = String(fault.retryAfter);
+    }
+    return response;
+  }
+
+  /** Simulate latency, honoring the request timeout and abort signal like a real socket */
+  private delay(ms: number, request: AdapterRequest): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const wait = Math.min(ms, request.timeout);
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new HttpAdapterError('Request aborted', 'aborted'));
+      };
+      const timer = setTimeout(() => {
+        request.signal?.removeEventListener('abort', onAbort);
+        if (ms > request.timeout) {
+          reject(new HttpAdapterError(`timeout of ${request.timeout}ms exceeded`, 'timeout'));
+        } else {
+          resolve();
+        }
+      }, wait);
+      if (request.signal?.aborted) onAbort();
+      else request.signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private findTable(name: string): SuiteQLRow[] | undefined {
+    const lower = name.toLowerCase();
+    for (const [type, store] of this.stores) {
+      if (type.toLowerCase() === lower) return [...store.values()];
+    }
+    return undefined;
+  }
+
+  private getStore(recordType: string): Map<string, SuiteQLRow> {
+    let store = this.stores.get(recordType);
+    if (!store) {
+      store = new Map();
+      this.stores.set(recordType, store);
+    }
+    return store;
+  }
+
+  private nextId(store: Map<string, SuiteQLRow>): string {
+    let max = 0;
+    for (const id of store.keys()) {
+      const numeric = Number(id);
+      if (Number.isInteger(numeric) && numeric > max) max = numeric;
+    }
+    return String(max + 1);
+  }
+
+  private notFound(recordType: string, id: string): AdapterResponse {
+    return errorResponse(
+      404,
+      'Not Found',
+      'NONEXISTENT_ID',
+      `The record instance does not exist. Provide a valid record instance ID. ` +
+        `(${recordType} ${id})`,
+    );
+  }
+
+  private methodNotAllowed(method: string): AdapterResponse {
+    const message = `${method} is not supported here`;
+    return errorResponse(405, 'Method Not Allowed', 'METHOD_NOT_ALLOWED', message);
+  }
+
+  private invalidParameter(detail: string): AdapterResponse {
+    return errorResponse(400, 'Bad Request', 'INVALID_PARAMETER', detail);
+  }
+
+  private created(location: string): AdapterResponse {
+    return { status: 204, headers: { location }, data: undefined };
+  }
+}
@@ -0,0 +1,689 @@
+/**
+ * A small SuiteQL evaluator over in-memory tables, used by the NetSuite
+ * stand-in. It covers what `SuiteQLBuilder` emits plus common hand-written
+ * queries: SELECT [DISTINCT | TOP n], joins, WHERE (AND/OR/NOT, comparisons,
+ * IN, LIKE, BETWEEN, IS NULL, ROWNUM), GROUP BY with COUNT/SUM/MIN/MAX/AVG,
+ * HAVING and ORDER BY. Anything else is rejected with a `SuiteQLSyntaxError`.
+ */
+
+export type SuiteQLRow = Record<string, unknown>;
+
+/** Look up the rows of a table by name (case-insensitive), or undefined if unknown */
+export type TableResolver = (table: string) => SuiteQLRow[] | undefined;
+
+export class SuiteQLSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SuiteQLSyntaxError';
+  }
+}
+
+type Expr =
+  | { type: 'literal'; value: string | number | null }
+  | { type: 'column'; table?: string; name: string }
+  | { type: 'star' }
+  | { type: 'call'; name: string; args: Expr[]; star: boolean }
+  | { type: 'binary'; op: string; left: Expr; right: Expr }
+  | { type: 'not'; expr: Expr }
+  | { type: 'in'; expr: Expr; list: Expr[]; negated: boolean }
+  | { type: 'null'; expr: Expr; negated: boolean }
+  | { type: 'between'; expr: Expr; low: Expr; high: Expr; negated: boolean }
+  | { type: 'like'; expr: Expr; pattern: Expr; negated: boolean };
+
+interface SelectItem {
+  expr: Expr;
+  alias?: string;
+}
+
+interface Join {
+  kind: 'INNER' | 'LEFT' | 'RIGHT';
+  table: string;
+  alias: string;
+  on: Expr;
+}
+
+interface Query {
+  distinct: boolean;
+  top?: number;
+  select: SelectItem[];
+  from: { table: string; alias: string };
+  joins: Join[];
+  where?: Expr;
+  groupBy: Expr[];
+  having?: Expr;
+  orderBy: Array<{ expr: Expr; desc: boolean }>;
+}
+
+/** Table alias → row (null for the missing side of an outer join) */
+type Scope = Record<string, SuiteQLRow | null>;
+
+const AGGREGATES = new Set(['COUNT', 'SUM', 'MIN', 'MAX', 'AVG']);
+const KEYWORDS = new Set([
+  'SELECT', 'DISTINCT', 'TOP', 'FROM', 'JOIN', 'INNER', 'LEFT', 'RIGHT', 'OUTER', 'ON',
+  'WHERE', 'AND', 'OR', 'NOT', 'IN', 'IS', 'NULL', 'BETWEEN', 'LIKE', 'GROUP', 'BY',
+  'HAVING', 'ORDER', 'ASC', 'DESC', 'AS',
+]);
+
+// Tokenizer
+
+type Token =
+  | { kind: 'word'; value: string; upper: string }
+  | { kind: 'number'; value: number }
+  | { kind: 'string'; value: string }
+  | { kind: 'symbol'; value: string };
+
+function tokenize(sql: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < sql.length) {
+    const ch = sql[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === "'") {
+      let value = '';
+      i++;
+      for (;;) {
+        if (i >= sql.length) throw new SuiteQLSyntaxError('Unterminated string literal');
+        if (sql[i] === "'") {
+          if (sql[i + 1] === "'") {
+            value += "'";
+            i += 2;
+            continue;
+          }
+          i++;
+          break;
+        }
+        value += sql[i++];
+      }
+      tokens.push({ kind: 'string', value });
+    } else if (/[0-9]/.test(ch) || (ch === '-' && /[0-9]/.test(sql[i + 1] ?? ''))) {
+      // There is no arithmetic, so a leading minus can only sign a literal
+      const match = /^-?[0-9]+(\.[0-9]+)?/.exec(sql.slice(i))!;
+      tokens.push({ kind: 'number', value: Number(match[0]) });
+      i += match[0].length;
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_$.]*/.exec(sql.slice(i))!;
+      tokens.push({ kind: 'word', value: match[0], upper: match[0].toUpperCase() });
+      i += match[0].length;
+    } else {
+      const two = sql.slice(i, i + 2);
+      if (['<=', '>=', '<>', '!='].includes(two)) {
+        tokens.push({ kind: 'symbol', value: two === '<>' ? '!=' : two });
+        i += 2;
+      } else if ('=<>(),*'.includes(ch)) {
+        tokens.push({ kind: 'symbol', value: ch });
+        i++;
+      } else {
+        throw new SuiteQLSyntaxError(`Unexpected character "${ch}"`);
+      }
+    }
+  }
+  return tokens;
+}
+
+// Parser
+
+class Parser {
+  private tokens: Token[];
+  private pos = 0;
+
+  constructor(sql: string) {
+    this.tokens = tokenize(sql);
+  }
+
+  parseQuery(): Query {
+    this.expectKeyword('SELECT');
+    const distinct = this.acceptKeyword('DISTINCT');
+    let top: number | undefined;
+    if (this.acceptKeyword('TOP')) {
+      top = this.expectNumber();
+    }
+
+    const select: SelectItem[] = [];
+    do {
+      const expr = this.acceptSymbol('*') ? ({ type: 'star' } as const) : this.parseExpr();
+      let alias: string | undefined;
+      if (this.acceptKeyword('AS')) {
+        alias = this.expectIdentifier();
+      } else if (this.peekIdentifier()) {
+        alias = this.expectIdentifier();
+      }
+      select.push({ expr, alias });
+    } while (this.acceptSymbol(','));
+
+    this.expectKeyword('FROM');
+    const from = this.parseTableRef();
+
+    const joins: Join[] = [];
+    for (;;) {
+      let kind: Join['kind'] | null = null;
+      if (this.acceptKeyword('JOIN')) kind = 'INNER';
+      else if (this.acceptKeyword('INNER')) kind = 'INNER';
+      else if (this.acceptKeyword('LEFT')) kind = 'LEFT';
+      else if (this.acceptKeyword('RIGHT')) kind = 'RIGHT';
+      if (!kind) break;
+      if (kind !== 'INNER' || this.peekKeyword('JOIN')) {
+        this.acceptKeyword('OUTER');
+        this.expectKeyword('JOIN');
+      }
+      const ref = this.parseTableRef();
+      this.expectKeyword('ON');
+      joins.push({ kind, ...ref, on: this.parseExpr() });
+    }
+
+    const where = this.acceptKeyword('WHERE') ? this.parseExpr() : undefined;
+
+    const groupBy: Expr[] = [];
+    if (this.acceptKeyword('GROUP')) {
+      this.expectKeyword('BY');
+      do groupBy.push(this.parseExpr());
+      while (this.acceptSymbol(','));
+    }
+
+    const having = this.acceptKeyword('HAVING') ? this.parseExpr() : undefined;
+
+    const orderBy: Query['orderBy'] = [];
+    if (this.acceptKeyword('ORDER')) {
+      this.expectKeyword('BY');
+      do {
+        const expr = this.parseExpr();
+        const desc = this.acceptKeyword('DESC');
+        if (!desc) this.acceptKeyword('ASC');
+        orderBy.push({ expr, desc });
+      } while (this.acceptSymbol(','));
+    }
+
+    if (this.pos < this.tokens.length) {
+      throw new SuiteQLSyntaxError(`Unexpected token "${this.describe(this.tokens[this.pos])}"`);
+    }
+
+    return { distinct, top, select, from, joins, where, groupBy, having, orderBy };
+  }
+
+  private parseTableRef(): { table: string; alias: string } {
+    const table = this.expectIdentifier();
+    const alias = this.peekIdentifier() ? this.expectIdentifier() : table;
+    return { table, alias };
+  }
+
+  private parseExpr(): Expr {
+    let left = this.parseAnd();
+    while (this.acceptKeyword('OR')) {
+      left = { type: 'binary', op: 'OR', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): Expr {
+    let left = this.parseNot();
+    while (this.acceptKeyword('AND')) {
+      left = { type: 'binary', op: 'AND', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): Expr {
+    if (this.acceptKeyword('NOT')) {
+      return { type: 'not', expr: this.parseNot() };
+    }
+    return this.parsePredicate();
+  }
+
+  private parsePredicate(): Expr {
+    const expr = this.parsePrimary();
+
+    if (this.acceptKeyword('IS')) {
+      const negated = this.acceptKeyword('NOT');
+      this.expectKeyword('NULL');
+      return { type: 'null', expr, negated };
+    }
+
+    const negated = this.acceptKeyword('NOT');
+    if (this.acceptKeyword('IN')) {
+      this.expectSymbol('(');
+      const list: Expr[] = [];
+      do list.push(this.parsePrimary());
+      while (this.acceptSymbol(','));
+      this.expectSymbol(')');
+      return { type: 'in', expr, list, negated };
+    }
+    if (this.acceptKeyword('BETWEEN')) {
+      const low = this.parsePrimary();
+      this.expectKeyword('AND');
+      return { type: 'between', expr, low, high: this.parsePrimary(), negated };
+    }
+    if (this.acceptKeyword('LIKE')) {
+      return { type: 'like', expr, pattern: this.parsePrimary(), negated };
+    }
+    if (negated) {
+      throw new SuiteQLSyntaxError('Expected IN, BETWEEN or LIKE after NOT');
+    }
+
+    const token = this.tokens[this.pos];
+    if (token?.kind === 'symbol' && ['=', '!=', '<', '<=', '>', '>='].includes(token.value)) {
+      this.pos++;
+      return { type: 'binary', op: token.value, left: expr, right: this.parsePrimary() };
+    }
+    return expr;
+  }
+
+  private parsePrimary(): Expr {
+    const token = this.tokens[this.pos];
+    if (!token) throw new SuiteQLSyntaxError('Unexpected end of query');
+
+    if (token.kind === 'symbol' && token.value === '(') {
+      this.pos++;
+      const expr = this.parseExpr();
+      this.expectSymbol(')');
+      return expr;
+    }
+    if (token.kind === 'number' || token.kind === 'string') {
+      this.pos++;
+      return { type: 'literal', value: token.value };
+    }
+    if (token.kind === 'word') {
+      if (token.upper === 'NULL') {
+        this.pos++;
+        return { type: 'literal', value: null };
+      }
+      if (KEYWORDS.has(token.upper)) {
+        throw new SuiteQLSyntaxError(`Unexpected keyword "${token.value}"`);
+      }
+      this.pos++;
+      if (this.acceptSymbol('(')) {
+        const args: Expr[] = [];
+        let star = false;
+        if (this.acceptSymbol('*')) {
+          star = true;
+        } else if (!this.peekSymbol(')')) {
+          this.acceptKeyword('DISTINCT');
+          do args.push(this.parseExpr());
+          while (this.acceptSymbol(','));
+        }
+        this.expectSymbol(')');
+        return { type: 'call', name: token.upper, args, star };
+      }
+      const dot = token.value.lastIndexOf('.');
+      return dot === -1
+        ? { type: 'column', name: token.value }
+        : { type: 'column', table: token.value.slice(0, dot), name: token.value.slice(dot + 1) };
+    }
+    throw new SuiteQLSyntaxError(`Unexpected token "${this.describe(token)}"`);
+  }
+
+  private peekKeyword(keyword: string): boolean {
+    const token = this.tokens[this.pos];
+    return token?.kind === 'word' && token.upper === keyword;
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    if (!this.peekKeyword(keyword)) return false;
+    this.pos++;
+    return true;
+  }
+
+  private expectKeyword(keyword: string): void {
+    if (!this.acceptKeyword(keyword)) this.fail(keyword);
+  }
+
+  private peekSymbol(symbol: string): boolean {
+    const token = this.tokens[this.pos];
+    return token?.kind === 'symbol' && token.value === symbol;
+  }
+
+  private acceptSymbol(symbol: string): boolean {
+    if (!this.peekSymbol(symbol)) return false;
+    this.pos++;
+    return true;
+  }
+
+  private expectSymbol(symbol: string): void {
+    if (!this.acceptSymbol(symbol)) this.fail(symbol);
+  }
+
+  private peekIdentifier(): boolean {
+    const token = this.tokens[this.pos];
+    return token?.kind === 'word' && !KEYWORDS.has(token.upper);
+  }
+
+  private expectIdentifier(): string {
+    const token = this.tokens[this.pos];
+    if (token?.kind !== 'word' || KEYWORDS.has(token.upper)) this.fail('identifier');
+    this.pos++;
+    return (token as { value: string }).value;
+  }
+
+  private expectNumber(): number {
+    const token = this.tokens[this.pos];
+    if (token?.kind !== 'number') this.fail('number');
+    this.pos++;
+    return (token as { value: number }).value;
+  }
+
+  private fail(expected: string): never {
+    const token = this.tokens[this.pos];
+    throw new SuiteQLSyntaxError(
+      `Expected ${expected} but found ${token ? `"${this.describe(token)}"` : 'end of query'}`,
+    );
+  }
+
+  private describe(token: Token): string {
+    return String(token.value);
+  }
+}
+
+// Evaluation
+
+function getField(row: SuiteQLRow | null, name: string): unknown {
+  if (!row) return null;
+  const lower = name.toLowerCase();
+  for (const key of Object.keys(row)) {
+    if (key.toLowerCase() === lower) return normalizeValue(row[key]);
+  }
+  return undefined;
+}
+
+/** Booleans are stored as 'T'/'F'; reference objects (`{ id }`) compare by ID */
+function normalizeValue(value: unknown): unknown {
+  if (value === undefined) return null;
+  if (typeof value === 'boolean') return value ? 'T' : 'F';
+  if (value && typeof value === 'object' && 'id' in value) return (value as { id: unknown }).id;
+  return value;
+}
+
+function compare(a: unknown, b: unknown): number {
+  const na = Number(a);
+  const nb = Number(b);
+  if (a !== '' && b !== '' && !Number.isNaN(na) && !Number.isNaN(nb)) {
+    return na - nb;
+  }
+  return String(a) < String(b) ? -1 : String(a) > String(b) ? 1 : 0;
+}
+
+function isNull(value: unknown): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+function likeToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map((ch) => (ch === '%' ? '.*' : ch === '_' ? '.' : ch.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`, 's');
+}
+
+interface EvalContext {
+  scope: Scope;
+  /** Rows of the current group, when evaluating aggregates */
+  group?: Scope[];
+  rownum?: number;
+}
+
+function evaluate(expr: Expr, ctx: EvalContext): unknown {
+  switch (expr.type) {
+    case 'literal':
+      return expr.value;
+    case 'star':
+      throw new SuiteQLSyntaxError('"*" is only allowed in SELECT and COUNT(*)');
+    case 'column': {
+      if (!expr.table && expr.name.toUpperCase() === 'ROWNUM') return ctx.rownum ?? null;
+      if (expr.table) {
+        const table = expr.table.toLowerCase();
+        const key = Object.keys(ctx.scope).find((alias) => alias.toLowerCase() === table);
+        if (!key) throw new SuiteQLSyntaxError(`Unknown table alias "${expr.table}"`);
+        return getField(ctx.scope[key], expr.name) ?? null;
+      }
+      for (const row of Object.values(ctx.scope)) {
+        const value = getField(row, expr.name);
+        if (value !== undefined) return value;
+      }
+      return null;
+    }
+    case 'call':
+      return evaluateCall(expr, ctx);
+    case 'binary': {
+      if (expr.op === 'AND') {
+        return truthy(evaluate(expr.left, ctx)) && truthy(evaluate(expr.right, ctx));
+      }
+      if (expr.op === 'OR') {
+        return truthy(evaluate(expr.left, ctx)) || truthy(evaluate(expr.right, ctx));
+      }
+      const left = evaluate(expr.left, ctx);
+      const right = evaluate(expr.right, ctx);
+      if (isNull(left) || isNull(right)) return false;
+      const order = compare(left, right);
+      switch (expr.op) {
+        case '=': return order === 0;
+        case '!=': return order !== 0;
+        case '<': return order < 0;
+        case '<=': return order <= 0;
+        case '>': return order > 0;
+        default: return order >= 0;
+      }
+    }
+    case 'not':
+      return !truthy(evaluate(expr.expr, ctx));
+    case 'in': {
+      const value = evaluate(expr.expr, ctx);
+      if (isNull(value)) return false;
+      const found = expr.list.some((item) => compare(value, evaluate(item, ctx)) === 0);
+      return found !== expr.negated;
+    }
+    case 'null':
+      return isNull(evaluate(expr.expr, ctx)) !== expr.negated;
+    case 'between': {
+      const value = evaluate(expr.expr, ctx);
+      if (isNull(value)) return false;
+      const inRange =
+        compare(value, evaluate(expr.low, ctx)) >= 0 &&
+        compare(value, evaluate(expr.high, ctx)) <= 0;
+      return inRange !== expr.negated;
+    }
+    case 'like': {
+      const value = evaluate(expr.expr, ctx);
+      if (isNull(value)) return false;
+      const matches = likeToRegExp(String(evaluate(expr.pattern, ctx))).test(String(value));
+      return matches !== expr.negated;
+    }
+  }
+}
+
+function truthy(value: unknown): boolean {
+  return value === true;
+}
+
+function evaluateCall(expr: Extract<Expr, { type: 'call' }>, ctx: EvalContext): unknown {
+  if (AGGREGATES.has(expr.name)) {
+    const rows = ctx.group ?? [ctx.scope];
+    if (expr.star) return rows.length;
+    const values = rows
+      .map((scope) => evaluate(expr.args[0], { scope }))
+      .filter((value) => !isNull(value));
+    switch (expr.name) {
+      case 'COUNT':
+        return values.length;
+      case 'SUM':
+        return values.reduce((sum: number, value) => sum + Number(value), 0);
+      case 'AVG':
+        return values.length
+          ? values.reduce((sum: number, value) => sum + Number(value), 0) / values.length
+          : null;
+      case 'MIN':
+        return values.length ? values.reduce((a, b) => (compare(a, b) <= 0 ? a : b)) : null;
+      default:
+        return values.length ? values.reduce((a, b) => (compare(a, b) >= 0 ? a : b)) : null;
+    }
+  }
+
+  const args = expr.args.map((arg) => evaluate(arg, ctx));
+  switch (expr.name) {
+    case 'UPPER':
+      return isNull(args[0]) ? null : String(args[0]).toUpperCase();
+    case 'LOWER':
+      return isNull(args[0]) ? null : String(args[0]).toLowerCase();
+    case 'NVL':
+    case 'COALESCE':
+      return args.find((arg) => !isNull(arg)) ?? null;
+    default:
+      throw new SuiteQLSyntaxError(`Unsupported function ${expr.name}`);
+  }
+}
+
+function containsAggregate(expr: Expr): boolean {
+  switch (expr.type) {
+    case 'call':
+      return AGGREGATES.has(expr.name) || expr.args.some(containsAggregate);
+    case 'binary':
+      return containsAggregate(expr.left) || containsAggregate(expr.right);
+    case 'not':
+      return containsAggregate(expr.expr);
+    default:
+      return false;
+  }
+}
+
+function resolveTable(tables: TableResolver, name: string): SuiteQLRow[] {
+  const rows = tables(name);
+  if (!rows) throw new SuiteQLSyntaxError(`Unknown table "${name}"`);
+  return rows;
+}
+
+function applyJoins(query: Query, tables: TableResolver): Scope[] {
+  let scopes: Scope[] = resolveTable(tables, query.from.table).map((row) => ({
+    [query.from.alias]: row,
+  }));
+
+  for (const join of query.joins) {
+    const rows = resolveTable(tables, join.table);
+    const next: Scope[] = [];
+
+    if (join.kind === 'RIGHT') {
+      const aliases = Object.keys(scopes[0] ?? { [query.from.alias]: null });
+      for (const row of rows) {
+        const matched = scopes
+          .map((scope) => ({ ...scope, [join.alias]: row }))
+          .filter((scope) => truthy(evaluate(join.on, { scope })));
+        if (matched.length) next.push(...matched);
+        else next.push({ ...Object.fromEntries(aliases.map((a) => [a, null])), [join.alias]: row });
+      }
+    } else {
+      for (const scope of scopes) {
+        const matched = rows
+          .map((row) => ({ ...scope, [join.alias]: row }))
+          .filter((candidate) => truthy(evaluate(join.on, { scope: candidate })));
+        if (matched.length) next.push(...matched);
+        else if (join.kind === 'LEFT') next.push({ ...scope, [join.alias]: null });
+      }
+    }
+    scopes = next;
+  }
+  return scopes;
+}
+
+function outputName(item: SelectItem, index: number): string {
+  if (item.alias) return item.alias.toLowerCase();
+  if (item.expr.type === 'column') return item.expr.name.toLowerCase();
+  return `expr${index + 1}`;
+}
+
+interface OutputRow {
+  values: SuiteQLRow;
+  ctx: EvalContext;
+}
+
+function project(query: Query, ctx: EvalContext): SuiteQLRow {
+  const values: SuiteQLRow = {};
+  query.select.forEach((item, index) => {
+    if (item.expr.type === 'star') {
+      for (const row of Object.values(ctx.scope)) {
+        for (const [key, value] of Object.entries(row ?? {})) {
+          values[key.toLowerCase()] = normalizeValue(value);
+        }
+      }
+      return;
+    }
+    values[outputName(item, index)] = evaluate(item.expr, ctx);
+  });
+  return values;
+}
+
+/** Parse and run a SuiteQL query. Throws `SuiteQLSyntaxError` for unsupported syntax. */
+export function evaluateSuiteQL(sql: string, tables: TableResolver): SuiteQLRow[] {
+  const query = new Parser(sql).parseQuery();
+
+  // FROM / JOIN, then WHERE (ROWNUM counts rows as they pass the filter)
+  let rownum = 0;
+  const filtered = applyJoins(query, tables).filter((scope) => {
+    if (query.where && !truthy(evaluate(query.where, { scope, rownum: rownum + 1 }))) {
+      return false;
+    }
+    rownum++;
+    return true;
+  });
+
+  // GROUP BY / aggregates
+  const grouped =
+    query.groupBy.length > 0 ||
+    query.select.some((item) => containsAggregate(item.expr)) ||
+    (query.having && containsAggregate(query.having));
+
+  let rows: OutputRow[];
+  if (grouped) {
+    const groups = new Map<string, Scope[]>();
+    for (const scope of filtered) {
+      const key = JSON.stringify(query.groupBy.map((expr) => evaluate(expr, { scope })));
+      const group = groups.get(key);
+      if (group) group.push(scope);
+      else groups.set(key, [scope]);
+    }
+    if (groups.size === 0 && query.groupBy.length === 0) groups.set('[]', []);
+
+    rows = [...groups.values()]
+      .map((group) => ({ scope: group[0] ?? {}, group }))
+      .filter((ctx) => !query.having || truthy(evaluate(query.having, ctx)))
+      .map((ctx) => ({ values: project(query, ctx), ctx }));
+  } else {
+    rows = filtered.map((scope) => ({ values: project(query, { scope }), ctx: { scope } }));
+  }
+
+  // ORDER BY: select aliases and ordinals first, then source columns
+  if (query.orderBy.length > 0) {
+    const sortValue = (row: OutputRow, expr: Expr): unknown => {
+      if (expr.type === 'literal' && typeof expr.value === 'number') {
+        return Object.values(row.values)[expr.value - 1];
+      }
+      if (expr.type === 'column' && !expr.table) {
+        const alias = expr.name.toLowerCase();
+        if (alias in row.values) return row.values[alias];
+      }
+      return evaluate(expr, row.ctx);
+    };
+    rows.sort((a, b) => {
+      for (const { expr, desc } of query.orderBy) {
+        const left = sortValue(a, expr);
+        const right = sortValue(b, expr);
+        // NULLs sort last ascending, first descending (Oracle semantics)
+        let order: number;
+        if (isNull(left) || isNull(right)) {
+          order = isNull(left) === isNull(right) ? 0 : isNull(left) ? 1 : -1;
+        } else {
+          order = compare(left, right);
+        }
+        if (order !== 0) return desc ? -order : order;
+      }
+      return 0;
+    });
+  }
+
+  let result = rows.map((row) => row.values);
+  if (query.distinct) {
+    const seen = new Set<string>();
+    result = result.filter((row) => {
+      const key = JSON.stringify(row);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+  return query.top != null ? result.slice(0, query.top) : result;
+}
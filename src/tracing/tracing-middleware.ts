@@ -0,0 +1,188 @@
+import {
+  context as otelContext,
+  trace,
+  SpanKind,
+  SpanStatusCode,
+  type Attributes,
+  type Context,
+  type Span,
+  type TracerProvider,
+} from '@opentelemetry/api';
+import { NetSuiteError } from '../types/errors.js';
+import { describeEndpoint, type NetSuiteEndpoint } from '../utils/url-builder.js';
+import type { HttpMethod } from '../types/http.js';
+import type { Middleware, RequestContext, RequestScope } from '../types/middleware.js';
+
+export interface TracingOptions {
+  /** Provider to create the tracer from (default: the globally registered provider) */
+  tracerProvider?: TracerProvider;
+  /** Record SuiteQL text as `db.query.text`. Off by default; queries may contain PII. */
+  recordQueryText?: boolean;
+}
+
+/** Tracer name reported on every span */
+export const TRACER_NAME = 'netsuite-sdk';
+
+interface RequestSpan {
+  span: Span;
+  context: Context;
+}
+
+interface QuerySpan extends RequestSpan {
+  pages: number;
+}
+
+/**
+ * Middleware that traces requests with OpenTelemetry.
+ *
+ * Each `HttpTransport.request` call gets an internal span, with a client span
+ * per attempt beneath it, so retries show up as siblings. SuiteQL pages are
+ * separate requests, tagged with their offset, beneath one `suiteql query`
+ * span. Middleware registered after this one runs with the attempt span active.
+ *
+ * Spans carry the account ID, record type and ID, HTTP method, status and
+ * NetSuite error code (`o:errorCode`).
+ *
+ * @example
+ * ```ts
+ * client.use(createTracingMiddleware());
+ * ```
+ */
+export function createTracingMiddleware(options: TracingOptions = {}): Middleware {
+  const tracer = (options.tracerProvider ?? trace.getTracerProvider()).getTracer(TRACER_NAME);
+  const requestSpans = new WeakMap<RequestScope, RequestSpan>();
+  const querySpans = new WeakMap<RequestScope, QuerySpan>();
+
+  /** Span for the query a page request belongs to, started with its first page */
+  const querySpanFor = (query: RequestScope, attributes: Attributes, parent: Context) => {
+    let querySpan = querySpans.get(query);
+    if (!querySpan) {
+      const span = tracer.startSpan(
+        'suiteql query',
+        { kind: SpanKind.INTERNAL, attributes },
+        parent,
+      );
+      const created: QuerySpan = { span, context: trace.setSpan(parent, span), pages: 0 };
+      querySpans.set(query, created);
+      query.onSettled((error) => {
+        span.setAttribute('netsuite.suiteql.pages', created.pages);
+        if (error) recordError(span, error);
+        span.end();
+      });
+      querySpan = created;
+    }
+    return querySpan;
+  };
+
+  return async (request, next) => {
+    const endpoint = describeEndpoint(request.url);
+    const name = spanName(endpoint, request.method);
+    const attributes = describeRequest(request, endpoint, options);
+
+    let parent = otelContext.active();
+    let requestSpan: RequestSpan | undefined;
+    if (request.scope) {
+      requestSpan = requestSpans.get(request.scope);
+      if (!requestSpan) {
+        const query = request.scope.parent;
+        if (query) {
+          const querySpan = querySpanFor(query, describeQuery(query, endpoint), parent);
+          querySpan.pages++;
+          parent = querySpan.context;
+        }
+        const span = tracer.startSpan(name, { kind: SpanKind.INTERNAL, attributes }, parent);
+        requestSpan = { span, context: trace.setSpan(parent, span) };
+        requestSpans.set(request.scope, requestSpan);
+        request.scope.onSettled((error) => {
+          if (error) recordError(span, error);
+          span.end();
+        });
+      }
+      parent = requestSpan.context;
+    }
+
+    const attempt = request.attempt ?? 1;
+    const span = tracer.startSpan(
+      name,
+      {
+        kind: SpanKind.CLIENT,
+        attributes:
+          attempt > 1 ? { ...attributes, 'http.request.resend_count': attempt - 1 } : attributes,
+      },
+      parent,
+    );
+    requestSpan?.span.setAttribute('netsuite.attempts', attempt);
+
+    try {
+      const response = await otelContext.with(trace.setSpan(parent, span), next);
+      span.setAttribute('http.response.status_code', response.status);
+      requestSpan?.span.setAttribute('http.response.status_code', response.status);
+      return response;
+    } catch (error) {
+      recordError(span, error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  };
+}
+
+/** Low-cardinality span name, e.g. `GET customer`, `POST suiteql`, `POST restlet` */
+function spanName(endpoint: NetSuiteEndpoint, method: HttpMethod): string {
+  if (endpoint.api === 'record') return `${method} ${endpoint.recordType}`;
+  if (endpoint.api === 'other') return method;
+  return `${method} ${endpoint.api}`;
+}
+
+function describeRequest(
+  request: RequestContext,
+  endpoint: NetSuiteEndpoint,
+  options: TracingOptions,
+): Attributes {
+  const parsed = new URL(request.url);
+  const attributes: Attributes = {
+    'http.request.method': request.method,
+    'server.address': parsed.hostname,
+    'url.full': `${parsed.origin}${parsed.pathname}`,
+  };
+  if (endpoint.accountId) attributes['netsuite.account_id'] = endpoint.accountId;
+
+  if (endpoint.api === 'record') {
+    attributes['netsuite.record.type'] = endpoint.recordType;
+    if (endpoint.recordId) attributes['netsuite.record.id'] = endpoint.recordId;
+  } else if (endpoint.api === 'suiteql') {
+    const offset = parsed.searchParams.get('offset');
+    const limit = parsed.searchParams.get('limit');
+    if (offset != null) attributes['netsuite.suiteql.offset'] = Number(offset);
+    if (limit != null) attributes['netsuite.suiteql.limit'] = Number(limit);
+    const query = (request.body as { q?: unknown } | undefined)?.q;
+    if (options.recordQueryText && typeof query === 'string') {
+      attributes['db.query.text'] = query;
+    }
+  } else if (endpoint.api === 'restlet') {
+    const script = parsed.searchParams.get('script');
+    const deploy = parsed.searchParams.get('deploy');
+    if (script) attributes['netsuite.restlet.script'] = script;
+    if (deploy) attributes['netsuite.restlet.deploy'] = deploy;
+  }
+
+  return attributes;
+}
+
+function describeQuery(query: RequestScope, endpoint: NetSuiteEndpoint): Attributes {
+  const attributes: Attributes = { 'netsuite.suiteql.query_id': query.id };
+  if (endpoint.accountId) attributes['netsuite.account_id'] = endpoint.accountId;
+  return attributes;
+}
+
+function recordError(span: Span, error: unknown): void {
+  if (error instanceof NetSuiteError) {
+    if (error.status > 0) span.setAttribute('http.response.status_code', error.status);
+    span.setAttribute('netsuite.error_code', error.code);
+    span.setAttribute('error.type', error.code);
+  } else {
+    span.setAttribute('error.type', (error as Error)?.name ?? 'Error');
+  }
+  if (error instanceof Error) span.recordException(error);
+  span.setStatus({ code: SpanStatusCode.ERROR, message: (error as Error)?.message });
+}
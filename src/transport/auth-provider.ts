@@ -0,0 +1,94 @@
+import { createOAuthSigner } from './oauth.js';
+import { OAuth2TokenManager, isOAuth2ClientCredentialsConfig } from './oauth2.js';
+import type { AuthConfig, OAuthConfig, OAuth2ClientCredentialsConfig } from '../types/config.js';
+import type { AuthProvider } from '../types/auth.js';
+import type { HttpMethod } from '../types/http.js';
+import type { HttpAdapter } from '../types/adapter.js';
+import type { NetSuiteError } from '../types/errors.js';
+
+export interface TbaAuthProviderOptions {
+  /**
+   * Called when NetSuite rejects the current token.
+   * Resolve with new credentials to rotate and retry, or `null` to give up.
+   */
+  refresh?: (error: NetSuiteError) => Promise<OAuthConfig | null>;
+}
+
+/** OAuth 1.0a (TBA) provider. Credentials can be rotated with `update()`. */
+export class TbaAuthProvider implements AuthProvider {
+  private sign: (url: string, method: HttpMethod) => Promise<Record<string, string>>;
+  private options: TbaAuthProviderOptions;
+
+  constructor(config: OAuthConfig, options: TbaAuthProviderOptions = {}) {
+    this.sign = createOAuthSigner(config);
+    this.options = options;
+  }
+
+  async authorize(url: string, method: HttpMethod): Promise<Record<string, string>> {
+    return this.sign(url, method);
+  }
+
+  /** Swap in new TBA credentials for all subsequent signatures. */
+  update(config: OAuthConfig): void {
+    this.sign = createOAuthSigner(config);
+  }
+
+  async onAuthFailure(error: NetSuiteError): Promise<boolean> {
+    if (!this.options.refresh) return false;
+    const next = await this.options.refresh(error);
+    if (!next) return false;
+    this.update(next);
+    return true;
+  }
+}
+
+/** OAuth 2.0 client credentials provider. Re-mints the token once on 401/403. */
+export class OAuth2ClientCredentialsProvider implements AuthProvider {
+  private tokens: OAuth2TokenManager;
+
+  constructor(
+    config: OAuth2ClientCredentialsConfig,
+    accountId: string,
+    timeout?: number,
+    adapter?: HttpAdapter,
+  ) {
+    this.tokens = new OAuth2TokenManager(config, accountId, timeout, adapter);
+  }
+
+  async authorize(): Promise<Record<string, string>> {
+    return { Authorization: `Bearer ${await this.tokens.getAccessToken()}` };
+  }
+
+  onAuthFailure(): boolean {
+    this.tokens.invalidate();
+    return true;
+  }
+}
+
+export function isAuthProvider(auth: unknown): auth is AuthProvider {
+  return (
+    !!auth &&
+    typeof auth === 'object' &&
+    typeof (auth as AuthProvider).authorize === 'function'
+  );
+}
+
+/**
+ * Resolve an auth config (or a ready-made provider) into an AuthProvider.
+ * Token requests go through `adapter`, the transport's own.
+ */
+export function createAuthProvider(
+  auth: AuthConfig | AuthProvider,
+  accountId: string,
+  timeout?: number,
+  adapter?: HttpAdapter,
+): AuthProvider {
+  if (isAuthProvider(auth)) {
+    if (adapter) auth.useAdapter?.(adapter);
+    return auth;
+  }
+  if (isOAuth2ClientCredentialsConfig(auth)) {
+    return new OAuth2ClientCredentialsProvider(auth, accountId, timeout, adapter);
+  }
+  return new TbaAuthProvider(auth);
+}
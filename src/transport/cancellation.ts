@@ -0,0 +1,97 @@
+import { NetSuiteError } from '../types/errors.js';
+import type { HttpMethod } from '../types/http.js';
+
+export interface RequestCancellation {
+  /** Aborts with a `NetSuiteError` reason (ABORTED or DEADLINE_EXCEEDED) */
+  signal?: AbortSignal;
+  /** Epoch ms deadline, if one was set */
+  deadline?: number;
+  /** Detach listeners and timers once the request settles */
+  dispose: () => void;
+}
+
+/**
+ * Combine a caller's AbortSignal and an overall deadline into one signal
+ * whose `reason` is the `NetSuiteError` the request should fail with.
+ */
+export function createRequestCancellation(
+  options: { signal?: AbortSignal; deadline?: number | Date },
+  url: string,
+  method: HttpMethod,
+): RequestCancellation {
+  const deadline = options.deadline instanceof Date ? options.deadline.getTime() : options.deadline;
+  if (!options.signal && deadline == null) {
+    return { dispose: () => {} };
+  }
+
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const onAbort = () => {
+    controller.abort(
+      new NetSuiteError('Request was aborted', 0, 'ABORTED', undefined, url, method),
+    );
+  };
+  const onDeadline = () => {
+    controller.abort(
+      new NetSuiteError(
+        `Request deadline of ${new Date(deadline!).toISOString()} exceeded`,
+        0,
+        'DEADLINE_EXCEEDED',
+        undefined,
+        url,
+        method,
+      ),
+    );
+  };
+
+  if (options.signal?.aborted) {
+    onAbort();
+  } else {
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  if (deadline != null && !controller.signal.aborted) {
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      onDeadline();
+    } else {
+      timer = setTimeout(onDeadline, remaining);
+    }
+  }
+
+  return {
+    signal: controller.signal,
+    deadline,
+    dispose: () => {
+      if (timer) clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
+/** Throw the signal's reason if it has been aborted. */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw signal.reason;
+  }
+}
+
+/** setTimeout as a promise that rejects with the signal's reason on abort. */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,182 @@
+import { NetSuiteError } from '../types/errors.js';
+import type { CircuitState, CircuitStateChangeEvent } from '../types/events.js';
+import { canonicalAccountId, type NetSuiteApi } from '../utils/url-builder.js';
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit. Default: 5 */
+  failureThreshold?: number;
+  /** How long the circuit stays open before probing, in ms. Default: 30000 */
+  resetTimeout?: number;
+  /** Probe requests allowed in flight while half-open. Default: 1 */
+  halfOpenRequests?: number;
+  /** Keep a separate circuit per API family (record, suiteql, restlet). Default: false */
+  perApi?: boolean;
+  /**
+   * Which errors count against the circuit.
+   * Default: 5xx responses, timeouts and network errors (not throttling or 4xx)
+   */
+  isFailure?: (error: unknown) => boolean;
+}
+
+/** Outcome reporter for one attempt let through by the breaker */
+export interface CircuitPermit {
+  /** Report the attempt's outcome: no error is a success. Only the first call counts. */
+  settle(error?: unknown): void;
+}
+
+interface Circuit {
+  state: CircuitState;
+  failures: number;
+  openedAt: number;
+  probes: number;
+}
+
+function defaultIsFailure(error: unknown): boolean {
+  if (!(error instanceof NetSuiteError)) return false;
+  return error.status >= 500 || error.code === 'TIMEOUT' || error.code === 'NETWORK_ERROR';
+}
+
+/**
+ * Fails fast while an account keeps failing, instead of letting every job
+ * retry into an outage. Circuits are keyed per account, and optionally per
+ * API family. Pass one instance to several clients to share circuit state.
+ *
+ * Account IDs are canonicalized ("1234567-sb1" is "1234567_SB1"), and
+ * events report the canonical form.
+ */
+export class CircuitBreaker {
+  private circuits = new Map<string, Circuit>();
+  private listeners = new Set<(event: CircuitStateChangeEvent) => void>();
+  private failureThreshold: number;
+  private resetTimeout: number;
+  private halfOpenRequests: number;
+  private perApi: boolean;
+  private isFailure: (error: unknown) => boolean;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.resetTimeout = options.resetTimeout ?? 30_000;
+    this.halfOpenRequests = options.halfOpenRequests ?? 1;
+    this.perApi = options.perApi ?? false;
+    this.isFailure = options.isFailure ?? defaultIsFailure;
+  }
+
+  /**
+   * Let an attempt through, or return null while the circuit is open
+   * (or half-open with every probe slot taken).
+   */
+  tryAcquire(account: string, api: NetSuiteApi): CircuitPermit | null {
+    const accountId = canonicalAccountId(account);
+    const key = this.keyFor(accountId, api);
+    let circuit = this.circuits.get(key);
+    if (!circuit) {
+      circuit = newCircuit();
+      this.circuits.set(key, circuit);
+    }
+
+    if (circuit.state === 'open') {
+      if (Date.now() - circuit.openedAt < this.resetTimeout) return null;
+      this.transition(key, accountId, api, circuit, 'half-open');
+    }
+
+    const probe = circuit.state === 'half-open';
+    if (probe) {
+      if (circuit.probes >= this.halfOpenRequests) return null;
+      circuit.probes++;
+    }
+
+    const admittedIn = circuit.state;
+    let settled = false;
+    return {
+      settle: (error) => {
+        if (settled) return;
+        settled = true;
+        if (probe) circuit.probes--;
+        // Late results from before a transition don't count against the new state
+        if (circuit.state !== admittedIn) return;
+
+        if (error === undefined) {
+          circuit.failures = 0;
+          if (probe) this.transition(key, accountId, api, circuit, 'closed');
+        } else if (this.isFailure(error)) {
+          circuit.failures++;
+          if (probe || circuit.failures >= this.failureThreshold) {
+            this.transition(key, accountId, api, circuit, 'open');
+          }
+        }
+      },
+    };
+  }
+
+  /** Current state of an account's circuit */
+  getState(accountId: string, api: NetSuiteApi = 'other'): CircuitState {
+    const circuit = this.circuits.get(this.keyFor(accountId, api));
+    if (circuit?.state === 'open' && Date.now() - circuit.openedAt >= this.resetTimeout) {
+      return 'half-open';
+    }
+    return circuit?.state ?? 'closed';
+  }
+
+  /** Milliseconds until an open circuit lets a probe through; 0 when not open */
+  getRemainingOpenTime(accountId: string, api: NetSuiteApi = 'other'): number {
+    const circuit = this.circuits.get(this.keyFor(accountId, api));
+    if (circuit?.state !== 'open') return 0;
+    return Math.max(0, circuit.openedAt + this.resetTimeout - Date.now());
+  }
+
+  /** Close every circuit, or only those of one account */
+  reset(accountId?: string): void {
+    const account = accountId === undefined ? undefined : canonicalAccountId(accountId);
+    for (const key of [...this.circuits.keys()]) {
+      if (account === undefined || key.split(':')[0] === account) {
+        this.circuits.delete(key);
+      }
+    }
+  }
+
+  /** Subscribe to state changes. Returns a function that unsubscribes. */
+  onStateChange(listener: (event: CircuitStateChangeEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /** Number of state-change subscribers, one per attached client */
+  listenerCount(): number {
+    return this.listeners.size;
+  }
+
+  private keyFor(accountId: string, api: NetSuiteApi): string {
+    const account = canonicalAccountId(accountId);
+    return this.perApi ? `${account}:${api}` : account;
+  }
+
+  private transition(
+    key: string,
+    accountId: string,
+    api: NetSuiteApi,
+    circuit: Circuit,
+    to: CircuitState,
+  ): void {
+    const from = circuit.state;
+    const failures = circuit.failures;
+    circuit.state = to;
+    if (to === 'open') circuit.openedAt = Date.now();
+    if (to === 'closed') circuit.failures = 0;
+
+    const event: CircuitStateChangeEvent = {
+      key,
+      accountId,
+      ...(this.perApi && { api }),
+      from,
+      to,
+      failures,
+    };
+    for (const listener of this.listeners) {
+      listener(event);
+    }
+  }
+}
+
+function newCircuit(): Circuit {
+  return { state: 'closed', failures: 0, openedAt: 0, probes: 0 };
+}
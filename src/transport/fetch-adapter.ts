@@ -0,0 +1,80 @@
+import { HttpAdapterError } from '../types/adapter.js';
+import type { AdapterRequest, AdapterResponse, HttpAdapter } from '../types/adapter.js';
+
+export interface FetchAdapterOptions {
+  /** `fetch` implementation to use. Default: `globalThis.fetch` */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Adapter built on the standard `fetch` API, for runtimes without Node's
+ * HTTP stack (Cloudflare Workers, Deno, Bun, browsers).
+ */
+export class FetchAdapter implements HttpAdapter {
+  private fetch?: typeof fetch;
+
+  constructor(options: FetchAdapterOptions = {}) {
+    this.fetch = options.fetch;
+  }
+
+  async request(request: AdapterRequest): Promise<AdapterResponse> {
+    const fetchFn = this.fetch ?? globalThis.fetch;
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, request.timeout);
+    const onAbort = () => controller.abort();
+    request.signal?.addEventListener('abort', onAbort, { once: true });
+    if (request.signal?.aborted) controller.abort();
+
+    try {
+      const response = await fetchFn(request.url, {
+        method: request.method,
+        headers: request.headers,
+        body:
+          request.body === undefined
+            ? undefined
+            : typeof request.body === 'string'
+              ? request.body
+              : JSON.stringify(request.body),
+        signal: controller.signal,
+        redirect: 'follow',
+      });
+
+      const headers: Record<string, string> = {};
+      response.headers.forEach((value, key) => {
+        headers[key] = value;
+      });
+
+      return { status: response.status, headers, data: parseBody(await response.text()) };
+    } catch (error) {
+      if (timedOut) {
+        throw new HttpAdapterError(`timeout of ${request.timeout}ms exceeded`, 'timeout');
+      }
+      if (controller.signal.aborted) {
+        throw new HttpAdapterError('Request aborted', 'aborted');
+      }
+      // undici reports the socket error (e.g. ECONNREFUSED) as the cause
+      const cause = (error as { cause?: { code?: string; message?: string } }).cause;
+      throw new HttpAdapterError(
+        cause?.message ?? (error as Error).message ?? 'Network error',
+        'network',
+        cause?.code ?? (error as { code?: string }).code,
+      );
+    } finally {
+      clearTimeout(timer);
+      request.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+}
+
+function parseBody(text: string): unknown {
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
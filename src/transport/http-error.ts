@@ -0,0 +1,25 @@
+import { parseRetryAfter } from './retry.js';
+import { NetSuiteError, type NetSuiteErrorDetail } from '../types/errors.js';
+import type { HttpMethod } from '../types/http.js';
+
+/**
+ * Build the `NetSuiteError` for a 4xx/5xx response. Shared by the transport
+ * and anything that synthesizes responses (e.g. cassette replay) so both
+ * fail the same way.
+ */
+export function createHttpError(
+  status: number,
+  body: unknown,
+  headers: Record<string, string>,
+  url: string,
+  method: HttpMethod,
+): NetSuiteError {
+  const errorBody = (body ?? {}) as NetSuiteErrorDetail & { message?: string; code?: string };
+  const message = errorBody.detail ?? errorBody.title ?? errorBody.message ?? `HTTP ${status}`;
+  const code = errorBody['o:errorCode'] ?? errorBody.code ?? `HTTP_${status}`;
+
+  return new NetSuiteError(message, status, code, errorBody, url, method, {
+    retryAfter: parseRetryAfter(headers['retry-after']),
+    responseHeaders: headers,
+  });
+}
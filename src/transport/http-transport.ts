@@ -1,208 +1,836 @@
-import axios, { type AxiosInstance, type AxiosError } from 'axios';
-import http from 'node:http';
-import https from 'node:https';
-import { createOAuthSigner } from './oauth.js';
+import { createAuthProvider } from './auth-provider.js';
+import { AxiosAdapter } from './axios-adapter.js';
+import { FetchAdapter } from './fetch-adapter.js';
 import { withRetry } from './retry.js';
+import { createHttpError } from './http-error.js';
+import { RetryBudget } from './retry-budget.js';
+import { CircuitBreaker, type CircuitPermit } from './circuit-breaker.js';
+import { createRequestCancellation, type RequestCancellation } from './cancellation.js';
+import { resolveIdempotencyKey, isSafeToRetry, type IdempotencyOptions } from './idempotency.js';
 import { executeMiddlewareChain } from './middleware-chain.js';
+import { MiddlewareStack } from './middleware-stack.js';
+import { assertWriteAllowed, type WriteGuardOptions } from './write-guard.js';
+import { NETSUITE_METRICS, endpointLabels } from '../metrics/metrics.js';
 import { NetSuiteError } from '../types/errors.js';
-import { extractHeaders } from '../types/http.js';
-import type { NetSuiteConfig } from '../types/config.js';
-import type { HttpMethod, RequestOptions, NetSuiteResponse } from '../types/http.js';
-import type { Middleware, RequestContext, ResponseContext } from '../types/middleware.js';
-import type { Logger } from '../types/logger.js';
+import {
+  HttpAdapterError,
+  type HttpAdapter,
+  type HttpAdapterErrorKind,
+} from '../types/adapter.js';
+import { ConcurrencyLimiter, type ConcurrencyStats } from '../utils/concurrency-limiter.js';
+import type { AuthConfig, NetSuiteConfig } from '../types/config.js';
+import type { AuthProvider } from '../types/auth.js';
+import type { HttpMethod, RequestOptions, NetSuiteResponse, RetryEvent } from '../types/http.js';
+import type {
+  Middleware,
+  MiddlewareOptions,
+  RequestContext,
+  RequestScope,
+  ResponseContext,
+} from '../types/middleware.js';
+import { createRedactingLogger, Redactor } from '../logging/redaction.js';
+import { randomBase64Url } from '../utils/crypto.js';
+import { TypedEventEmitter } from '../utils/event-emitter.js';
+import { RequestCoalescer } from '../utils/request-coalescer.js';
+import { RequestCache, recordCacheTag } from '../cache/request-cache.js';
+import { MutationPlan } from '../dry-run/mutation-plan.js';
+import { createCacheKey } from '../utils/response-cache.js';
+import {
+  classifyMutation,
+  describeEndpoint,
+  isWriteRequest,
+  canonicalAccountId,
+  type NetSuiteEndpoint,
+} from '../utils/url-builder.js';
+import type { Logger, LogEvent } from '../types/logger.js';
+import type { MetricsSink } from '../types/metrics.js';
+import type { NetSuiteEvents } from '../types/events.js';
+
+/** Socket errors raised before any bytes reach NetSuite */
+const CONNECT_ERROR_CODES = new Set([
+  'ECONNREFUSED',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'ENETUNREACH',
+  'EHOSTUNREACH',
+]);
+
+/** Pick the configured adapter; axios on Node, `fetch` everywhere else */
+function resolveAdapter(config: NetSuiteConfig): HttpAdapter {
+  const { adapter } = config;
+  if (adapter && typeof adapter === 'object') {
+    return adapter;
+  }
+  const isNode = typeof process !== 'undefined' && !!process.versions?.node;
+  const name = adapter ?? (isNode ? 'axios' : 'fetch');
+  return name === 'fetch' ? new FetchAdapter() : new AxiosAdapter(config.agent);
+}
+
+export interface SettleableScope extends RequestScope {
+  attempts: number;
+  settle(error?: unknown): void;
+}
+
+/** Request scope whose settle callbacks run once; a throwing callback is logged, not rethrown */
+export function createRequestScope(
+  id: string,
+  logger?: Logger,
+  parent?: RequestScope,
+): SettleableScope {
+  const callbacks: Array<(error?: unknown) => void> = [];
+  return {
+    id,
+    attempts: 0,
+    state: {},
+    parent,
+    onSettled: (callback) => {
+      callbacks.push(callback);
+    },
+    settle: (error) => {
+      for (const callback of callbacks.splice(0)) {
+        try {
+          callback(error);
+        } catch (callbackError) {
+          logger?.warn('Request settle callback failed', { error: callbackError });
+        }
+      }
+    },
+  };
+}
+
+/** Status, code and message of a failure, for log events; never the response body */
+function describeFailure(error: unknown): Pick<LogEvent, 'status' | 'errorCode' | 'error'> {
+  if (error instanceof NetSuiteError) {
+    return {
+      ...(error.status > 0 && { status: error.status }),
+      errorCode: error.code,
+      error: error.message,
+    };
+  }
+  return { error: (error as Error)?.message ?? String(error) };
+}
+
+/** Record written by a REST Record API request, or undefined for other APIs */
+function describeMutatedRecord(
+  url: string,
+  response: NetSuiteResponse<unknown>,
+): (NetSuiteEndpoint & { recordType: string; locationId?: string }) | undefined {
+  const endpoint = describeEndpoint(url);
+  const { api, recordType } = endpoint;
+  if (api !== 'record' || !recordType) return undefined;
+
+  // Creates, upserts and transforms report the affected record in `Location`
+  const location = response.headers.location ?? response.headers.Location;
+  const locationId = location ? new URL(location).pathname.split('/').pop() : undefined;
+  return { ...endpoint, recordType, locationId };
+}
 
 interface ResolvedConfig {
+  accountId: string;
   timeout: number;
   maxRetries: number;
   retryDelay: number;
   defaultHeaders: Record<string, string>;
   logger?: Logger;
+  metrics?: MetricsSink;
+  onRetry?: (event: RetryEvent) => void;
+  idempotency?: IdempotencyOptions | false;
 }
 
 export class HttpTransport {
-  private sign: (url: string, method: HttpMethod) => Record<string, string>;
-  private axiosInstance: AxiosInstance;
-  private middlewares: Middleware[] = [];
+  private auth: AuthProvider;
+  private adapter: HttpAdapter;
   private config: ResolvedConfig;
+  private limiter?: ConcurrencyLimiter;
+  private retryBudget?: RetryBudget;
+  private circuitBreaker?: CircuitBreaker;
+  private guard?: WriteGuardOptions;
+  private unsubscribeCircuit?: () => void;
+  private redactor: Redactor;
+
+  /** Registered middleware; supports naming, ordering, removal and scopes */
+  readonly middleware = new MiddlewareStack();
+
+  /** Lifecycle events for every request made through this transport */
+  readonly events: TypedEventEmitter<NetSuiteEvents>;
+
+  /** Shares in-flight GETs and SuiteQL queries when `coalesce` is enabled */
+  readonly coalescer?: RequestCoalescer;
+
+  /** Caches record, SuiteQL and RESTlet reads when `cache` is configured */
+  readonly cache?: RequestCache;
+
+  /** Collects writes instead of sending them when `dryRun` is set */
+  readonly dryRun?: MutationPlan;
 
   constructor(config: NetSuiteConfig) {
+    this.redactor = new Redactor(config.redaction);
     this.config = {
+      accountId: config.accountId,
       timeout: config.timeout ?? 30_000,
       maxRetries: config.maxRetries ?? 3,
       retryDelay: config.retryDelay ?? 1000,
       defaultHeaders: config.defaultHeaders ?? {},
-      logger: config.logger,
+      // Everything the SDK logs passes through redaction
+      logger: config.logger && createRedactingLogger(config.logger, this.redactor),
+      metrics: config.metrics,
+      onRetry: config.onRetry,
+      idempotency: config.idempotency,
     };
 
-    this.sign = createOAuthSigner(config.auth);
-
-    this.axiosInstance = axios.create({
-      timeout: this.config.timeout,
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept-Encoding': 'gzip, deflate',
-      },
-      httpAgent: new http.Agent({ keepAlive: true }),
-      httpsAgent: new https.Agent({ keepAlive: true }),
-      maxRedirects: 5,
-      // Let us handle all status codes in our error handling
-      validateStatus: () => true,
-    });
+    this.adapter = resolveAdapter(config);
+    this.auth = createAuthProvider(
+      config.auth,
+      config.accountId,
+      this.config.timeout,
+      this.adapter,
+    );
+
+    if (config.retryBudget) {
+      this.retryBudget =
+        config.retryBudget instanceof RetryBudget
+          ? config.retryBudget
+          : new RetryBudget(config.retryBudget);
+    }
+
+    if (config.concurrency) {
+      this.limiter =
+        config.concurrency instanceof ConcurrencyLimiter
+          ? config.concurrency
+          : new ConcurrencyLimiter(config.concurrency);
+    }
+
+    this.guard = config.guard;
+    if (config.dryRun) {
+      this.dryRun = config.dryRun instanceof MutationPlan ? config.dryRun : new MutationPlan();
+    }
+    if (config.coalesce) {
+      this.coalescer = new RequestCoalescer();
+    }
+    if (config.cache) {
+      this.cache =
+        config.cache instanceof RequestCache
+          ? config.cache
+          : new RequestCache({
+              onError: (error) => this.config.logger?.warn('Response cache failed', { error }),
+              ...config.cache,
+            });
+    }
+    this.events = new TypedEventEmitter<NetSuiteEvents>((error, event) =>
+      this.config.logger?.warn(`Listener for ${String(event)} failed`, { error }),
+    );
+
+    if (config.circuitBreaker) {
+      this.circuitBreaker =
+        config.circuitBreaker instanceof CircuitBreaker
+          ? config.circuitBreaker
+          : new CircuitBreaker(config.circuitBreaker);
+      // A shared breaker reports every account's circuits; only relay our own
+      const accountId = canonicalAccountId(config.accountId);
+      this.unsubscribeCircuit = this.circuitBreaker.onStateChange((event) => {
+        if (event.accountId !== accountId) return;
+        this.config.logger?.warn(`Circuit ${event.key} ${event.from} → ${event.to}`, {
+          failures: event.failures,
+        });
+        this.events.emit('circuit:state-change', event);
+      });
+    }
   }
 
-  /** Add a middleware to the chain. Returns `this` for chaining. */
-  use(middleware: Middleware): this {
-    this.middlewares.push(middleware);
+  /**
+   * Add a middleware to the chain. Returns `this` for chaining.
+   * Use `options` to name it, position it or run it once per request.
+   */
+  use(middleware: Middleware, options?: MiddlewareOptions): this {
+    this.middleware.use(middleware, options);
     return this;
   }
 
-  /** Execute an HTTP request with OAuth signing, retry, and middleware. */
+  /**
+   * Destroy pooled sockets and detach from shared components. Requests made
+   * afterwards open new connections.
+   */
+  async close(): Promise<void> {
+    this.unsubscribeCircuit?.();
+    this.unsubscribeCircuit = undefined;
+    await this.adapter.close?.();
+  }
+
+  /** Concurrency limiter stats, or `null` when no limit is configured. */
+  getConcurrencyStats(): ConcurrencyStats | null {
+    return this.limiter?.getStats() ?? null;
+  }
+
+  /**
+   * Replace the credentials used for signing. Takes effect for the next
+   * attempt of every request, including retries of requests already in flight.
+   */
+  setAuth(auth: AuthConfig | AuthProvider): void {
+    this.auth = createAuthProvider(auth, this.config.accountId, this.config.timeout, this.adapter);
+  }
+
+  /** Execute an HTTP request with authentication, retry, and middleware. */
   async request<T = unknown>(
     url: string,
-    options: RequestOptions = {},
+    requestOptions: RequestOptions = {},
+  ): Promise<NetSuiteResponse<T>> {
+    const method = requestOptions.method ?? 'GET';
+    if (this.guard) {
+      assertWriteAllowed(url, method, this.config.accountId, this.guard);
+    }
+    if (this.dryRun && isWriteRequest(url, method)) {
+      // Keep the key a real request would carry, so the replay sends the same one
+      const idempotency = requestOptions.idempotent
+        ? null
+        : resolveIdempotencyKey(
+            method,
+            requestOptions.headers,
+            requestOptions.idempotencyKey,
+            this.config.idempotency,
+          );
+      return this.dryRun.capture<T>({
+        url,
+        method,
+        body: requestOptions.body,
+        headers: requestOptions.headers,
+        idempotencyKey: idempotency?.key,
+      });
+    }
+    if (method === 'GET' && this.cache && requestOptions.cache !== false) {
+      const { api, accountId, recordType, recordId } = describeEndpoint(url);
+      // A background refresh outlives the caller that triggered it
+      const detached = { ...requestOptions, signal: undefined, deadline: undefined };
+      return this.cache.fetch(
+        api,
+        createCacheKey(url, method, requestOptions.headers),
+        (background) => this.coalesced<T>(url, background ? detached : requestOptions),
+        recordType ? [recordCacheTag(accountId, recordType, recordId)] : undefined,
+      );
+    }
+    return this.coalesced<T>(url, requestOptions);
+  }
+
+  private async coalesced<T>(
+    url: string,
+    requestOptions: RequestOptions,
+  ): Promise<NetSuiteResponse<T>> {
+    const method = requestOptions.method ?? 'GET';
+    // Only reads are shared; a write must always reach NetSuite
+    if (!this.coalescer || method !== 'GET' || requestOptions.coalesce === false) {
+      return this.send<T>(url, requestOptions);
+    }
+
+    // Each caller keeps its own signal and deadline; the shared request runs on neither
+    const cancellation = createRequestCancellation(requestOptions, url, method);
+    try {
+      return await this.coalescer.run(
+        createCacheKey(url, method, requestOptions.headers),
+        (signal) => this.send<T>(url, { ...requestOptions, signal, deadline: undefined }),
+        cancellation.signal,
+      );
+    } finally {
+      cancellation.dispose();
+    }
+  }
+
+  private async send<T>(
+    url: string,
+    requestOptions: RequestOptions,
   ): Promise<NetSuiteResponse<T>> {
-    const method = options.method ?? 'GET';
-    const timeout = options.timeout ?? this.config.timeout;
-    const maxRetries = options.maxRetries ?? this.config.maxRetries;
-
-    return withRetry(
-      async () => {
-        // Re-sign on each attempt (fresh nonce/timestamp)
-        const authHeaders = this.sign(url, method);
-
-        const headers: Record<string, string> = {
-          'Content-Type': 'application/json',
-          ...this.config.defaultHeaders,
-          ...authHeaders,
-          ...options.headers,
-        };
-
-        const context: RequestContext = {
-          url,
+    const method = requestOptions.method ?? 'GET';
+    const timeout = requestOptions.timeout ?? this.config.timeout;
+    const maxRetries = requestOptions.maxRetries ?? this.config.maxRetries;
+
+    // Resolve the idempotency key once so every attempt sends the same value
+    const idempotency = requestOptions.idempotent
+      ? null
+      : resolveIdempotencyKey(
           method,
-          headers,
-          body: options.body,
-          metadata: {},
-        };
-
-        // Execute middleware chain, then the actual HTTP call
-        const response = await executeMiddlewareChain(
-          this.middlewares,
-          context,
-          () => this.executeRequest<T>(context, timeout),
+          requestOptions.headers,
+          requestOptions.idempotencyKey,
+          this.config.idempotency,
         );
+    const options: RequestOptions = idempotency
+      ? {
+          ...requestOptions,
+          headers: { ...requestOptions.headers, [idempotency.headerName]: idempotency.key },
+        }
+      : requestOptions;
 
-        return {
-          data: response.body as T,
-          status: response.status,
-          headers: response.headers,
-          duration: response.duration,
-        };
-      },
-      {
-        maxRetries,
-        initialDelay: this.config.retryDelay,
-        shouldRetry: (error) => {
-          if (error instanceof NetSuiteError) {
-            return error.isRetryable;
-          }
-          return true;
-        },
-        onRetry: (error, attempt) => {
-          this.config.logger?.warn(`Retry attempt ${attempt}/${maxRetries}`, {
-            url,
-            method,
-            error,
-          });
+    const cancellation = createRequestCancellation(options, url, method);
+    const scope = createRequestScope(
+      requestOptions.requestId ?? randomBase64Url(9),
+      this.config.logger,
+      requestOptions.parentScope,
+    );
+    const attemptMiddlewares = this.middleware.resolve('attempt', options.middleware);
+    // Request-scoped middleware sees the caller's headers; auth is added per attempt
+    const context: RequestContext = {
+      url,
+      method,
+      headers: { ...options.headers },
+      body: options.body,
+      metadata: {},
+      signal: cancellation.signal,
+      scope,
+    };
+    const startTime = performance.now();
+    let authRefreshed = false;
+    let failure: unknown;
+
+    this.events.emit('request:start', { requestId: scope.id, method, url });
+
+    try {
+      const result = await executeMiddlewareChain(
+        this.middleware.resolve('request', options.middleware),
+        context,
+        async () => {
+          const attemptOptions: RequestOptions = {
+            ...options,
+            headers: context.headers,
+            body: context.body,
+          };
+          const response = await withRetry(
+            async () => {
+              const auth = this.auth;
+              try {
+                return await this.executeAttempt<T>(
+                  context.url,
+                  context.method,
+                  attemptOptions,
+                  timeout,
+                  auth,
+                  cancellation,
+                  scope,
+                  attemptMiddlewares,
+                );
+              } catch (error) {
+                // Give the auth provider one chance per request to refresh credentials
+                if (authRefreshed || !(error instanceof NetSuiteError) || !error.isAuthError) {
+                  throw error;
+                }
+                authRefreshed = true;
+                const rotated = this.auth !== auth || (await auth.onAuthFailure?.(error)) === true;
+                if (!rotated) throw error;
+
+                this.config.logger?.warn('Retrying with refreshed credentials', {
+                  event: 'auth.refreshed',
+                  requestId: scope.id,
+                  method,
+                  url,
+                  attempt: scope.attempts,
+                } satisfies LogEvent);
+                return this.executeAttempt<T>(
+                  context.url,
+                  context.method,
+                  attemptOptions,
+                  timeout,
+                  this.auth,
+                  cancellation,
+                  scope,
+                  attemptMiddlewares,
+                );
+              }
+            },
+            {
+              maxRetries,
+              initialDelay: this.config.retryDelay,
+              deadline: cancellation.deadline,
+              shouldRetry: (error) => {
+                if (error instanceof NetSuiteError && !error.isRetryable) {
+                  return false;
+                }
+                if (!options.idempotent && !isSafeToRetry(error, method, idempotency !== null)) {
+                  this.config.logger?.warn(`Not retrying ${method} without an idempotency key`, {
+                    event: 'request.retry_skipped',
+                    requestId: scope.id,
+                    method,
+                    url,
+                    attempt: scope.attempts,
+                    reason: 'not_idempotent',
+                  } satisfies LogEvent);
+                  return false;
+                }
+                if (this.retryBudget && !this.retryBudget.tryAcquire()) {
+                  this.config.logger?.warn('Retry budget exhausted, not retrying', {
+                    event: 'request.retry_skipped',
+                    requestId: scope.id,
+                    method,
+                    url,
+                    attempt: scope.attempts,
+                    reason: 'budget_exhausted',
+                  } satisfies LogEvent);
+                  return false;
+                }
+                return true;
+              },
+              onRetry: (error, attempt, delay) => {
+                this.config.logger?.warn(`Retry attempt ${attempt}/${maxRetries} in ${delay}ms`, {
+                  event: 'request.retry',
+                  requestId: scope.id,
+                  method,
+                  url,
+                  attempt: scope.attempts,
+                  retryDelay: delay,
+                  ...describeFailure(error),
+                } satisfies LogEvent);
+                this.config.metrics?.increment(
+                  NETSUITE_METRICS.retries,
+                  endpointLabels(url, method),
+                );
+                this.config.onRetry?.({ url, method, attempt, maxRetries, delay, error });
+                this.events.emit('request:retry', {
+                  requestId: scope.id,
+                  method,
+                  url,
+                  attempt,
+                  delay,
+                  error,
+                });
+              },
+              signal: cancellation.signal,
+            },
+          );
+          return {
+            status: response.status,
+            headers: response.headers,
+            body: response.data,
+            duration: response.duration,
+          };
         },
-      },
+      );
+      const response: NetSuiteResponse<T> = {
+        data: result.body as T,
+        status: result.status,
+        headers: result.headers,
+        duration: result.duration,
+      };
+
+      this.events.emit('request:success', {
+        requestId: scope.id,
+        method,
+        url,
+        status: response.status,
+        attempts: scope.attempts,
+        duration: Math.round(performance.now() - startTime),
+      });
+      if (method !== 'GET') {
+        await this.invalidateCachedRecord(url, method, response);
+      }
+      this.emitRecordMutation(url, method, response, scope.id);
+      return response;
+    } catch (error) {
+      failure = error;
+      this.events.emit('request:error', {
+        requestId: scope.id,
+        method,
+        url,
+        error,
+        attempts: scope.attempts,
+        duration: Math.round(performance.now() - startTime),
+      });
+      throw error;
+    } finally {
+      cancellation.dispose();
+      scope.settle(failure);
+    }
+  }
+
+  /** Run a single attempt, reporting its outcome to the circuit breaker. */
+  private async executeAttempt<T>(
+    url: string,
+    method: HttpMethod,
+    options: RequestOptions,
+    timeout: number,
+    auth: AuthProvider,
+    cancellation: RequestCancellation,
+    scope: SettleableScope,
+    middlewares: Middleware[],
+  ): Promise<NetSuiteResponse<T>> {
+    const permit = this.acquireCircuit(url, method);
+    try {
+      const response = await this.sendAttempt<T>(
+        url,
+        method,
+        options,
+        timeout,
+        auth,
+        cancellation,
+        scope,
+        middlewares,
+      );
+      permit?.settle();
+      return response;
+    } catch (error) {
+      permit?.settle(error);
+      throw error;
+    }
+  }
+
+  /** Fail fast with `CIRCUIT_OPEN` while the account's circuit is open */
+  private acquireCircuit(url: string, method: HttpMethod): CircuitPermit | null {
+    if (!this.circuitBreaker) return null;
+
+    const accountId = canonicalAccountId(this.config.accountId);
+    const { api } = describeEndpoint(url);
+    const permit = this.circuitBreaker.tryAcquire(accountId, api);
+    if (permit) return permit;
+
+    const retryAfter = this.circuitBreaker.getRemainingOpenTime(accountId, api);
+    throw new NetSuiteError(
+      `Circuit open for ${accountId}; not sending request`,
+      0,
+      'CIRCUIT_OPEN',
+      undefined,
+      url,
+      method,
+      { requestSent: false, ...(retryAfter > 0 && { retryAfter }) },
+    );
+  }
+
+  /** Sign and send a single attempt through the middleware chain. */
+  private async sendAttempt<T>(
+    url: string,
+    method: HttpMethod,
+    options: RequestOptions,
+    timeout: number,
+    auth: AuthProvider,
+    cancellation: RequestCancellation,
+    scope: SettleableScope,
+    middlewares: Middleware[],
+  ): Promise<NetSuiteResponse<T>> {
+    // Re-sign on each attempt (fresh nonce/timestamp, or a refreshed bearer token)
+    const authHeaders = await auth.authorize(url, method);
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...this.config.defaultHeaders,
+      ...authHeaders,
+      ...options.headers,
+    };
+
+    const context: RequestContext = {
+      url,
+      method,
+      headers,
+      body: options.body,
+      metadata: {},
+      signal: cancellation.signal,
+      attempt: ++scope.attempts,
+      scope,
+    };
+
+    // Never let a single attempt outlive the overall deadline
+    const attemptTimeout =
+      cancellation.deadline != null
+        ? Math.max(1, Math.min(timeout, cancellation.deadline - Date.now()))
+        : timeout;
+
+    // Execute middleware chain, then the actual HTTP call (holding a
+    // concurrency slot only while the request is on the wire)
+    const response = await executeMiddlewareChain(middlewares, context, () =>
+      this.limiter
+        ? this.limiter.run(
+            () => this.executeRequest<T>(context, attemptTimeout, scope),
+            context.signal,
+          )
+        : this.executeRequest<T>(context, attemptTimeout, scope),
     );
+
+    return {
+      data: response.body as T,
+      status: response.status,
+      headers: response.headers,
+      duration: response.duration,
+    };
   }
 
   private async executeRequest<T>(
     context: RequestContext,
     timeout: number,
+    scope: SettleableScope,
   ): Promise<ResponseContext> {
     const startTime = performance.now();
+    const event = {
+      requestId: scope.id,
+      method: context.method,
+      url: context.url,
+      attempt: context.attempt,
+    };
 
     try {
       this.config.logger?.debug(`${context.method} ${context.url}`, {
-        headers: Object.keys(context.headers),
-      });
+        event: 'request.start',
+        ...event,
+        headers: context.headers,
+        ...(this.redactor.logBodies && context.body !== undefined && { body: context.body }),
+      } satisfies LogEvent);
 
-      const response = await this.axiosInstance.request({
+      const response = await this.adapter.request({
         url: context.url,
         method: context.method,
         headers: context.headers,
-        data:
+        body:
           context.body && ['POST', 'PUT', 'PATCH'].includes(context.method)
             ? context.body
             : undefined,
         timeout,
+        signal: context.signal,
       });
 
-      const duration = Math.round(performance.now() - startTime);
-
-      this.config.logger?.info(`${context.method} ${context.url} → ${response.status}`, {
-        duration,
-      });
+      const elapsed = performance.now() - startTime;
+      const duration = Math.round(elapsed);
+      this.recordAttempt(context, response.status, elapsed);
 
       // Throw on non-2xx responses
       if (response.status >= 400) {
-        const errorBody = response.data ?? {};
-        const message =
-          errorBody.detail ??
-          errorBody.title ??
-          errorBody.message ??
-          `HTTP ${response.status}`;
-        const code =
-          errorBody['o:errorCode'] ??
-          errorBody.code ??
-          `HTTP_${response.status}`;
-
-        throw new NetSuiteError(
-          message,
+        throw createHttpError(
           response.status,
-          code,
-          errorBody,
+          response.data,
+          response.headers,
           context.url,
           context.method,
         );
       }
 
+      this.config.logger?.info(`${context.method} ${context.url} → ${response.status}`, {
+        event: 'request.success',
+        ...event,
+        status: response.status,
+        duration,
+      } satisfies LogEvent);
+
       return {
         status: response.status,
-        headers: extractHeaders(response),
+        headers: response.headers,
         body: response.status === 204 ? undefined : response.data,
         duration,
       };
     } catch (error) {
-      if (error instanceof NetSuiteError) {
-        throw error;
+      // Caller cancellation or deadline: surface the signal's NetSuiteError
+      if (!(error instanceof NetSuiteError) && context.signal?.aborted) {
+        throw context.signal.reason;
       }
 
-      const duration = Math.round(performance.now() - startTime);
-      const axiosError = error as AxiosError;
+      const failure = this.toNetSuiteError(error, context, timeout, startTime);
+      this.config.logger?.warn(`${context.method} ${context.url} failed: ${failure.code}`, {
+        event: 'request.error',
+        ...event,
+        ...describeFailure(failure),
+        duration: Math.round(performance.now() - startTime),
+      } satisfies LogEvent);
+      throw failure;
+    }
+  }
+
+  /** Map adapter failures to NetSuiteError the same way for every adapter */
+  private toNetSuiteError(
+    error: unknown,
+    context: RequestContext,
+    timeout: number,
+    startTime: number,
+  ): NetSuiteError {
+    if (error instanceof NetSuiteError) {
+      return error;
+    }
 
-      if (axiosError.code === 'ECONNABORTED' || axiosError.code === 'ERR_CANCELED') {
-        throw new NetSuiteError(
-          `Request timed out after ${timeout}ms`,
-          504,
-          'TIMEOUT',
-          undefined,
-          context.url,
-          context.method,
-        );
-      }
+    const adapterError =
+      error instanceof HttpAdapterError
+        ? error
+        : new HttpAdapterError(
+            (error as Error)?.message,
+            'network',
+            (error as { code?: string })?.code,
+          );
 
-      throw new NetSuiteError(
-        axiosError.message || 'Network error',
-        0,
-        'NETWORK_ERROR',
+    this.recordAttempt(context, adapterError.kind, performance.now() - startTime);
+
+    if (adapterError.kind !== 'network') {
+      return new NetSuiteError(
+        `Request timed out after ${timeout}ms`,
+        504,
+        'TIMEOUT',
         undefined,
         context.url,
         context.method,
       );
     }
+
+    return new NetSuiteError(
+      adapterError.message || 'Network error',
+      0,
+      'NETWORK_ERROR',
+      undefined,
+      context.url,
+      context.method,
+      { requestSent: !CONNECT_ERROR_CODES.has(adapterError.code ?? '') },
+    );
+  }
+
+  /** Emit `record:mutated` for successful REST Record API writes */
+  private emitRecordMutation(
+    url: string,
+    method: HttpMethod,
+    response: NetSuiteResponse<unknown>,
+    requestId: string,
+  ): void {
+    if (method === 'GET' || this.events.listenerCount('record:mutated') === 0) return;
+    const record = describeMutatedRecord(url, response);
+    if (!record) return;
+
+    // A transform's `Location` names the record it created, of the target type
+    const { recordType, recordId, targetType, locationId } = record;
+    this.events.emit('record:mutated', {
+      requestId,
+      operation: classifyMutation(url, method, recordId),
+      recordType: locationId ? (targetType ?? recordType) : recordType,
+      recordId: locationId ?? recordId,
+      method,
+      status: response.status,
+    });
+  }
+
+  /** Drop cached reads of a record, and its type's lists, after a successful write */
+  private async invalidateCachedRecord(
+    url: string,
+    method: HttpMethod,
+    response: NetSuiteResponse<unknown>,
+  ): Promise<void> {
+    if (!this.cache?.policyFor('record')) return;
+    const record = describeMutatedRecord(url, response);
+    if (!record) return;
+
+    const { accountId, recordType, recordId, locationId } = record;
+    // An upsert addresses the record by external ID; `Location` names its internal ID.
+    // A transform's `Location` names the record it created, of the target type.
+    const createdType = record.targetType ?? recordType;
+    const tags = new Set([
+      recordCacheTag(accountId, recordType),
+      recordCacheTag(accountId, createdType),
+    ]);
+    if (recordId !== undefined) tags.add(recordCacheTag(accountId, recordType, recordId));
+    if (locationId !== undefined) tags.add(recordCacheTag(accountId, createdType, locationId));
+    await this.cache.invalidate([...tags]);
+  }
+
+  /** Count one attempt that reached the adapter; `outcome` is the status or the failure kind */
+  private recordAttempt(
+    context: RequestContext,
+    outcome: number | HttpAdapterErrorKind,
+    elapsedMs: number,
+  ): void {
+    const metrics = this.config.metrics;
+    if (!metrics) return;
+
+    const labels = endpointLabels(context.url, context.method);
+    metrics.increment(NETSUITE_METRICS.requests, {
+      ...labels,
+      status: String(outcome),
+      status_class: typeof outcome === 'number' ? `${Math.floor(outcome / 100)}xx` : 'error',
+    });
+    metrics.observe(NETSUITE_METRICS.requestDuration, labels, elapsedMs / 1000);
+    if (outcome === 429) {
+      metrics.increment(NETSUITE_METRICS.throttled, labels);
+    }
   }
 }
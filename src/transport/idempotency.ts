@@ -0,0 +1,69 @@
+import { NetSuiteError } from '../types/errors.js';
+import type { HttpMethod } from '../types/http.js';
+
+export interface IdempotencyOptions {
+  /** Attach idempotency keys automatically. Default: true */
+  enabled?: boolean;
+  /** Header that carries the key. Default: "X-NetSuite-Idempotency-Key" */
+  headerName?: string;
+  /** Methods that receive a key. Default: POST, PUT, PATCH, DELETE */
+  methods?: HttpMethod[];
+  /** Key generator. Default: `crypto.randomUUID()` */
+  generateKey?: () => string;
+}
+
+export const DEFAULT_IDEMPOTENCY_HEADER = 'X-NetSuite-Idempotency-Key';
+
+const MUTATING_METHODS: HttpMethod[] = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+/** Methods where repeating the request may repeat its side effects */
+const NON_IDEMPOTENT_METHODS = new Set<HttpMethod>(['POST', 'PATCH']);
+
+/**
+ * Resolve the idempotency key for a request: an explicit key or header wins,
+ * otherwise one is generated for mutating methods. The key is resolved once
+ * per logical request so every retry attempt carries the same value.
+ */
+export function resolveIdempotencyKey(
+  method: HttpMethod,
+  headers: Record<string, string> | undefined,
+  explicitKey: string | undefined,
+  options: IdempotencyOptions | false | undefined,
+): { headerName: string; key: string } | null {
+  const config = options === false ? { enabled: false } : options ?? {};
+  const headerName = config.headerName ?? DEFAULT_IDEMPOTENCY_HEADER;
+
+  if (explicitKey) {
+    return { headerName, key: explicitKey };
+  }
+
+  const existing = Object.entries(headers ?? {}).find(
+    ([name]) => name.toLowerCase() === headerName.toLowerCase(),
+  );
+  if (existing) {
+    return { headerName: existing[0], key: existing[1] };
+  }
+
+  if (config.enabled === false || !(config.methods ?? MUTATING_METHODS).includes(method)) {
+    return null;
+  }
+
+  const generate = config.generateKey ?? (() => globalThis.crypto.randomUUID());
+  return { headerName, key: generate() };
+}
+
+/**
+ * Whether a failed request may be repeated without risking duplicate side
+ * effects: the method is idempotent, the request carries an idempotency key,
+ * or the error proves NetSuite never processed it.
+ */
+export function isSafeToRetry(
+  error: unknown,
+  method: HttpMethod,
+  hasIdempotencyKey: boolean,
+): boolean {
+  if (!NON_IDEMPOTENT_METHODS.has(method) || hasIdempotencyKey) {
+    return true;
+  }
+  return error instanceof NetSuiteError && (!error.requestSent || error.isThrottled);
+}
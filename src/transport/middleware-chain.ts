@@ -1,9 +1,10 @@
+import { throwIfAborted } from './cancellation.js';
 import type { Middleware, RequestContext, ResponseContext } from '../types/middleware.js';
 
 /**
  * Execute a chain of middleware functions, then the final handler.
  * Each middleware can modify the request context before calling next(),
- * and inspect/modify the response after.
+ * and inspect/modify the response after. Stops early if `context.signal` aborts.
  */
 export function executeMiddlewareChain(
   middlewares: Middleware[],
@@ -12,7 +13,8 @@ export function executeMiddlewareChain(
 ): Promise<ResponseContext> {
   let index = 0;
 
-  function next(): Promise<ResponseContext> {
+  async function next(): Promise<ResponseContext> {
+    throwIfAborted(context.signal);
     if (index >= middlewares.length) {
       return finalHandler();
     }
@@ -0,0 +1,94 @@
+import type {
+  Middleware,
+  MiddlewareOptions,
+  MiddlewareOverrides,
+  MiddlewareRegistration,
+  MiddlewareScope,
+} from '../types/middleware.js';
+
+interface StackEntry {
+  name?: string;
+  scope: MiddlewareScope;
+  middleware: Middleware;
+}
+
+/**
+ * Ordered middleware registry. Entries can be named, positioned relative to
+ * each other with `before`/`after`, removed, and scoped to run once per
+ * request or once per retry attempt.
+ *
+ * @example
+ * ```ts
+ * client.middleware
+ *   .use(cacheMiddleware, { name: 'cache', scope: 'request' })
+ *   .use(authAudit, { name: 'audit', before: 'cache' });
+ * client.middleware.remove('audit');
+ * ```
+ */
+export class MiddlewareStack {
+  private entries: StackEntry[] = [];
+
+  /** Register a middleware. Returns `this` for chaining. */
+  use(middleware: Middleware, options: MiddlewareOptions = {}): this {
+    insert(this.entries, { middleware, ...options });
+    return this;
+  }
+
+  /** Remove a middleware by name or reference. Returns whether one was removed. */
+  remove(nameOrMiddleware: string | Middleware): boolean {
+    const index = this.entries.findIndex((entry) =>
+      typeof nameOrMiddleware === 'string'
+        ? entry.name === nameOrMiddleware
+        : entry.middleware === nameOrMiddleware,
+    );
+    if (index === -1) return false;
+    this.entries.splice(index, 1);
+    return true;
+  }
+
+  has(name: string): boolean {
+    return this.entries.some((entry) => entry.name === name);
+  }
+
+  /** Registered names in execution order (unnamed middleware is omitted). */
+  names(): string[] {
+    return this.entries.flatMap((entry) => (entry.name ? [entry.name] : []));
+  }
+
+  /** Middleware to run for one scope of a call, after applying per-call overrides. */
+  resolve(scope: MiddlewareScope, overrides?: MiddlewareOverrides): Middleware[] {
+    let entries = this.entries;
+    if (overrides?.add?.length) {
+      entries = [...entries];
+      for (const added of overrides.add) {
+        insert(entries, typeof added === 'function' ? { middleware: added } : added);
+      }
+    }
+    const skip = new Set(overrides?.skip);
+    return entries
+      .filter((entry) => entry.scope === scope && !(entry.name && skip.has(entry.name)))
+      .map((entry) => entry.middleware);
+  }
+}
+
+function insert(entries: StackEntry[], registration: MiddlewareRegistration): void {
+  const { middleware, name, scope = 'attempt', before, after } = registration;
+  if (before && after) {
+    throw new Error('Middleware can be positioned before or after another, not both');
+  }
+  if (name && entries.some((entry) => entry.name === name)) {
+    throw new Error(`Middleware "${name}" is already registered`);
+  }
+
+  const entry: StackEntry = { name, scope, middleware };
+  const anchor = before ?? after;
+  if (!anchor) {
+    entries.push(entry);
+    return;
+  }
+  const index = entries.findIndex((existing) => existing.name === anchor);
+  if (index === -1) {
+    throw new Error(`Middleware "${anchor}" is not registered`);
+  }
+  entries.splice(before ? index : index + 1, 0, entry);
+}
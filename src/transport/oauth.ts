@@ -1,5 +1,5 @@
 import OAuth from 'oauth-1.0a';
-import { createHmac } from 'node:crypto';
+import { hmacSha256Base64 } from '../utils/crypto.js';
 import type { OAuthConfig } from '../types/config.js';
 import type { HttpMethod } from '../types/http.js';
 
@@ -7,23 +7,39 @@ import type { HttpMethod } from '../types/http.js';
  * Creates a reusable OAuth 1.0a signing function.
  * Each invocation generates a fresh nonce and timestamp,
  * so it's safe to call on every request (including retries).
+ *
+ * The HMAC is computed with `node:crypto` where available and Web Crypto
+ * otherwise, which is why signing is asynchronous.
  */
 export function createOAuthSigner(
   config: OAuthConfig,
-): (url: string, method: HttpMethod) => Record<string, string> {
+): (url: string, method: HttpMethod) => Promise<Record<string, string>> {
   const oauth = new OAuth({
     consumer: { key: config.consumerKey, secret: config.consumerSecret },
     signature_method: 'HMAC-SHA256',
-    hash_function: (baseString: string, key: string) =>
-      createHmac('sha256', key).update(baseString).digest('base64'),
+    // Signatures are computed asynchronously below, never through the library
+    hash_function: () => {
+      throw new Error('OAuth signatures are computed asynchronously');
+    },
     realm: config.realm,
   });
 
   const token = { key: config.tokenKey, secret: config.tokenSecret };
 
-  return (url: string, method: HttpMethod): Record<string, string> => {
-    const requestData = { url, method };
-    const authorization = oauth.authorize(requestData, token);
-    return oauth.toHeader(authorization) as unknown as Record<string, string>;
+  return async (url: string, method: HttpMethod): Promise<Record<string, string>> => {
+    const data: OAuth.Data = {
+      oauth_consumer_key: config.consumerKey,
+      oauth_nonce: oauth.getNonce(),
+      oauth_signature_method: 'HMAC-SHA256',
+      oauth_timestamp: oauth.getTimeStamp(),
+      oauth_version: '1.0',
+      oauth_token: token.key,
+    };
+    const signature = await hmacSha256Base64(
+      oauth.getSigningKey(token.secret),
+      oauth.getBaseString({ url, method }, data),
+    );
+    const header = oauth.toHeader({ ...data, oauth_signature: signature });
+    return header as unknown as Record<string, string>;
   };
 }
@@ -0,0 +1,234 @@
+import { buildTokenUrl, requestToken, type OAuth2TokenResponse } from './oauth2.js';
+import { MemoryTokenStore } from './token-store.js';
+import { NetSuiteError } from '../types/errors.js';
+import { buildAppUrl } from '../utils/url-builder.js';
+import { randomBase64Url, sha256Base64Url, toBase64 } from '../utils/crypto.js';
+import type { AuthProvider, OAuth2Tokens, TokenStore } from '../types/auth.js';
+import type { HttpAdapter } from '../types/adapter.js';
+
+export interface OAuth2AuthorizationCodeConfig {
+  /** NetSuite account ID (e.g., "1234567" or "1234567_SB1") */
+  accountId: string;
+  /** Client ID of the integration record */
+  clientId: string;
+  /** Client secret. Omit for public clients that rely on PKCE alone. */
+  clientSecret?: string;
+  /** Redirect URI registered on the integration record */
+  redirectUri: string;
+  /** Requested scopes. Default: ["rest_webservices", "restlets"] */
+  scope?: string[];
+  /** Where tokens are persisted. Default: in-memory */
+  tokenStore?: TokenStore;
+  /** Override the authorize endpoint (defaults to the account's login URL) */
+  authorizeUrl?: string;
+  /** Override the token endpoint (defaults to the account's SuiteTalk token URL) */
+  tokenUrl?: string;
+  /** Refresh the access token this many ms before it expires. Default: 60000 */
+  refreshBeforeExpiry?: number;
+  /** Token request timeout in ms. Default: 30000 */
+  timeout?: number;
+  /**
+   * Adapter for token requests, e.g. an `AxiosAdapter` with proxy or TLS
+   * settings. Default: the adapter of the client this flow authenticates
+   */
+  adapter?: HttpAdapter;
+}
+
+/** Everything needed to send a user to NetSuite and validate the callback */
+export interface AuthorizationRequest {
+  /** URL to redirect the user to */
+  url: string;
+  /** Opaque value to compare against the `state` query param on callback */
+  state: string;
+  /** PKCE verifier to pass to `exchangeCode()` — keep it server-side */
+  codeVerifier: string;
+}
+
+const DEFAULT_SCOPE = ['rest_webservices', 'restlets'];
+
+/** Generate a PKCE verifier and its S256 challenge (RFC 7636). */
+export async function createPkcePair(): Promise<{ codeVerifier: string; codeChallenge: string }> {
+  const codeVerifier = randomBase64Url(48);
+  const codeChallenge = await sha256Base64Url(codeVerifier);
+  return { codeVerifier, codeChallenge };
+}
+
+/**
+ * OAuth 2.0 authorization code grant with PKCE.
+ *
+ * Builds the authorize URL, exchanges the returned code, and keeps access and
+ * refresh tokens in a {@link TokenStore}. The flow is itself an `AuthProvider`,
+ * so it can be passed directly as `NetSuiteConfig.auth`.
+ *
+ * @example
+ * ```ts
+ * const flow = new OAuth2AuthorizationCodeFlow({
+ *   accountId: '1234567',
+ *   clientId: '...',
+ *   clientSecret: '...',
+ *   redirectUri: 'https://tools.example.com/callback',
+ *   tokenStore: new FileTokenStore('.netsuite/tokens.json'),
+ * });
+ *
+ * const { url, state, codeVerifier } = await flow.createAuthorizationUrl();
+ * // ...redirect the user, then on callback:
+ * await flow.exchangeCode(code, codeVerifier);
+ *
+ * const client = new NetSuiteClient({ auth: flow, accountId: '1234567' });
+ * ```
+ */
+export class OAuth2AuthorizationCodeFlow implements AuthProvider {
+  private config: OAuth2AuthorizationCodeConfig;
+  private store: TokenStore;
+  private tokenUrl: string;
+  private refreshBeforeExpiry: number;
+  private pendingRefresh: Promise<OAuth2Tokens> | null = null;
+  private clientAdapter?: HttpAdapter;
+
+  constructor(config: OAuth2AuthorizationCodeConfig) {
+    this.config = config;
+    this.store = config.tokenStore ?? new MemoryTokenStore();
+    this.tokenUrl = config.tokenUrl ?? buildTokenUrl(config.accountId);
+    this.refreshBeforeExpiry = config.refreshBeforeExpiry ?? 60_000;
+  }
+
+  /** Build the URL that sends the user to NetSuite's consent screen. */
+  async createAuthorizationUrl(
+    options: { state?: string; scope?: string[] } = {},
+  ): Promise<AuthorizationRequest> {
+    const { codeVerifier, codeChallenge } = await createPkcePair();
+    const state = options.state ?? randomBase64Url(24);
+
+    const params = new URLSearchParams({
+      response_type: 'code',
+      client_id: this.config.clientId,
+      redirect_uri: this.config.redirectUri,
+      scope: (options.scope ?? this.config.scope ?? DEFAULT_SCOPE).join(' '),
+      state,
+      code_challenge: codeChallenge,
+      code_challenge_method: 'S256',
+    });
+
+    const base =
+      this.config.authorizeUrl ??
+      `${buildAppUrl(this.config.accountId)}/app/login/oauth2/authorize.nl`;
+
+    return { url: `${base}?${params.toString()}`, state, codeVerifier };
+  }
+
+  /** Exchange the authorization code from the callback for tokens. */
+  async exchangeCode(code: string, codeVerifier: string): Promise<OAuth2Tokens> {
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: this.config.redirectUri,
+      code_verifier: codeVerifier,
+    });
+    return this.storeTokens(await this.requestGrant(body));
+  }
+
+  /** Force a refresh-token grant and persist the new tokens. */
+  async refresh(): Promise<OAuth2Tokens> {
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.refreshTokens().finally(() => {
+        this.pendingRefresh = null;
+      });
+    }
+    return this.pendingRefresh;
+  }
+
+  /** Get valid tokens, refreshing them first if they are about to expire. */
+  async getTokens(): Promise<OAuth2Tokens> {
+    const tokens = await this.store.get();
+    if (!tokens) {
+      throw new NetSuiteError(
+        'No OAuth 2.0 tokens available — complete the authorization code flow first',
+        401,
+        'OAUTH2_NOT_AUTHORIZED',
+      );
+    }
+    if (Date.now() < tokens.expiresAt - this.refreshBeforeExpiry || !tokens.refreshToken) {
+      return tokens;
+    }
+    return this.refresh();
+  }
+
+  async authorize(): Promise<Record<string, string>> {
+    const tokens = await this.getTokens();
+    return { Authorization: `Bearer ${tokens.accessToken}` };
+  }
+
+  /**
+   * Refresh after NetSuite rejects the access token. A failed refresh is
+   * attached to the rejection as its `cause`, so the 401 still surfaces.
+   */
+  async onAuthFailure(error: NetSuiteError): Promise<boolean> {
+    const tokens = await this.store.get();
+    if (!tokens?.refreshToken) return false;
+    try {
+      await this.refresh();
+    } catch (refreshError) {
+      error.cause = refreshError;
+      return false;
+    }
+    return true;
+  }
+
+  useAdapter(adapter: HttpAdapter): void {
+    this.clientAdapter = adapter;
+  }
+
+  /** Forget stored tokens (e.g., on logout). */
+  async clear(): Promise<void> {
+    await this.store.clear();
+  }
+
+  private async refreshTokens(): Promise<OAuth2Tokens> {
+    const current = await this.store.get();
+    if (!current?.refreshToken) {
+      throw new NetSuiteError(
+        'No refresh token available — complete the authorization code flow again',
+        401,
+        'OAUTH2_NOT_AUTHORIZED',
+      );
+    }
+
+    const body = new URLSearchParams({
+      grant_type: 'refresh_token',
+      refresh_token: current.refreshToken,
+    });
+    const response = await this.requestGrant(body);
+    // NetSuite keeps the original refresh token valid and may not return a new one
+    return this.storeTokens(response, current.refreshToken);
+  }
+
+  private requestGrant(body: URLSearchParams): Promise<OAuth2TokenResponse> {
+    const headers: Record<string, string> = {};
+    if (this.config.clientSecret) {
+      const credentials = `${this.config.clientId}:${this.config.clientSecret}`;
+      headers.Authorization = `Basic ${toBase64(new TextEncoder().encode(credentials))}`;
+    } else {
+      body.set('client_id', this.config.clientId);
+    }
+    return requestToken(this.tokenUrl, body, {
+      timeout: this.config.timeout,
+      headers,
+      adapter: this.config.adapter ?? this.clientAdapter,
+    });
+  }
+
+  private async storeTokens(
+    response: OAuth2TokenResponse,
+    previousRefreshToken?: string,
+  ): Promise<OAuth2Tokens> {
+    const tokens: OAuth2Tokens = {
+      accessToken: response.access_token,
+      refreshToken: response.refresh_token ?? previousRefreshToken,
+      expiresAt: Date.now() + Number(response.expires_in ?? 3600) * 1000,
+      tokenType: response.token_type,
+      scope: response.scope,
+    };
+    await this.store.set(tokens);
+    return tokens;
+  }
+}
@@ -0,0 +1,192 @@
+import { AxiosAdapter } from './axios-adapter.js';
+import { FetchAdapter } from './fetch-adapter.js';
+import { NetSuiteError } from '../types/errors.js';
+import { buildSuiteTalkUrl } from '../utils/url-builder.js';
+import { signJws, toBase64Url } from '../utils/crypto.js';
+import type { AuthConfig, OAuth2ClientCredentialsConfig } from '../types/config.js';
+import type { HttpAdapter } from '../types/adapter.js';
+
+const CLIENT_ASSERTION_TYPE = 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer';
+const DEFAULT_SCOPE = ['rest_webservices', 'restlets'];
+/** NetSuite rejects assertions valid for longer than one hour */
+const ASSERTION_LIFETIME_SECONDS = 3600;
+
+/** Token endpoint for an account's OAuth 2.0 grants */
+export function buildTokenUrl(accountId: string): string {
+  return `${buildSuiteTalkUrl(accountId)}/services/rest/auth/oauth2/v1/token`;
+}
+
+export function isOAuth2ClientCredentialsConfig(
+  auth: AuthConfig,
+): auth is OAuth2ClientCredentialsConfig {
+  return (auth as OAuth2ClientCredentialsConfig).type === 'oauth2-client-credentials';
+}
+
+/**
+ * Build a signed JWT client assertion for the client credentials grant.
+ * The `kid` header identifies the certificate uploaded to NetSuite.
+ */
+export async function createClientAssertion(
+  config: OAuth2ClientCredentialsConfig,
+  audience: string,
+  now: number = Date.now(),
+): Promise<string> {
+  const algorithm = config.algorithm ?? 'PS256';
+  const issuedAt = Math.floor(now / 1000);
+
+  const header = { alg: algorithm, typ: 'JWT', kid: config.certificateId };
+  const payload = {
+    iss: config.clientId,
+    scope: config.scope ?? DEFAULT_SCOPE,
+    aud: audience,
+    iat: issuedAt,
+    exp: issuedAt + ASSERTION_LIFETIME_SECONDS,
+  };
+
+  const signingInput = `${toBase64Url(JSON.stringify(header))}.${toBase64Url(JSON.stringify(payload))}`;
+  const signature = await signJws(signingInput, config.privateKey, algorithm);
+  return `${signingInput}.${signature}`;
+}
+
+/** Raw token endpoint response (RFC 6749 §5.1) */
+export interface OAuth2TokenResponse {
+  access_token: string;
+  token_type?: string;
+  expires_in?: number | string;
+  refresh_token?: string;
+  scope?: string;
+}
+
+// Used for token requests made outside a client, e.g. `exchangeCode()` before one exists
+let standaloneAdapter: HttpAdapter | undefined;
+
+function defaultAdapter(): HttpAdapter {
+  const isNode = typeof process !== 'undefined' && !!process.versions?.node;
+  standaloneAdapter ??= isNode ? new AxiosAdapter() : new FetchAdapter();
+  return standaloneAdapter;
+}
+
+/**
+ * POST a form-encoded grant to the token endpoint. Pass the client's
+ * adapter so the request uses the same proxy and TLS settings as API calls.
+ * Failures surface as `NetSuiteError` with code `OAUTH2_TOKEN_ERROR`.
+ */
+export async function requestToken(
+  tokenUrl: string,
+  body: URLSearchParams,
+  options: { timeout?: number; headers?: Record<string, string>; adapter?: HttpAdapter } = {},
+): Promise<OAuth2TokenResponse> {
+  let response;
+  try {
+    response = await (options.adapter ?? defaultAdapter()).request({
+      url: tokenUrl,
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Accept: 'application/json',
+        ...options.headers,
+      },
+      body: body.toString(),
+      timeout: options.timeout ?? 30_000,
+    });
+  } catch (error) {
+    throw new NetSuiteError(
+      `OAuth 2.0 token request failed: ${(error as Error).message}`,
+      0,
+      'NETWORK_ERROR',
+      undefined,
+      tokenUrl,
+      'POST',
+    );
+  }
+
+  const data = (
+    response.data && typeof response.data === 'object' ? response.data : {}
+  ) as Record<string, string | undefined>;
+  if (response.status >= 400 || typeof data.access_token !== 'string') {
+    throw new NetSuiteError(
+      data.error_description ?? data.error ?? `Token request failed with HTTP ${response.status}`,
+      response.status >= 400 ? response.status : 401,
+      'OAUTH2_TOKEN_ERROR',
+      { title: data.error, detail: data.error_description, status: response.status },
+      tokenUrl,
+      'POST',
+    );
+  }
+
+  return data as unknown as OAuth2TokenResponse;
+}
+
+interface CachedToken {
+  accessToken: string;
+  expiresAt: number;
+}
+
+/**
+ * Mints and caches OAuth 2.0 access tokens via the client credentials grant.
+ *
+ * Tokens are reused until they are within `refreshBeforeExpiry` of expiring,
+ * then exchanged for a fresh one. Concurrent callers share a single in-flight
+ * token request.
+ */
+export class OAuth2TokenManager {
+  private config: OAuth2ClientCredentialsConfig;
+  private tokenUrl: string;
+  private refreshBeforeExpiry: number;
+  private timeout: number;
+  private adapter?: HttpAdapter;
+  private cached: CachedToken | null = null;
+  private pending: Promise<string> | null = null;
+
+  constructor(
+    config: OAuth2ClientCredentialsConfig,
+    accountId: string,
+    timeout = 30_000,
+    adapter?: HttpAdapter,
+  ) {
+    this.config = config;
+    this.tokenUrl = config.tokenUrl ?? buildTokenUrl(accountId);
+    this.refreshBeforeExpiry = config.refreshBeforeExpiry ?? 60_000;
+    this.timeout = timeout;
+    this.adapter = adapter;
+  }
+
+  /** Get a valid access token, minting a new one if needed. */
+  async getAccessToken(): Promise<string> {
+    if (this.cached && Date.now() < this.cached.expiresAt - this.refreshBeforeExpiry) {
+      return this.cached.accessToken;
+    }
+
+    if (!this.pending) {
+      this.pending = this.fetchToken().finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  /** Drop the cached token so the next call mints a new one. */
+  invalidate(): void {
+    this.cached = null;
+  }
+
+  private async fetchToken(): Promise<string> {
+    const body = new URLSearchParams({
+      grant_type: 'client_credentials',
+      client_assertion_type: CLIENT_ASSERTION_TYPE,
+      client_assertion: await createClientAssertion(this.config, this.tokenUrl),
+    });
+
+    const data = await requestToken(this.tokenUrl, body, {
+      timeout: this.timeout,
+      adapter: this.adapter,
+    });
+
+    const expiresIn = Number(data.expires_in ?? 3600);
+    this.cached = {
+      accessToken: data.access_token,
+      expiresAt: Date.now() + expiresIn * 1000,
+    };
+    return data.access_token;
+  }
+}
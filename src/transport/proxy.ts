@@ -0,0 +1,61 @@
+export interface ProxySettings {
+  /** Proxy URL, or `false` to ignore proxy environment variables */
+  proxy?: string | false;
+  /** Hosts that bypass the proxy */
+  noProxy?: string | string[];
+}
+
+/** Split a `NO_PROXY`-style list: comma or whitespace separated */
+function parseNoProxy(noProxy: string | string[]): string[] {
+  const entries = Array.isArray(noProxy) ? noProxy : noProxy.split(/[\s,]+/);
+  return entries.map((entry) => entry.trim().toLowerCase()).filter(Boolean);
+}
+
+/**
+ * Whether `url` bypasses the proxy. Entries follow the common `NO_PROXY`
+ * conventions: `*` (everything), `example.com` (host and subdomains),
+ * `.example.com` / `*.example.com` (subdomains) and `host:port`.
+ */
+export function bypassesProxy(url: string, noProxy: string | string[]): boolean {
+  const { hostname, port, protocol } = new URL(url);
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  const effectivePort = port || (protocol === 'https:' ? '443' : '80');
+
+  return parseNoProxy(noProxy).some((entry) => {
+    if (entry === '*') return true;
+
+    const portMatch = /^(\[[^\]]+\]|[^:]+):(\d+)$/.exec(entry);
+    if (portMatch) {
+      if (portMatch[2] !== effectivePort) return false;
+      entry = portMatch[1];
+    }
+    entry = entry.replace(/^\[|\]$/g, '');
+
+    if (entry.startsWith('*.')) entry = entry.slice(1);
+    if (entry.startsWith('.')) return host.endsWith(entry);
+    return host === entry || host.endsWith(`.${entry}`);
+  });
+}
+
+/**
+ * Proxy URL for a request, or undefined to connect directly. Falls back to
+ * `HTTPS_PROXY` / `HTTP_PROXY` (by target protocol) and `NO_PROXY`.
+ */
+export function resolveProxy(
+  url: string,
+  settings: ProxySettings,
+  env: Record<string, string | undefined>,
+): string | undefined {
+  if (settings.proxy === false) return undefined;
+
+  const https = url.startsWith('https:');
+  const proxy =
+    settings.proxy ??
+    (https
+      ? (env.HTTPS_PROXY ?? env.https_proxy ?? env.HTTP_PROXY ?? env.http_proxy)
+      : (env.HTTP_PROXY ?? env.http_proxy));
+  if (!proxy) return undefined;
+
+  const noProxy = settings.noProxy ?? env.NO_PROXY ?? env.no_proxy;
+  return noProxy && bypassesProxy(url, noProxy) ? undefined : proxy;
+}
@@ -0,0 +1,32 @@
+import { RateLimiter } from '../utils/rate-limiter.js';
+
+export interface RetryBudgetOptions {
+  /** Maximum retries allowed within the window */
+  maxRetries: number;
+  /** Sliding window length in ms. Default: 60000 */
+  windowMs?: number;
+}
+
+/**
+ * Caps retries per client over a sliding window, so a throttled or failing
+ * account sees at most `maxRetries` extra requests instead of a retry storm.
+ */
+export class RetryBudget {
+  private limiter: RateLimiter;
+
+  constructor(options: RetryBudgetOptions) {
+    this.limiter = new RateLimiter(options.maxRetries, options.windowMs ?? 60_000);
+  }
+
+  /** Spend one retry from the budget. Returns false when exhausted. */
+  tryAcquire(): boolean {
+    if (!this.limiter.canMakeRequest()) return false;
+    this.limiter.recordRequest();
+    return true;
+  }
+
+  /** Retries still available in the current window. */
+  getRemaining(): number {
+    return this.limiter.getRemainingRequests();
+  }
+}
@@ -1,4 +1,5 @@
 import { NetSuiteError } from '../types/errors.js';
+import { sleep, throwIfAborted } from './cancellation.js';
 
 export interface RetryConfig {
   maxRetries: number;
@@ -6,7 +7,11 @@ export interface RetryConfig {
   maxDelay: number;
   backoffFactor: number;
   shouldRetry: (error: unknown, attempt: number) => boolean;
-  onRetry?: (error: unknown, attempt: number) => void;
+  onRetry?: (error: unknown, attempt: number, delay: number) => void;
+  /** Stops further attempts and cancels backoff sleeps; rejects with `signal.reason` */
+  signal?: AbortSignal;
+  /** Epoch ms deadline; a `Retry-After` that runs past it ends retrying */
+  deadline?: number;
 }
 
 const DEFAULT_RETRY_CONFIG: RetryConfig = {
@@ -23,6 +28,40 @@ const DEFAULT_RETRY_CONFIG: RetryConfig = {
   },
 };
 
+/**
+ * Delay before the next attempt. A server-supplied `Retry-After` wins, even
+ * past `maxDelay` (the caller decides whether to wait that long); otherwise
+ * exponential backoff with +/- 25% jitter to prevent thundering herd.
+ */
+function getRetryDelay(error: unknown, attempt: number, opts: RetryConfig): number {
+  if (error instanceof NetSuiteError && error.retryAfter != null) {
+    return error.retryAfter;
+  }
+
+  const delay = Math.min(
+    opts.initialDelay * Math.pow(opts.backoffFactor, attempt),
+    opts.maxDelay,
+  );
+  const jitter = delay * 0.25 * (Math.random() * 2 - 1);
+  return Math.round(delay + jitter);
+}
+
+/**
+ * Parse a `Retry-After` header (delta-seconds or HTTP-date) into ms.
+ * Returns undefined when the header is missing or malformed.
+ */
+export function parseRetryAfter(value: string | undefined, now: number = Date.now()): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
 /**
  * Execute a function with exponential backoff retry + jitter.
  * Each retry calls `fn()` fresh, so OAuth signatures get new nonces.
@@ -34,23 +73,30 @@ export async function withRetry<T>(
   const opts = { ...DEFAULT_RETRY_CONFIG, ...config };
 
   for (let attempt = 0; attempt <= opts.maxRetries; attempt++) {
+    throwIfAborted(opts.signal);
     try {
       return await fn();
     } catch (error) {
+      throwIfAborted(opts.signal);
       const isLastAttempt = attempt === opts.maxRetries;
       if (isLastAttempt || !opts.shouldRetry(error, attempt)) {
         throw error;
       }
 
-      opts.onRetry?.(error, attempt + 1);
+      const delay = getRetryDelay(error, attempt, opts);
+      // Retrying sooner than the server asked would only be refused again, so
+      // surface the error when `Retry-After` is longer than we are willing to wait
+      if (
+        error instanceof NetSuiteError &&
+        error.retryAfter != null &&
+        (delay > opts.maxDelay || (opts.deadline != null && Date.now() + delay >= opts.deadline))
+      ) {
+        throw error;
+      }
+
+      opts.onRetry?.(error, attempt + 1, delay);
 
-      const delay = Math.min(
-        opts.initialDelay * Math.pow(opts.backoffFactor, attempt),
-        opts.maxDelay,
-      );
-      // Add jitter: +/- 25% to prevent thundering herd
-      const jitter = delay * 0.25 * (Math.random() * 2 - 1);
-      await new Promise((resolve) => setTimeout(resolve, delay + jitter));
+      await sleep(delay, opts.signal);
     }
   }
 
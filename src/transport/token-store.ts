@@ -0,0 +1,58 @@
+import type { OAuth2Tokens, TokenStore } from '../types/auth.js';
+
+/** Keeps tokens in process memory. Tokens are lost when the process exits. */
+export class MemoryTokenStore implements TokenStore {
+  private tokens: OAuth2Tokens | null;
+
+  constructor(initial: OAuth2Tokens | null = null) {
+    this.tokens = initial;
+  }
+
+  async get(): Promise<OAuth2Tokens | null> {
+    return this.tokens;
+  }
+
+  async set(tokens: OAuth2Tokens): Promise<void> {
+    this.tokens = tokens;
+  }
+
+  async clear(): Promise<void> {
+    this.tokens = null;
+  }
+}
+
+/**
+ * Persists tokens as JSON on disk. The file is written with owner-only
+ * permissions since it contains a long-lived refresh token. Node built-ins
+ * are loaded on first use so the SDK still loads on runtimes without a
+ * filesystem.
+ */
+export class FileTokenStore implements TokenStore {
+  private path: string;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async get(): Promise<OAuth2Tokens | null> {
+    try {
+      const { readFile } = await import('node:fs/promises');
+      return JSON.parse(await readFile(this.path, 'utf8')) as OAuth2Tokens;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async set(tokens: OAuth2Tokens): Promise<void> {
+    const { writeFile, mkdir } = await import('node:fs/promises');
+    const { dirname } = await import('node:path');
+    await mkdir(dirname(this.path), { recursive: true });
+    await writeFile(this.path, JSON.stringify(tokens, null, 2), { mode: 0o600 });
+  }
+
+  async clear(): Promise<void> {
+    const { rm } = await import('node:fs/promises');
+    await rm(this.path, { force: true });
+  }
+}
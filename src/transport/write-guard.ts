@@ -0,0 +1,68 @@
+import { NetSuiteError } from '../types/errors.js';
+import type { HttpMethod } from '../types/http.js';
+import { canonicalAccountId, describeEndpoint, isWriteRequest } from '../utils/url-builder.js';
+
+export interface WriteGuardOptions {
+  /** Reject every write: record changes, raw POST/PUT/PATCH/DELETE and RESTlet writes */
+  readOnly?: boolean;
+  /** Record types that may be created, changed or deleted. Default: all */
+  mutableRecordTypes?: string[];
+  /**
+   * Reject writes to production accounts (IDs without an `_SB` suffix)
+   * unless `confirmProduction` names the account. Default: false
+   */
+  requireProductionConfirmation?: boolean;
+  /** The production account ID, repeated to confirm that writing to it is intended */
+  confirmProduction?: string;
+}
+
+/** Whether an account ID names a sandbox, e.g. "1234567_SB1" */
+export function isSandboxAccount(accountId: string): boolean {
+  return /[_-]SB\d*$/i.test(accountId.trim());
+}
+
+/**
+ * Throw if the guard forbids a request. Reads always pass, and so do
+ * SuiteQL queries, which are POSTs that change nothing.
+ */
+export function assertWriteAllowed(
+  url: string,
+  method: HttpMethod,
+  accountId: string,
+  options: WriteGuardOptions,
+): void {
+  if (!isWriteRequest(url, method)) return;
+  // A transform creates a record of the target type and leaves the source as is
+  const { api, recordType: sourceType, targetType } = describeEndpoint(url);
+  const recordType = targetType ?? sourceType;
+
+  const refuse = (message: string, code: string) =>
+    new NetSuiteError(message, 0, code, undefined, url, method, { requestSent: false });
+
+  if (options.readOnly) {
+    throw refuse(`${method} refused: the client is read-only`, 'READ_ONLY');
+  }
+
+  if (api === 'record' && recordType && options.mutableRecordTypes) {
+    const allowed = options.mutableRecordTypes.some(
+      (type) => type.toLowerCase() === recordType.toLowerCase(),
+    );
+    if (!allowed) {
+      throw refuse(
+        `${method} refused: record type "${recordType}" is not in mutableRecordTypes`,
+        'RECORD_TYPE_NOT_MUTABLE',
+      );
+    }
+  }
+
+  const confirmed =
+    !!options.confirmProduction &&
+    canonicalAccountId(options.confirmProduction) === canonicalAccountId(accountId);
+  if (options.requireProductionConfirmation && !isSandboxAccount(accountId) && !confirmed) {
+    throw refuse(
+      `${method} refused: writing to production account ${accountId} needs ` +
+        `guard.confirmProduction set to "${accountId}"`,
+      'PRODUCTION_NOT_CONFIRMED',
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import type { HttpMethod } from './http.js';
+
+/** A single HTTP exchange as handed to an adapter */
+export interface AdapterRequest {
+  url: string;
+  method: HttpMethod;
+  headers: Record<string, string>;
+  /** JSON-serializable body (only set for POST, PUT and PATCH) */
+  body?: unknown;
+  /** Per-attempt timeout in ms */
+  timeout: number;
+  /** Aborted when the caller cancels or the request deadline passes */
+  signal?: AbortSignal;
+}
+
+export interface AdapterResponse {
+  status: number;
+  /** Response headers with lower-cased names */
+  headers: Record<string, string>;
+  /** Parsed JSON body, or the raw text when it is not JSON */
+  data: unknown;
+}
+
+/**
+ * Sends HTTP requests on behalf of the transport.
+ *
+ * Adapters resolve for every HTTP status (the transport maps 4xx/5xx to
+ * `NetSuiteError`) and reject with {@link HttpAdapterError} when no response
+ * was received, so error handling is identical whichever adapter is used.
+ */
+export interface HttpAdapter {
+  request(request: AdapterRequest): Promise<AdapterResponse>;
+  /** Release sockets and other resources; called by `client.close()` */
+  close?(): void | Promise<void>;
+}
+
+/** Why an adapter failed to get a response */
+export type HttpAdapterErrorKind = 'timeout' | 'aborted' | 'network';
+
+export class HttpAdapterError extends Error {
+  public readonly kind: HttpAdapterErrorKind;
+  /** Socket-level error code such as `ECONNREFUSED`, when known */
+  public readonly code?: string;
+
+  constructor(message: string, kind: HttpAdapterErrorKind, code?: string) {
+    super(message);
+    this.name = 'HttpAdapterError';
+    this.kind = kind;
+    this.code = code;
+  }
+}
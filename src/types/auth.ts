@@ -0,0 +1,42 @@
+import type { HttpMethod } from './http.js';
+import type { NetSuiteError } from './errors.js';
+import type { HttpAdapter } from './adapter.js';
+
+/**
+ * Supplies authentication headers for outgoing requests.
+ *
+ * `HttpTransport` calls `authorize()` on every attempt (including retries),
+ * so implementations can re-sign, refresh, or rotate credentials freely.
+ */
+export interface AuthProvider {
+  /** Return the headers that authenticate a request to `url`. */
+  authorize(url: string, method: HttpMethod): Promise<Record<string, string>>;
+  /**
+   * Called once per request when NetSuite answers 401/403.
+   * Return `true` after refreshing credentials to retry the request immediately.
+   */
+  onAuthFailure?(error: NetSuiteError): Promise<boolean> | boolean;
+  /**
+   * Called with the client's adapter, for providers that make their own
+   * HTTP requests (such as token grants), so those share its proxy and TLS settings.
+   */
+  useAdapter?(adapter: HttpAdapter): void;
+}
+
+/** OAuth 2.0 tokens persisted between runs */
+export interface OAuth2Tokens {
+  accessToken: string;
+  /** Absent for grants that do not issue refresh tokens */
+  refreshToken?: string;
+  /** Epoch ms at which the access token expires */
+  expiresAt: number;
+  tokenType?: string;
+  scope?: string;
+}
+
+/** Persistence for OAuth 2.0 tokens (memory, file, database, secrets manager, ...) */
+export interface TokenStore {
+  get(): Promise<OAuth2Tokens | null>;
+  set(tokens: OAuth2Tokens): Promise<void>;
+  clear(): Promise<void>;
+}
@@ -0,0 +1,49 @@
+/** A cached value with its freshness window */
+export interface CacheEntry<T = unknown> {
+  value: T;
+  /** Epoch ms after which the entry is stale */
+  expiresAt: number;
+  /** Epoch ms after which the entry may not be served at all */
+  staleUntil: number;
+  /** Labels used to invalidate related entries together */
+  tags?: string[];
+}
+
+/**
+ * Storage for cached responses (memory, file, Redis, ...). Stores may drop
+ * entries at any time; they must drop them once `staleUntil` has passed.
+ */
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  /** Delete every entry carrying any of the tags */
+  invalidateTags(tags: string[]): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/** How long one API's responses are cached */
+export interface CachePolicy {
+  /** Time a response is served without asking NetSuite, in ms */
+  ttl: number;
+  /**
+   * Time after `ttl` during which the stale response is still served while a
+   * fresh one is fetched in the background, in ms. Default: 0
+   */
+  staleWhileRevalidate?: number;
+}
+
+export interface RequestCacheOptions {
+  /** Where responses live. Default: a `MemoryCacheStore` */
+  store?: CacheStore;
+  /** Entry limit of the default memory store. Default: 1000 */
+  maxEntries?: number;
+  /** REST Record API GETs (`records.get`, `records.list`) */
+  record?: CachePolicy;
+  /** SuiteQL `query()` results */
+  suiteql?: CachePolicy;
+  /** RESTlet GETs */
+  restlet?: CachePolicy;
+  /** Receives store failures and failed background refreshes. Default: logged as warnings */
+  onError?: (error: unknown) => void;
+}
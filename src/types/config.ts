@@ -1,4 +1,19 @@
 import type { Logger } from './logger.js';
+import type { MetricsSink } from './metrics.js';
+import type { AuthProvider } from './auth.js';
+import type { HttpAdapter } from './adapter.js';
+import type { RetryEvent } from './http.js';
+import type { ConcurrencyLimiter, ConcurrencyOptions } from '../utils/concurrency-limiter.js';
+import type { RetryBudget, RetryBudgetOptions } from '../transport/retry-budget.js';
+import type { CircuitBreaker, CircuitBreakerOptions } from '../transport/circuit-breaker.js';
+import type { IdempotencyOptions } from '../transport/idempotency.js';
+import type { RedactionOptions } from '../logging/redaction.js';
+import type { AxiosAdapterOptions } from '../transport/axios-adapter.js';
+import type { RequestCache } from '../cache/request-cache.js';
+import type { WriteGuardOptions } from '../transport/write-guard.js';
+import type { MutationPlan } from '../dry-run/mutation-plan.js';
+import type { RequestCacheOptions } from './cache.js';
+import type { MetadataClientOptions } from './metadata.js';
 
 export interface OAuthConfig {
   consumerKey: string;
@@ -8,9 +23,34 @@ export interface OAuthConfig {
   realm: string;
 }
 
+/** Signing algorithms NetSuite accepts for OAuth 2.0 client assertions */
+export type OAuth2JwtAlgorithm = 'PS256' | 'PS384' | 'PS512' | 'RS256' | 'RS384' | 'RS512' | 'ES256' | 'ES384' | 'ES512';
+
+/** OAuth 2.0 machine-to-machine (client credentials with a certificate-signed JWT) */
+export interface OAuth2ClientCredentialsConfig {
+  type: 'oauth2-client-credentials';
+  /** Client ID of the integration record */
+  clientId: string;
+  /** Certificate ID from Setup → Integration → OAuth 2.0 Client Credentials (M2M) Setup */
+  certificateId: string;
+  /** PEM-encoded private key matching the uploaded certificate */
+  privateKey: string;
+  /** JWT signing algorithm. Default: "PS256" */
+  algorithm?: OAuth2JwtAlgorithm;
+  /** Requested scopes. Default: ["rest_webservices", "restlets"] */
+  scope?: string[];
+  /** Override the token endpoint (defaults to the account's SuiteTalk token URL) */
+  tokenUrl?: string;
+  /** Refresh the access token this many ms before it expires. Default: 60000 */
+  refreshBeforeExpiry?: number;
+}
+
+/** Any supported authentication configuration */
+export type AuthConfig = OAuthConfig | OAuth2ClientCredentialsConfig;
+
 export interface NetSuiteConfig {
-  /** OAuth 1.0a (TBA) credentials */
-  auth: OAuthConfig;
+  /** OAuth 1.0a (TBA) credentials, OAuth 2.0 client credentials, or a custom provider */
+  auth: AuthConfig | AuthProvider;
   /** NetSuite account ID (e.g., "1234567" or "1234567_SB1" for sandbox) */
   accountId: string;
   /** Request timeout in ms. Default: 30000 */
@@ -19,8 +59,65 @@ export interface NetSuiteConfig {
   maxRetries?: number;
   /** Initial retry delay in ms. Default: 1000 */
   retryDelay?: number;
+  /**
+   * Limit retries across all requests of this client over a sliding window.
+   * Pass a `RetryBudget` instance to share a budget between clients.
+   */
+  retryBudget?: RetryBudgetOptions | RetryBudget;
+  /**
+   * Fail fast with `CIRCUIT_OPEN` while the account keeps failing.
+   * Pass a `CircuitBreaker` instance to share circuit state between clients.
+   */
+  circuitBreaker?: CircuitBreakerOptions | CircuitBreaker;
+  /** Called before each retry with the delay that will be applied */
+  onRetry?: (event: RetryEvent) => void;
+  /**
+   * Idempotency keys for mutating requests. POST and PATCH are only retried
+   * when they carry a key or the error proves NetSuite never received them.
+   * Pass `false` to stop sending keys. Default: enabled
+   */
+  idempotency?: IdempotencyOptions | false;
   /** Default headers added to every request */
   defaultHeaders?: Record<string, string>;
-  /** Optional logger */
+  /** Optional logger. Messages and meta are redacted before they reach it. */
   logger?: Logger;
+  /** What to redact from log output beyond credentials and query strings */
+  redaction?: RedactionOptions;
+  /** Receives request, retry, throttling and SuiteQL metrics */
+  metrics?: MetricsSink;
+  /**
+   * HTTP implementation: `'axios'`, `'fetch'`, or a custom `HttpAdapter`.
+   * Default: `'axios'` on Node, `'fetch'` on other runtimes
+   */
+  adapter?: HttpAdapter | 'axios' | 'fetch';
+  /** Proxy, TLS (custom CA, client certificate) and socket pool settings for the axios adapter */
+  agent?: AxiosAdapterOptions;
+  /**
+   * Cap in-flight requests. Pass a `ConcurrencyLimiter` instance to share
+   * one limit between several clients for the same account.
+   */
+  concurrency?: ConcurrencyOptions | ConcurrencyLimiter;
+  /**
+   * Share one in-flight request between identical concurrent GETs and
+   * SuiteQL `query()` calls. Default: false
+   */
+  coalesce?: boolean;
+  /**
+   * Cache successful reads per API family, with write invalidation for
+   * records. Pass a `RequestCache` to share one between clients.
+   */
+  cache?: RequestCacheOptions | RequestCache;
+  /**
+   * Protect an account from accidental writes: read-only mode, a record type
+   * allow-list and confirmation for production accounts.
+   */
+  guard?: WriteGuardOptions;
+  /**
+   * Capture writes into a `MutationPlan` instead of sending them; reads and
+   * SuiteQL queries still reach NetSuite. Pass a plan to collect from
+   * several clients. Default: false
+   */
+  dryRun?: boolean | MutationPlan;
+  /** Caching of record type schemas fetched through `client.metadata` */
+  metadata?: MetadataClientOptions;
 }
@@ -13,12 +13,33 @@ export interface NetSuiteErrorDetail {
   }>;
 }
 
+export interface NetSuiteErrorOptions {
+  /** Server-requested delay before retrying, in ms (from `Retry-After`) */
+  retryAfter?: number;
+  /** Set to false when the request provably never reached NetSuite. Default: true */
+  requestSent?: boolean;
+  /** Headers of the error response, when NetSuite sent one */
+  responseHeaders?: Record<string, string>;
+}
+
+/** NetSuite error codes that signal throttling rather than a failed request */
+const THROTTLE_ERROR_CODES = new Set([
+  'CONCURRENCY_LIMIT_EXCEEDED',
+  'SSS_REQUEST_LIMIT_EXCEEDED',
+  'REQUEST_LIMIT_EXCEEDED',
+]);
+
 export class NetSuiteError extends Error {
   public readonly status: number;
   public readonly code: string;
   public readonly details?: NetSuiteErrorDetail;
   public readonly requestUrl?: string;
   public readonly requestMethod?: HttpMethod;
+  public readonly retryAfter?: number;
+  /** False when the request provably never reached NetSuite (safe to repeat) */
+  public readonly requestSent: boolean;
+  /** Headers of the error response, when NetSuite sent one */
+  public readonly responseHeaders?: Record<string, string>;
 
   constructor(
     message: string,
@@ -27,6 +48,7 @@ export class NetSuiteError extends Error {
     details?: NetSuiteErrorDetail,
     requestUrl?: string,
     requestMethod?: HttpMethod,
+    options: NetSuiteErrorOptions = {},
   ) {
     super(message);
     this.name = 'NetSuiteError';
@@ -35,15 +57,28 @@ export class NetSuiteError extends Error {
     this.details = details;
     this.requestUrl = requestUrl;
     this.requestMethod = requestMethod;
+    this.retryAfter = options.retryAfter;
+    this.requestSent = options.requestSent ?? true;
+    this.responseHeaders = options.responseHeaders;
 
     if (Error.captureStackTrace) {
       Error.captureStackTrace(this, NetSuiteError);
     }
   }
 
-  /** Whether this is a retryable error (5xx, timeout, network) */
+  /** Whether this is a retryable error (5xx, throttling, timeout, network) */
   get isRetryable(): boolean {
-    return this.status >= 500 || this.code === 'TIMEOUT' || this.code === 'NETWORK_ERROR';
+    return (
+      this.status >= 500 ||
+      this.isThrottled ||
+      this.code === 'TIMEOUT' ||
+      this.code === 'NETWORK_ERROR'
+    );
+  }
+
+  /** Whether NetSuite rejected the request for exceeding rate or concurrency limits */
+  get isThrottled(): boolean {
+    return this.status === 429 || THROTTLE_ERROR_CODES.has(this.code);
   }
 
   /** Whether this is an auth error (401, 403) */
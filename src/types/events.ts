@@ -0,0 +1,88 @@
+import type { HttpMethod } from './http.js';
+import type { NetSuiteApi } from '../utils/url-builder.js';
+
+/** Fields shared by every `request:*` event */
+export interface RequestEventBase {
+  /** Correlation ID shared by every event, log entry and attempt of one request */
+  requestId: string;
+  method: HttpMethod;
+  url: string;
+}
+
+export type RequestStartEvent = RequestEventBase;
+
+export interface RequestRetryEvent extends RequestEventBase {
+  /** Retry number (1 = first retry) */
+  attempt: number;
+  /** Backoff before the retry, in ms */
+  delay: number;
+  /** Error from the failed attempt */
+  error: unknown;
+}
+
+export interface RequestSuccessEvent extends RequestEventBase {
+  status: number;
+  /** Attempts made, including retries */
+  attempts: number;
+  /** Total time across attempts and backoff waits, in ms */
+  duration: number;
+}
+
+export interface RequestErrorEvent extends RequestEventBase {
+  /** Final error after retries were exhausted or skipped */
+  error: unknown;
+  attempts: number;
+  duration: number;
+}
+
+export interface SuiteQLPageEvent {
+  /** Shared by every page of one `query()` / `queryPages()` call */
+  queryId: string;
+  /** Request that fetched this page */
+  requestId: string;
+  /** 1-based page number */
+  page: number;
+  offset: number;
+  rows: number;
+  totalResults: number;
+  hasMore: boolean;
+}
+
+/** How a REST Record API request changed a record */
+export type RecordMutation = 'create' | 'update' | 'replace' | 'upsert' | 'delete' | 'transform';
+
+export interface RecordMutatedEvent {
+  requestId: string;
+  operation: RecordMutation;
+  recordType: string;
+  /** Internal ID from the `Location` header, else the ID (or `eid:` key) in the URL */
+  recordId?: string;
+  method: HttpMethod;
+  status: number;
+}
+
+/** `closed` lets requests through, `open` fails them fast, `half-open` lets probes through */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitStateChangeEvent {
+  /** Circuit key: the account ID, plus `:<api>` when circuits are kept per API family */
+  key: string;
+  accountId: string;
+  /** API family, when circuits are kept per API family */
+  api?: NetSuiteApi;
+  from: CircuitState;
+  to: CircuitState;
+  /** Consecutive failures counted before the change */
+  failures: number;
+}
+
+/** Events emitted by `NetSuiteClient`, keyed by name */
+export interface NetSuiteEvents {
+  'request:start': RequestStartEvent;
+  'request:retry': RequestRetryEvent;
+  'request:success': RequestSuccessEvent;
+  'request:error': RequestErrorEvent;
+  'suiteql:page': SuiteQLPageEvent;
+  'record:mutated': RecordMutatedEvent;
+  'circuit:state-change': CircuitStateChangeEvent;
+}
@@ -1,4 +1,5 @@
 import type { AxiosResponse } from 'axios';
+import type { MiddlewareOverrides, RequestScope } from './middleware.js';
 
 export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
 
@@ -10,6 +11,27 @@ export interface RequestOptions {
   timeout?: number;
   /** Override retry count for this request */
   maxRetries?: number;
+  /** Cancel the request, including pending retries; fails with code `ABORTED` */
+  signal?: AbortSignal;
+  /**
+   * Absolute deadline (Date or epoch ms) across all attempts and backoff waits.
+   * Fails with code `DEADLINE_EXCEEDED` once passed.
+   */
+  deadline?: Date | number;
+  /** Idempotency key to send (and reuse on every retry) instead of a generated one */
+  idempotencyKey?: string;
+  /** Mark a POST/PATCH as free of side effects so it is retried like a GET */
+  idempotent?: boolean;
+  /** Correlation ID for events and logs. Default: a random ID per request */
+  requestId?: string;
+  /** Scope shared with related requests, such as the pages of one SuiteQL query */
+  parentScope?: RequestScope;
+  /** Skip registered middleware by name, or add middleware for this call only */
+  middleware?: MiddlewareOverrides;
+  /** Set to false to send this GET on its own even when `coalesce` is enabled */
+  coalesce?: boolean;
+  /** Set to false to bypass the response cache for this GET */
+  cache?: boolean;
 }
 
 export interface NetSuiteResponse<T = unknown> {
@@ -19,6 +41,18 @@ export interface NetSuiteResponse<T = unknown> {
   duration: number;
 }
 
+/** Details passed to `NetSuiteConfig.onRetry` before each retry */
+export interface RetryEvent {
+  url: string;
+  method: HttpMethod;
+  /** Retry number (1 = first retry) */
+  attempt: number;
+  maxRetries: number;
+  /** Delay before the retry, in ms (server `Retry-After` or backoff) */
+  delay: number;
+  error: unknown;
+}
+
 /** Convert AxiosResponse headers to a plain record */
 export function extractHeaders(response: AxiosResponse): Record<string, string> {
   const headers: Record<string, string> = {};
@@ -1,18 +1,70 @@
-export type { Logger } from './logger.js';
-export type { OAuthConfig, NetSuiteConfig } from './config.js';
-export type { HttpMethod, RequestOptions, NetSuiteResponse } from './http.js';
+export type { Logger, LogEvent, LogEventName } from './logger.js';
+export type { MetricsSink, MetricLabels } from './metrics.js';
+export type {
+  OAuthConfig,
+  OAuth2ClientCredentialsConfig,
+  OAuth2JwtAlgorithm,
+  AuthConfig,
+  NetSuiteConfig,
+} from './config.js';
+export type { AuthProvider, OAuth2Tokens, TokenStore } from './auth.js';
+export type { HttpMethod, RequestOptions, NetSuiteResponse, RetryEvent } from './http.js';
 export { extractHeaders } from './http.js';
 export { NetSuiteError } from './errors.js';
-export type { NetSuiteErrorDetail } from './errors.js';
-export type { RequestContext, ResponseContext, Middleware } from './middleware.js';
+export { HttpAdapterError } from './adapter.js';
+export type {
+  HttpAdapter,
+  AdapterRequest,
+  AdapterResponse,
+  HttpAdapterErrorKind,
+} from './adapter.js';
+export type { NetSuiteErrorDetail, NetSuiteErrorOptions } from './errors.js';
+export type {
+  NetSuiteEvents,
+  RequestEventBase,
+  RequestStartEvent,
+  RequestRetryEvent,
+  RequestSuccessEvent,
+  RequestErrorEvent,
+  SuiteQLPageEvent,
+  RecordMutatedEvent,
+  RecordMutation,
+  CircuitState,
+  CircuitStateChangeEvent,
+} from './events.js';
+export type {
+  RequestContext,
+  RequestScope,
+  ResponseContext,
+  Middleware,
+  MiddlewareScope,
+  MiddlewareOptions,
+  MiddlewareRegistration,
+  MiddlewareOverrides,
+} from './middleware.js';
 export type {
   SuiteQLRawResponse,
   SuiteQLOptions,
   SuiteQLResult,
 } from './suiteql.js';
+export type {
+  CacheEntry,
+  CacheStore,
+  CachePolicy,
+  RequestCacheOptions,
+} from './cache.js';
 export type {
   RecordListOptions,
   RecordListResponse,
   RecordGetOptions,
+  RecordWriteOptions,
+  RecordWriteResult,
   RecordType,
 } from './records.js';
+export type {
+  JsonSchema,
+  OpenApiDocument,
+  RecordTypeSummary,
+  RecordFieldInfo,
+  MetadataClientOptions,
+} from './metadata.js';
@@ -1,6 +1,51 @@
+import type { HttpMethod } from './http.js';
+
 export interface Logger {
   debug(message: string, meta?: unknown): void;
   info(message: string, meta?: unknown): void;
   warn(message: string, meta?: unknown): void;
   error(message: string, meta?: unknown): void;
 }
+
+/**
+ * - `request.start` — an attempt is about to be sent (debug)
+ * - `request.success` — an attempt got a 2xx response (info)
+ * - `request.error` — an attempt failed (warn)
+ * - `request.retry` — a retry is scheduled (warn)
+ * - `request.retry_skipped` — a failed request will not be retried (warn)
+ * - `auth.refreshed` — credentials were refreshed after a 401/403 (warn)
+ */
+export type LogEventName =
+  | 'request.start'
+  | 'request.success'
+  | 'request.error'
+  | 'request.retry'
+  | 'request.retry_skipped'
+  | 'auth.refreshed';
+
+/** Meta object passed to the logger with every SDK log entry */
+export interface LogEvent {
+  event: LogEventName;
+  /** Identifies one `request()` call across all of its attempts */
+  requestId: string;
+  method: HttpMethod;
+  /** Request URL, redacted */
+  url: string;
+  /** Attempt number (1 = first attempt) */
+  attempt?: number;
+  /** Attempt duration in ms */
+  duration?: number;
+  status?: number;
+  /** `NetSuiteError.code`, e.g. NetSuite's `o:errorCode` */
+  errorCode?: string;
+  /** Error message; response bodies are never logged */
+  error?: string;
+  /** Delay before the retry, in ms */
+  retryDelay?: number;
+  /** Why a retry was skipped */
+  reason?: 'not_idempotent' | 'budget_exhausted';
+  /** Request headers, redacted (debug only) */
+  headers?: Record<string, string>;
+  /** Request body, redacted (debug only, when `logBodies` is enabled) */
+  body?: unknown;
+}
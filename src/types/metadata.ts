@@ -0,0 +1,66 @@
+/**
+ * The parts of a JSON Schema the metadata catalog uses. NetSuite adds
+ * `x-ns-*` extensions such as `x-ns-custom-field`.
+ */
+export interface JsonSchema {
+  type?: string | string[];
+  title?: string;
+  description?: string;
+  format?: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  enum?: unknown[];
+  readOnly?: boolean;
+  nullable?: boolean;
+  $ref?: string;
+  definitions?: Record<string, JsonSchema>;
+  [extension: `x-${string}`]: unknown;
+}
+
+/** An OpenAPI 3 document, as returned for `application/swagger+json` */
+export interface OpenApiDocument {
+  openapi: string;
+  info?: Record<string, unknown>;
+  paths?: Record<string, unknown>;
+  components?: { schemas?: Record<string, JsonSchema> } & Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+/** A record type in the metadata catalog */
+export interface RecordTypeSummary {
+  /** Record type as used in REST URLs, e.g. "salesorder" or "customrecord_project" */
+  name: string;
+  /** Whether this is a custom record type */
+  custom: boolean;
+}
+
+/** A field of a record type, flattened from its JSON Schema */
+export interface RecordFieldInfo {
+  name: string;
+  /** Display label */
+  label?: string;
+  /** JSON Schema type: "string", "number", "integer", "boolean", "object" or "array" */
+  type?: string;
+  /** JSON Schema format, e.g. "date" or "date-time" */
+  format?: string;
+  /** Whether a value is required when creating the record */
+  mandatory: boolean;
+  readOnly: boolean;
+  nullable: boolean;
+  /** Whether this is a custom field (`custentity…`, `custbody…`, …) */
+  custom: boolean;
+  /** Allowed values, for fields with a fixed list */
+  enumValues?: unknown[];
+  /** Record type a reference field points to */
+  referenceType?: string;
+  /** Whether the field is a sublist (a collection of lines) */
+  sublist: boolean;
+  /** Fields of each sublist line */
+  fields?: RecordFieldInfo[];
+}
+
+export interface MetadataClientOptions {
+  /** How long fetched schemas are kept, in ms. Default: 3600000 (1 hour) */
+  ttl?: number;
+}
@@ -0,0 +1,13 @@
+/** Label names and values attached to one metric series */
+export type MetricLabels = Record<string, string>;
+
+/**
+ * Destination for SDK metrics. Names follow Prometheus conventions
+ * (see `NETSUITE_METRICS`); counters are incremented, histograms observed.
+ */
+export interface MetricsSink {
+  /** Add `value` (default 1) to a counter */
+  increment(name: string, labels: MetricLabels, value?: number): void;
+  /** Record one histogram observation */
+  observe(name: string, labels: MetricLabels, value: number): void;
+}
@@ -1,11 +1,29 @@
 import type { HttpMethod } from './http.js';
 
+/** State shared by every attempt of one `HttpTransport.request` call */
+export interface RequestScope {
+  /** Random ID shared by every attempt; logged as `requestId` */
+  id: string;
+  /** Free-form state that survives across attempts */
+  state: Record<string, unknown>;
+  /** Run `callback` once the request settles, after its final attempt */
+  onSettled(callback: (error?: unknown) => void): void;
+  /** Scope of the operation this request belongs to, e.g. a paginated SuiteQL query */
+  parent?: RequestScope;
+}
+
 export interface RequestContext {
   url: string;
   method: HttpMethod;
   headers: Record<string, string>;
   body?: unknown;
   metadata: Record<string, unknown>;
+  /** Aborted when the caller cancels or the request deadline passes */
+  signal?: AbortSignal;
+  /** Attempt number within the request (1 = first attempt) */
+  attempt?: number;
+  /** Request-level state and lifecycle, shared across retries */
+  scope?: RequestScope;
 }
 
 export interface ResponseContext {
@@ -19,3 +37,34 @@ export type Middleware = (
   context: RequestContext,
   next: () => Promise<ResponseContext>,
 ) => Promise<ResponseContext>;
+
+/**
+ * - `attempt` — runs inside the retry loop, once per attempt (default)
+ * - `request` — wraps the retry loop, once per logical request; `next()`
+ *   resolves with the final response after retries
+ */
+export type MiddlewareScope = 'request' | 'attempt';
+
+export interface MiddlewareOptions {
+  /** Unique name, so the middleware can be positioned against, skipped or removed */
+  name?: string;
+  /** Default: "attempt" */
+  scope?: MiddlewareScope;
+  /** Insert before the named middleware instead of appending */
+  before?: string;
+  /** Insert after the named middleware instead of appending */
+  after?: string;
+}
+
+/** A middleware together with its registration options */
+export interface MiddlewareRegistration extends MiddlewareOptions {
+  middleware: Middleware;
+}
+
+/** Per-call changes to the middleware stack, via `RequestOptions.middleware` */
+export interface MiddlewareOverrides {
+  /** Names of registered middleware to leave out of this call */
+  skip?: string[];
+  /** Middleware for this call only, positioned like registered middleware */
+  add?: Array<Middleware | MiddlewareRegistration>;
+}
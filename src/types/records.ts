@@ -1,3 +1,5 @@
+import type { NetSuiteResponse } from './http.js';
+
 /** Options for listing records */
 export interface RecordListOptions {
   limit?: number;
@@ -22,6 +24,32 @@ export interface RecordListResponse<T = Record<string, unknown>> {
 export interface RecordGetOptions {
   fields?: string[];
   expandSubResources?: boolean;
+  /** Set to false to fetch on its own even when `coalesce` is enabled */
+  coalesce?: boolean;
+  /** Set to false to bypass the response cache */
+  cache?: boolean;
+}
+
+/** Options for `create`, `upsert` and `transform` */
+export interface RecordWriteOptions {
+  /**
+   * Fetch the record once written and return it as `record`. Pass `fields`
+   * or `expandSubResources` to shape it. Default: false
+   */
+  fetch?: boolean | Pick<RecordGetOptions, 'fields' | 'expandSubResources'>;
+}
+
+/**
+ * Result of a write that creates or identifies a record. NetSuite answers
+ * with `204 No Content` and names the record in the `Location` header.
+ */
+export interface RecordWriteResult<T = Record<string, unknown>> extends NetSuiteResponse<void> {
+  /** Internal ID of the record, from `Location` */
+  id?: string;
+  /** REST Record API URL of the record, from `Location` */
+  url?: string;
+  /** The record as stored, when `fetch` was set */
+  record?: T;
 }
 
 /**
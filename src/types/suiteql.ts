@@ -18,6 +18,14 @@ export interface SuiteQLOptions {
   maxRows?: number;
   /** Override timeout for this query */
   timeout?: number;
+  /** Cancel the query, including any remaining page fetches */
+  signal?: AbortSignal;
+  /** Absolute deadline (Date or epoch ms) for the whole query across all pages */
+  deadline?: Date | number;
+  /** Set to false to run this query on its own even when `coalesce` is enabled */
+  coalesce?: boolean;
+  /** Set to false to bypass the response cache for this query */
+  cache?: boolean;
 }
 
 /** Result of a SuiteQL query with metadata */
@@ -0,0 +1,193 @@
+import { NetSuiteError } from '../types/errors.js';
+
+export interface ConcurrencyOptions {
+  /** Maximum requests in flight at once (NetSuite's default account limit is 15) */
+  maxConcurrent: number;
+  /** Maximum requests waiting for a slot. Default: Infinity */
+  maxQueueSize?: number;
+  /** Max ms a request may wait for a slot before failing. Default: no limit */
+  queueTimeout?: number;
+}
+
+export interface ConcurrencyStats {
+  /** Requests currently holding a slot */
+  active: number;
+  /** Requests currently waiting for a slot */
+  queued: number;
+  maxConcurrent: number;
+  /** Highest queue depth observed */
+  peakQueued: number;
+  /** Slots granted since creation */
+  totalAcquired: number;
+  /** Requests that had to wait for a slot */
+  totalQueued: number;
+  /** Requests that gave up waiting (queue timeout) */
+  totalTimedOut: number;
+  /** Requests rejected because the queue was full */
+  totalRejected: number;
+  /** Average wait across all granted slots, in ms */
+  averageWaitMs: number;
+  /** Longest wait for a granted slot, in ms */
+  maxWaitMs: number;
+}
+
+interface Waiter {
+  enqueuedAt: number;
+  resolve: (release: () => void) => void;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Caps the number of in-flight requests and queues the rest (FIFO).
+ * Share one instance between clients that target the same account so they
+ * draw from the same pool of NetSuite concurrency slots.
+ */
+export class ConcurrencyLimiter {
+  private maxConcurrent: number;
+  private maxQueueSize: number;
+  private queueTimeout?: number;
+  private active = 0;
+  private queue: Waiter[] = [];
+  private peakQueued = 0;
+  private totalAcquired = 0;
+  private totalQueued = 0;
+  private totalTimedOut = 0;
+  private totalRejected = 0;
+  private totalWaitMs = 0;
+  private maxWaitMs = 0;
+
+  constructor(options: ConcurrencyOptions) {
+    if (!(options.maxConcurrent >= 1)) {
+      throw new RangeError('maxConcurrent must be at least 1');
+    }
+    this.maxConcurrent = options.maxConcurrent;
+    this.maxQueueSize = options.maxQueueSize ?? Infinity;
+    this.queueTimeout = options.queueTimeout;
+  }
+
+  /**
+   * Wait for a slot. Resolves with a function that releases it.
+   * Aborting `signal` while queued rejects with `signal.reason`.
+   */
+  acquire(signal?: AbortSignal): Promise<() => void> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    if (this.active < this.maxConcurrent && this.queue.length === 0) {
+      this.active++;
+      this.recordGrant(0);
+      return Promise.resolve(this.createRelease());
+    }
+
+    if (this.queue.length >= this.maxQueueSize) {
+      this.totalRejected++;
+      return Promise.reject(
+        new NetSuiteError(
+          `Concurrency queue is full (${this.maxQueueSize} waiting)`,
+          0,
+          'CONCURRENCY_QUEUE_FULL',
+          undefined,
+          undefined,
+          undefined,
+          { requestSent: false },
+        ),
+      );
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.removeWaiter(waiter);
+        reject(signal!.reason);
+      };
+      const waiter: Waiter = {
+        enqueuedAt: Date.now(),
+        resolve: (release) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(release);
+        },
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      if (this.queueTimeout != null) {
+        const queueTimeout = this.queueTimeout;
+        waiter.timer = setTimeout(() => {
+          signal?.removeEventListener('abort', onAbort);
+          this.removeWaiter(waiter);
+          this.totalTimedOut++;
+          reject(
+            new NetSuiteError(
+              `Timed out after ${queueTimeout}ms waiting for a concurrency slot`,
+              0,
+              'CONCURRENCY_QUEUE_TIMEOUT',
+              undefined,
+              undefined,
+              undefined,
+              { requestSent: false },
+            ),
+          );
+        }, queueTimeout);
+      }
+
+      this.queue.push(waiter);
+      this.totalQueued++;
+      this.peakQueued = Math.max(this.peakQueued, this.queue.length);
+    });
+  }
+
+  /** Run `fn` while holding a slot. */
+  async run<T>(fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const release = await this.acquire(signal);
+    try {
+      return await fn();
+    } finally {
+      release();
+    }
+  }
+
+  /** Snapshot of current queue depth and historical wait times. */
+  getStats(): ConcurrencyStats {
+    return {
+      active: this.active,
+      queued: this.queue.length,
+      maxConcurrent: this.maxConcurrent,
+      peakQueued: this.peakQueued,
+      totalAcquired: this.totalAcquired,
+      totalQueued: this.totalQueued,
+      totalTimedOut: this.totalTimedOut,
+      totalRejected: this.totalRejected,
+      averageWaitMs: this.totalAcquired > 0 ? Math.round(this.totalWaitMs / this.totalAcquired) : 0,
+      maxWaitMs: this.maxWaitMs,
+    };
+  }
+
+  private createRelease(): () => void {
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+
+      const next = this.queue.shift();
+      if (next) {
+        // Hand the slot straight to the next waiter
+        if (next.timer) clearTimeout(next.timer);
+        this.recordGrant(Date.now() - next.enqueuedAt);
+        next.resolve(this.createRelease());
+      } else {
+        this.active--;
+      }
+    };
+  }
+
+  private removeWaiter(waiter: Waiter): void {
+    if (waiter.timer) clearTimeout(waiter.timer);
+    const index = this.queue.indexOf(waiter);
+    if (index !== -1) this.queue.splice(index, 1);
+  }
+
+  private recordGrant(waitMs: number): void {
+    this.totalAcquired++;
+    this.totalWaitMs += waitMs;
+    this.maxWaitMs = Math.max(this.maxWaitMs, waitMs);
+  }
+}
@@ -0,0 +1,230 @@
+import type { AuthConfig, NetSuiteConfig, OAuth2JwtAlgorithm } from '../types/config.js';
+import { canonicalAccountId } from './url-builder.js';
+
+/**
+ * Settings read from the environment or a profile. Environment variables are
+ * the prefix plus the upper-cased name (`NETSUITE_CONSUMER_KEY`); profile
+ * files use the name as is (`consumer_key = ...`).
+ */
+const SETTINGS = [
+  'account_id',
+  'consumer_key',
+  'consumer_secret',
+  'token_id',
+  'token_secret',
+  'realm',
+  'client_id',
+  'certificate_id',
+  'private_key',
+  'jwt_algorithm',
+  'scope',
+  'timeout',
+  'max_retries',
+  'retry_delay',
+] as const;
+
+type Setting = (typeof SETTINGS)[number];
+
+/** Accepted alternative names */
+const ALIASES: Record<string, Setting> = { token_key: 'token_id' };
+
+/** Environment-only variables that pick the profile, not config values */
+const ENV_ONLY = new Set(['profile', 'credentials_file']);
+
+export interface EnvConfigOptions {
+  /** Variable prefix. Default: "NETSUITE_" */
+  prefix?: string;
+  /** Variables to read. Default: `process.env` */
+  env?: Record<string, string | undefined>;
+  /** Receives a message for each unrecognised variable under the prefix */
+  onWarning?: (message: string) => void;
+}
+
+export interface ProfileOptions {
+  /** Credentials file. Default: `$NETSUITE_CREDENTIALS_FILE`, else `~/.netsuite/credentials` */
+  path?: string;
+  /** Variables used for the defaults above. Default: `process.env` */
+  env?: Record<string, string | undefined>;
+  /** Receives a message for each unrecognised key in the profile */
+  onWarning?: (message: string) => void;
+}
+
+function processEnv(): Record<string, string | undefined> {
+  return typeof process !== 'undefined' ? process.env : {};
+}
+
+/** Build a config from settings, naming missing or malformed ones as the source spells them */
+function buildConfig(
+  settings: Partial<Record<Setting, string>>,
+  describe: (setting: Setting) => string,
+  source: string,
+): NetSuiteConfig {
+  const problems: string[] = [];
+  const required = (setting: Setting): string => {
+    const value = settings[setting];
+    if (!value) problems.push(`${describe(setting)} is required`);
+    return value ?? '';
+  };
+  const numeric = (setting: Setting): number | undefined => {
+    const value = settings[setting];
+    if (value === undefined || value === '') return undefined;
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed)) problems.push(`${describe(setting)} must be a number`);
+    return parsed;
+  };
+
+  const accountId = required('account_id');
+  let auth: AuthConfig;
+  if (settings.client_id) {
+    auth = {
+      type: 'oauth2-client-credentials',
+      clientId: required('client_id'),
+      certificateId: required('certificate_id'),
+      // PEM keys usually arrive on one line with escaped newlines
+      privateKey: required('private_key').replace(/\\n/g, '\n'),
+      ...(settings.jwt_algorithm && {
+        algorithm: settings.jwt_algorithm as OAuth2JwtAlgorithm,
+      }),
+      ...(settings.scope && { scope: settings.scope.split(/[\s,]+/).filter(Boolean) }),
+    };
+  } else {
+    auth = {
+      consumerKey: required('consumer_key'),
+      consumerSecret: required('consumer_secret'),
+      tokenKey: required('token_id'),
+      tokenSecret: required('token_secret'),
+      // The realm is the account ID in upper case (`1234567_SB1`)
+      realm: settings.realm || canonicalAccountId(accountId),
+    };
+  }
+
+  const config: NetSuiteConfig = { auth, accountId };
+  const timeout = numeric('timeout');
+  const maxRetries = numeric('max_retries');
+  const retryDelay = numeric('retry_delay');
+  if (timeout !== undefined) config.timeout = timeout;
+  if (maxRetries !== undefined) config.maxRetries = maxRetries;
+  if (retryDelay !== undefined) config.retryDelay = retryDelay;
+
+  if (problems.length > 0) {
+    throw new Error(
+      `Invalid NetSuite configuration from ${source}:\n  - ${problems.join('\n  - ')}`,
+    );
+  }
+  return config;
+}
+
+/** Map a raw setting name to a known one, or undefined */
+function resolveSetting(name: string): Setting | undefined {
+  if ((SETTINGS as readonly string[]).includes(name)) return name as Setting;
+  return ALIASES[name];
+}
+
+/**
+ * Build a config from environment variables.
+ *
+ * TBA: `NETSUITE_ACCOUNT_ID`, `NETSUITE_CONSUMER_KEY`, `NETSUITE_CONSUMER_SECRET`,
+ * `NETSUITE_TOKEN_ID`, `NETSUITE_TOKEN_SECRET` and optionally `NETSUITE_REALM`.
+ * OAuth 2.0 M2M: `NETSUITE_CLIENT_ID`, `NETSUITE_CERTIFICATE_ID`, `NETSUITE_PRIVATE_KEY`,
+ * optionally `NETSUITE_JWT_ALGORITHM` and `NETSUITE_SCOPE`. Either may add
+ * `NETSUITE_TIMEOUT`, `NETSUITE_MAX_RETRIES` and `NETSUITE_RETRY_DELAY`.
+ */
+export function configFromEnv(options: EnvConfigOptions = {}): NetSuiteConfig {
+  const prefix = options.prefix ?? 'NETSUITE_';
+  const env = options.env ?? processEnv();
+  const settings: Partial<Record<Setting, string>> = {};
+
+  for (const [name, value] of Object.entries(env)) {
+    if (!name.startsWith(prefix) || value === undefined) continue;
+    const key = name.slice(prefix.length).toLowerCase();
+    const setting = resolveSetting(key);
+    if (setting) {
+      settings[setting] = value;
+    } else if (!ENV_ONLY.has(key)) {
+      options.onWarning?.(`Unknown environment variable ${name}`);
+    }
+  }
+
+  return buildConfig(
+    settings,
+    (setting) => `${prefix}${setting.toUpperCase()}`,
+    'environment variables',
+  );
+}
+
+/**
+ * Parse an INI-style credentials file into profiles.
+ *
+ * ```ini
+ * [default]
+ * account_id = 1234567
+ *
+ * [sb1]
+ * account_id = 1234567_SB1
+ * ```
+ */
+export function parseProfiles(text: string): Record<string, Record<string, string>> {
+  const profiles: Record<string, Record<string, string>> = {};
+  let current: Record<string, string> | undefined;
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line || line.startsWith('#') || line.startsWith(';')) return;
+
+    const section = /^\[\s*(?:profile\s+)?([^\]]+?)\s*\]$/.exec(line);
+    if (section) {
+      current = profiles[section[1]] ??= {};
+      return;
+    }
+
+    const separator = line.indexOf('=');
+    if (separator === -1 || !current) {
+      throw new Error(
+        `Invalid credentials file: line ${index + 1} is not "key = value" inside a [profile]`,
+      );
+    }
+    let value = line.slice(separator + 1).trim();
+    if (/^(["']).*\1$/.test(value)) value = value.slice(1, -1);
+    current[line.slice(0, separator).trim().toLowerCase()] = value;
+  });
+
+  return profiles;
+}
+
+/**
+ * Load a named profile from the credentials file (`~/.netsuite/credentials`).
+ * The profile defaults to `$NETSUITE_PROFILE`, else `default`.
+ */
+export async function loadProfile(
+  profile?: string,
+  options: ProfileOptions = {},
+): Promise<NetSuiteConfig> {
+  const env = options.env ?? processEnv();
+  const name = profile ?? env.NETSUITE_PROFILE ?? 'default';
+  let path = options.path ?? env.NETSUITE_CREDENTIALS_FILE;
+  if (!path) {
+    const { homedir } = await import('node:os');
+    const { join } = await import('node:path');
+    path = join(homedir(), '.netsuite', 'credentials');
+  }
+
+  const { readFile } = await import('node:fs/promises');
+  const profiles = parseProfiles(await readFile(path, 'utf8'));
+  const entries = profiles[name];
+  if (!entries) {
+    const available = Object.keys(profiles).join(', ') || 'none';
+    throw new Error(`NetSuite profile "${name}" not found in ${path} (available: ${available})`);
+  }
+
+  const settings: Partial<Record<Setting, string>> = {};
+  for (const [key, value] of Object.entries(entries)) {
+    const setting = resolveSetting(key);
+    if (setting) {
+      settings[setting] = value;
+    } else {
+      options.onWarning?.(`Unknown key "${key}" in NetSuite profile "${name}"`);
+    }
+  }
+
+  return buildConfig(settings, (setting) => setting, `profile "${name}" in ${path}`);
+}
@@ -0,0 +1,143 @@
+/**
+ * Runtime-neutral crypto helpers.
+ *
+ * Uses `node:crypto` when the runtime provides it and falls back to Web Crypto
+ * (`globalThis.crypto.subtle`) on fetch-based runtimes such as Cloudflare
+ * Workers. Nothing here imports Node built-ins statically.
+ */
+
+import type { OAuth2JwtAlgorithm } from '../types/config.js';
+// Type-only: erased at build time, so no runtime dependency on node:crypto
+import type { webcrypto } from 'node:crypto';
+
+type NodeCrypto = typeof import('node:crypto');
+
+let nodeCryptoPromise: Promise<NodeCrypto | null> | undefined;
+
+/** Lazily load `node:crypto`, resolving to null where it is unavailable. */
+export function loadNodeCrypto(): Promise<NodeCrypto | null> {
+  nodeCryptoPromise ??= import('node:crypto')
+    .then((mod) => (typeof mod.createHmac === 'function' ? mod : null))
+    .catch(() => null);
+  return nodeCryptoPromise;
+}
+
+const encoder = new TextEncoder();
+
+function getSubtle(): webcrypto.SubtleCrypto {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    throw new Error('No crypto implementation available (need node:crypto or Web Crypto)');
+  }
+  return subtle;
+}
+
+/** Base64-encode bytes without relying on Buffer. */
+export function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+/** Base64url-encode (RFC 4648 §5, unpadded) bytes or a UTF-8 string. */
+export function toBase64Url(input: Uint8Array | string): string {
+  const bytes = typeof input === 'string' ? encoder.encode(input) : input;
+  return toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/** Cryptographically random bytes, base64url-encoded. */
+export function randomBase64Url(byteLength: number): string {
+  return toBase64Url(globalThis.crypto.getRandomValues(new Uint8Array(byteLength)));
+}
+
+/** HMAC-SHA256 of `data` keyed by `key`, base64-encoded. */
+export async function hmacSha256Base64(key: string, data: string): Promise<string> {
+  const node = await loadNodeCrypto();
+  if (node) {
+    return node.createHmac('sha256', key).update(data).digest('base64');
+  }
+  return webHmacSha256Base64(key, data);
+}
+
+export async function webHmacSha256Base64(key: string, data: string): Promise<string> {
+  const subtle = getSubtle();
+  const cryptoKey = await subtle.importKey(
+    'raw',
+    encoder.encode(key),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  return toBase64(new Uint8Array(await subtle.sign('HMAC', cryptoKey, encoder.encode(data))));
+}
+
+/** SHA-256 digest of a UTF-8 string, base64url-encoded. */
+export async function sha256Base64Url(data: string): Promise<string> {
+  const node = await loadNodeCrypto();
+  if (node) {
+    return node.createHash('sha256').update(data).digest('base64url');
+  }
+  return toBase64Url(new Uint8Array(await getSubtle().digest('SHA-256', encoder.encode(data))));
+}
+
+/**
+ * Sign a JWS signing input with a PEM private key and return the
+ * base64url signature. The Web Crypto fallback requires a PKCS#8 key.
+ */
+export async function signJws(
+  signingInput: string,
+  privateKeyPem: string,
+  algorithm: OAuth2JwtAlgorithm,
+): Promise<string> {
+  const node = await loadNodeCrypto();
+  if (node) {
+    const hash = `sha${algorithm.slice(2)}`;
+    const data = encoder.encode(signingInput);
+    let signature: Uint8Array;
+    if (algorithm.startsWith('PS')) {
+      signature = node.sign(hash, data, {
+        key: privateKeyPem,
+        padding: node.constants.RSA_PKCS1_PSS_PADDING,
+        saltLength: node.constants.RSA_PSS_SALTLEN_DIGEST,
+      });
+    } else if (algorithm.startsWith('ES')) {
+      signature = node.sign(hash, data, { key: privateKeyPem, dsaEncoding: 'ieee-p1363' });
+    } else {
+      signature = node.sign(hash, data, privateKeyPem);
+    }
+    return toBase64Url(new Uint8Array(signature));
+  }
+  return webSignJws(signingInput, privateKeyPem, algorithm);
+}
+
+export async function webSignJws(
+  signingInput: string,
+  privateKeyPem: string,
+  algorithm: OAuth2JwtAlgorithm,
+): Promise<string> {
+  const subtle = getSubtle();
+  const bits = Number(algorithm.slice(2));
+  const hash = `SHA-${bits}`;
+  const der = Uint8Array.from(
+    atob(privateKeyPem.replace(/-----[^-]+-----/g, '').replace(/\s+/g, '')),
+    (c) => c.charCodeAt(0),
+  );
+
+  let importParams: webcrypto.RsaHashedImportParams | webcrypto.EcKeyImportParams;
+  let signParams: webcrypto.AlgorithmIdentifier | webcrypto.RsaPssParams | webcrypto.EcdsaParams;
+  if (algorithm.startsWith('PS')) {
+    importParams = { name: 'RSA-PSS', hash };
+    signParams = { name: 'RSA-PSS', saltLength: bits / 8 };
+  } else if (algorithm.startsWith('ES')) {
+    const curve = bits === 512 ? 'P-521' : `P-${bits}`;
+    importParams = { name: 'ECDSA', namedCurve: curve };
+    signParams = { name: 'ECDSA', hash };
+  } else {
+    importParams = { name: 'RSASSA-PKCS1-v1_5', hash };
+    signParams = { name: 'RSASSA-PKCS1-v1_5' };
+  }
+
+  const key = await subtle.importKey('pkcs8', der, importParams, false, ['sign']);
+  const signature = await subtle.sign(signParams, key, encoder.encode(signingInput));
+  return toBase64Url(new Uint8Array(signature));
+}
@@ -0,0 +1,76 @@
+/** Listener for one event type; returned promises are not awaited */
+export type EventListener<T> = (event: T) => void | Promise<void>;
+
+/**
+ * Minimal typed event emitter with no runtime dependencies.
+ *
+ * Listeners run synchronously in registration order. A throwing (or
+ * rejecting) listener never affects the emitter or other listeners; the
+ * error goes to `onListenerError`.
+ */
+export class TypedEventEmitter<Events extends object> {
+  private listeners = new Map<keyof Events, Array<EventListener<never>>>();
+  private onListenerError?: (error: unknown, event: keyof Events) => void;
+  // `once()` wrappers, mapped to the listener they wrap so `off()` can find them
+  private onceListeners = new WeakMap<EventListener<never>, EventListener<never>>();
+
+  constructor(onListenerError?: (error: unknown, event: keyof Events) => void) {
+    this.onListenerError = onListenerError;
+  }
+
+  /** Register a listener. Returns `this` for chaining. */
+  on<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): this {
+    const listeners = this.listeners.get(event) ?? [];
+    listeners.push(listener as EventListener<never>);
+    this.listeners.set(event, listeners);
+    return this;
+  }
+
+  /** Register a listener that is removed after its first call. */
+  once<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): this {
+    const wrapper: EventListener<Events[K]> = (payload) => {
+      this.off(event, wrapper);
+      return listener(payload);
+    };
+    this.onceListeners.set(wrapper as EventListener<never>, listener as EventListener<never>);
+    return this.on(event, wrapper);
+  }
+
+  /** Remove a listener registered with `on()` or `once()`, or every listener for `event`. */
+  off<K extends keyof Events>(event: K, listener?: EventListener<Events[K]>): this {
+    if (!listener) {
+      this.listeners.delete(event);
+      return this;
+    }
+    const listeners = this.listeners.get(event);
+    const index =
+      listeners?.findIndex(
+        (registered) =>
+          registered === listener || this.onceListeners.get(registered) === listener,
+      ) ?? -1;
+    if (index !== -1) listeners!.splice(index, 1);
+    return this;
+  }
+
+  /** Number of listeners registered for `event`. */
+  listenerCount(event: keyof Events): number {
+    return this.listeners.get(event)?.length ?? 0;
+  }
+
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    const listeners = this.listeners.get(event);
+    if (!listeners?.length) return;
+
+    // Copy so listeners added or removed during emit don't affect this round
+    for (const listener of [...listeners] as Array<EventListener<Events[K]>>) {
+      try {
+        const result = listener(payload);
+        if (result && typeof result.then === 'function') {
+          result.then(undefined, (error: unknown) => this.onListenerError?.(error, event));
+        }
+      } catch (error) {
+        this.onListenerError?.(error, event);
+      }
+    }
+  }
+}
@@ -0,0 +1,72 @@
+interface Flight {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiters: number;
+}
+
+/**
+ * Shares one in-flight promise between identical concurrent calls.
+ *
+ * The shared work runs on its own signal, so one caller giving up doesn't
+ * fail the others; it is aborted only once every caller has gone. Callers
+ * that join an existing flight get a structured clone of the result, so
+ * they can't see each other's mutations. Errors reach every caller.
+ */
+export class RequestCoalescer {
+  private flights = new Map<string, Flight>();
+
+  /**
+   * Run `execute` for `key`, or join the call already in flight for it.
+   * `signal` cancels this caller's wait only.
+   */
+  run<T>(
+    key: string,
+    execute: (signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    if (signal?.aborted) return Promise.reject(signal.reason);
+
+    let flight = this.flights.get(key);
+    const joined = flight !== undefined;
+    if (!flight) {
+      const controller = new AbortController();
+      const promise = execute(controller.signal);
+      const current: Flight = { promise, controller, waiters: 0 };
+      const leave = () => {
+        if (this.flights.get(key) === current) this.flights.delete(key);
+      };
+      promise.then(leave, leave);
+      this.flights.set(key, current);
+      flight = current;
+    }
+    flight.waiters++;
+
+    const shared = flight;
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        reject(signal!.reason);
+        if (--shared.waiters > 0) return;
+        // Nobody is waiting any more: stop the work and let the next caller start afresh
+        if (this.flights.get(key) === shared) this.flights.delete(key);
+        shared.controller.abort(signal!.reason);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      shared.promise.then(
+        (value) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(joined ? structuredClone(value as T) : (value as T));
+        },
+        (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      );
+    });
+  }
+
+  /** Keys currently in flight */
+  get size(): number {
+    return this.flights.size;
+  }
+}
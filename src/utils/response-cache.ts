@@ -3,11 +3,22 @@ interface CacheEntry<T> {
   expiresAt: number;
 }
 
+export interface ResponseCacheOptions {
+  /** Most entries kept, dropping the least recently used. Default: Infinity */
+  maxEntries?: number;
+}
+
 /**
- * Simple in-memory TTL-based cache for API responses.
+ * Simple in-memory TTL-based cache for API responses. For caching inside
+ * the client, see the `cache` config option.
  */
 export class ResponseCache {
   private cache = new Map<string, CacheEntry<unknown>>();
+  private maxEntries: number;
+
+  constructor(options: ResponseCacheOptions = {}) {
+    this.maxEntries = options.maxEntries ?? Infinity;
+  }
 
   /** Get a cached value, or null if not found or expired. */
   get<T>(key: string): T | null {
@@ -19,15 +30,38 @@ export class ResponseCache {
       return null;
     }
 
+    // Re-insert so the map stays ordered from least to most recently used
+    this.cache.delete(key);
+    this.cache.set(key, entry);
     return entry.data as T;
   }
 
   /** Set a cached value with a TTL in seconds. */
   set(key: string, data: unknown, ttlSeconds: number): void {
+    this.cache.delete(key);
     this.cache.set(key, {
       data,
       expiresAt: Date.now() + ttlSeconds * 1000,
     });
+    if (this.cache.size > this.maxEntries) {
+      this.prune();
+    }
+    while (this.cache.size > this.maxEntries) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+  }
+
+  /** Drop expired entries. Returns how many were dropped. */
+  prune(): number {
+    const now = Date.now();
+    let pruned = 0;
+    for (const [key, entry] of this.cache) {
+      if (now > entry.expiresAt) {
+        this.cache.delete(key);
+        pruned++;
+      }
+    }
+    return pruned;
   }
 
   /** Delete a specific cache entry. */
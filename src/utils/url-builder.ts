@@ -1,3 +1,6 @@
+import type { RecordMutation } from '../types/events.js';
+import type { HttpMethod } from '../types/http.js';
+
 /**
  * Normalize a NetSuite account ID for use in API URLs.
  * Sandbox accounts use underscore format (e.g., "1234567_SB1")
@@ -7,6 +10,14 @@ export function normalizeAccountId(accountId: string): string {
   return accountId.toLowerCase().replace(/_/g, '-');
 }
 
+/**
+ * Canonical form of an account ID, as used in configs and events:
+ * "1234567-sb1" and "1234567_sb1" both become "1234567_SB1".
+ */
+export function canonicalAccountId(accountId: string): string {
+  return accountId.trim().toUpperCase().replace(/-/g, '_');
+}
+
 /** Build the SuiteTalk REST API base URL */
 export function buildSuiteTalkUrl(accountId: string): string {
   return `https://${normalizeAccountId(accountId)}.suitetalk.api.netsuite.com`;
@@ -16,3 +27,74 @@ export function buildSuiteTalkUrl(accountId: string): string {
 export function buildRestletUrl(accountId: string): string {
   return `https://${normalizeAccountId(accountId)}.restlets.api.netsuite.com`;
 }
+
+/** Build the NetSuite UI base URL (used for the OAuth 2.0 authorize page) */
+export function buildAppUrl(accountId: string): string {
+  return `https://${normalizeAccountId(accountId)}.app.netsuite.com`;
+}
+
+/** API family a NetSuite URL belongs to */
+export type NetSuiteApi = 'record' | 'metadata' | 'suiteql' | 'restlet' | 'other';
+
+export interface NetSuiteEndpoint {
+  api: NetSuiteApi;
+  /** Account ID recovered from the host, e.g. "1234567_SB1" */
+  accountId?: string;
+  /** Record type, for the REST Record API and its metadata catalog */
+  recordType?: string;
+  /** Record ID (or `eid:` external ID), for the REST Record API */
+  recordId?: string;
+  /** Record type a transform creates, e.g. "invoice" for `/salesOrder/1/!transform/invoice` */
+  targetType?: string;
+}
+
+const RECORD_PATH = '/services/rest/record/v1/';
+const METADATA_PATH = '/services/rest/record/v1/metadata-catalog';
+const SUITEQL_PATH = '/services/rest/query/v1/suiteql';
+const RESTLET_PATH = '/app/site/hosting/restlet.nl';
+
+/** Classify a request URL by API family, for labeling metrics and spans */
+export function describeEndpoint(url: string): NetSuiteEndpoint {
+  const { hostname, pathname } = new URL(url);
+  // Hosts look like `1234567-sb1.suitetalk.api.netsuite.com`
+  const accountId = hostname.endsWith('.netsuite.com')
+    ? canonicalAccountId(hostname.split('.')[0])
+    : undefined;
+
+  if (pathname === METADATA_PATH || pathname.startsWith(`${METADATA_PATH}/`)) {
+    const recordType = pathname.slice(METADATA_PATH.length + 1).split('/')[0];
+    return { api: 'metadata', accountId, ...(recordType && { recordType }) };
+  }
+  if (pathname.startsWith(RECORD_PATH)) {
+    const [recordType, recordId, action, targetType] = pathname
+      .slice(RECORD_PATH.length)
+      .split('/');
+    return {
+      api: 'record',
+      accountId,
+      recordType,
+      recordId: recordId ? decodeURIComponent(recordId) : undefined,
+      ...(action === '!transform' && targetType && { targetType }),
+    };
+  }
+  if (pathname === SUITEQL_PATH) return { api: 'suiteql', accountId };
+  if (pathname === RESTLET_PATH) return { api: 'restlet', accountId };
+  return { api: 'other', accountId };
+}
+
+/** Whether a request can change data. SuiteQL queries are POSTs but only read. */
+export function isWriteRequest(url: string, method: HttpMethod): boolean {
+  return method !== 'GET' && describeEndpoint(url).api !== 'suiteql';
+}
+
+/** Kind of REST Record API write a request makes */
+export function classifyMutation(
+  url: string,
+  method: HttpMethod,
+  recordId?: string,
+): RecordMutation {
+  if (method === 'DELETE') return 'delete';
+  if (method === 'PATCH') return 'update';
+  if (method === 'PUT') return recordId?.startsWith('eid:') ? 'upsert' : 'replace';
+  return new URL(url).pathname.includes('/!transform/') ? 'transform' : 'create';
+}
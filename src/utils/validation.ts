@@ -1,32 +1,175 @@
 import type { NetSuiteConfig } from '../types/config.js';
+import type { WriteGuardOptions } from '../transport/write-guard.js';
+import { canonicalAccountId } from './url-builder.js';
 
-/** Validate a NetSuiteConfig and return an array of error messages (empty = valid). */
-export function validateConfig(config: unknown): string[] {
+/** Result of `checkConfig()` */
+export interface ConfigCheckResult {
+  /** Problems that make the config unusable */
+  errors: string[];
+  /** Likely mistakes that don't stop the client from working */
+  warnings: string[];
+}
+
+/** Every `NetSuiteConfig` key; typed so a new config option can't be forgotten here */
+const CONFIG_KEYS: Record<keyof NetSuiteConfig, true> = {
+  auth: true,
+  accountId: true,
+  timeout: true,
+  maxRetries: true,
+  retryDelay: true,
+  retryBudget: true,
+  circuitBreaker: true,
+  onRetry: true,
+  idempotency: true,
+  defaultHeaders: true,
+  logger: true,
+  redaction: true,
+  metrics: true,
+  adapter: true,
+  agent: true,
+  concurrency: true,
+  coalesce: true,
+  cache: true,
+  guard: true,
+  dryRun: true,
+  metadata: true,
+};
+
+/** Production (`1234567`), sandbox (`1234567_SB1`), release preview (`1234567_RP`), etc. */
+const ACCOUNT_ID_PATTERN = /^[A-Z0-9]+(?:[_-][A-Z]+\d*)?$/i;
+
+/** Levenshtein distance, for "did you mean" hints on misspelled keys */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function unknownKeyWarning(key: string): string {
+  const suggestion = Object.keys(CONFIG_KEYS).find(
+    (known) =>
+      editDistance(known.toLowerCase(), key.toLowerCase()) <= Math.max(2, known.length / 3),
+  );
+  return suggestion
+    ? `Unknown config key "${key}" (did you mean "${suggestion}"?)`
+    : `Unknown config key "${key}"`;
+}
+
+/** Check a numeric option: must be finite, at least `min`, and an integer when asked */
+function checkNumber(
+  c: Record<string, unknown>,
+  key: string,
+  { min, integer = false }: { min: number; integer?: boolean },
+  errors: string[],
+): void {
+  const value = c[key];
+  if (value === undefined) return;
+  if (
+    typeof value !== 'number' ||
+    !Number.isFinite(value) ||
+    value < min ||
+    (integer && !Number.isInteger(value))
+  ) {
+    const kind = integer ? 'an integer' : 'a number';
+    errors.push(`${key} must be ${kind} >= ${min}`);
+  }
+}
+
+/**
+ * Validate a NetSuiteConfig, returning errors (the config can't be used)
+ * and warnings (unknown keys, a realm that doesn't match the account, unusual limits).
+ */
+export function checkConfig(config: unknown): ConfigCheckResult {
   const errors: string[] = [];
+  const warnings: string[] = [];
 
   if (!config || typeof config !== 'object') {
-    return ['Config must be a non-null object'];
+    return { errors: ['Config must be a non-null object'], warnings };
   }
 
   const c = config as Record<string, unknown>;
+  const accountId = typeof c.accountId === 'string' && c.accountId ? c.accountId : undefined;
 
   // auth
   if (!c.auth || typeof c.auth !== 'object') {
     errors.push('auth is required and must be an object');
-  } else {
+  } else if (typeof (c.auth as Record<string, unknown>).authorize !== 'function') {
     const auth = c.auth as Record<string, unknown>;
-    const requiredFields = ['consumerKey', 'consumerSecret', 'tokenKey', 'tokenSecret', 'realm'];
+    const requiredFields =
+      auth.type === 'oauth2-client-credentials'
+        ? ['clientId', 'certificateId', 'privateKey']
+        : ['consumerKey', 'consumerSecret', 'tokenKey', 'tokenSecret', 'realm'];
     for (const field of requiredFields) {
       if (!auth[field] || typeof auth[field] !== 'string') {
         errors.push(`auth.${field} is required and must be a non-empty string`);
       }
     }
+
+    // TBA signs with the realm; for sandboxes it must carry the same suffix as the account
+    if (typeof auth.realm === 'string' && auth.realm && accountId) {
+      const realm = canonicalAccountId(auth.realm);
+      const account = canonicalAccountId(accountId);
+      if (realm !== account && realm.split('_')[0] === account.split('_')[0]) {
+        errors.push(
+          `auth.realm "${auth.realm}" does not match accountId "${accountId}"; ` +
+            `sandbox and release preview realms include the suffix (e.g. "${account}")`,
+        );
+      } else if (realm !== account) {
+        warnings.push(`auth.realm "${auth.realm}" differs from accountId "${accountId}"`);
+      }
+    }
   }
 
   // accountId
-  if (!c.accountId || typeof c.accountId !== 'string') {
+  if (!accountId) {
     errors.push('accountId is required and must be a non-empty string');
+  } else if (!ACCOUNT_ID_PATTERN.test(accountId)) {
+    errors.push(
+      `accountId "${accountId}" is not a valid NetSuite account ID ` +
+        '(expected e.g. "1234567" or "1234567_SB1")',
+    );
+  }
+
+  // Numeric limits
+  checkNumber(c, 'timeout', { min: 1 }, errors);
+  checkNumber(c, 'maxRetries', { min: 0, integer: true }, errors);
+  checkNumber(c, 'retryDelay', { min: 0 }, errors);
+  if (typeof c.timeout === 'number' && c.timeout >= 1 && c.timeout < 1000) {
+    warnings.push(`timeout of ${c.timeout}ms is very short; timeouts are in milliseconds`);
+  }
+  if (typeof c.maxRetries === 'number' && c.maxRetries > 10) {
+    warnings.push(`maxRetries of ${c.maxRetries} can multiply load during an outage`);
+  }
+
+  // Write guard
+  const guard = c.guard as WriteGuardOptions | undefined;
+  if (
+    guard?.requireProductionConfirmation &&
+    guard.confirmProduction &&
+    accountId &&
+    canonicalAccountId(guard.confirmProduction) !== canonicalAccountId(accountId)
+  ) {
+    warnings.push(
+      `guard.confirmProduction "${guard.confirmProduction}" does not match ` +
+        `accountId "${accountId}"; writes will be refused`,
+    );
+  }
+
+  for (const key of Object.keys(c)) {
+    if (!Object.hasOwn(CONFIG_KEYS, key)) warnings.push(unknownKeyWarning(key));
   }
 
-  return errors;
+  return { errors, warnings };
+}
+
+/** Validate a NetSuiteConfig and return an array of error messages (empty = valid). */
+export function validateConfig(config: unknown): string[] {
+  return checkConfig(config).errors;
 }